@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react"
 import { LoginForm } from "@/components/login-form"
 import { Dashboard } from "@/components/dashboard"
+import { isDiaryUnlocked } from "@/lib/diary-crypto"
+import { getCurrentSession } from "@/lib/session"
 
 export default function Home() {
   const [isAuthenticated, setIsAuthenticated] = useState(false)
@@ -10,10 +12,10 @@ export default function Home() {
 
   useEffect(() => {
     // Check if user is already logged in
-    const user = localStorage.getItem("mydiary_user")
-    const rememberMe = localStorage.getItem("mydiary_remember")
+    const session = getCurrentSession()
 
-    if (user && rememberMe === "true") {
+    // The encryption key only lives in memory, so a reload always asks for the password again
+    if (session && isDiaryUnlocked(session.username)) {
       setIsAuthenticated(true)
     }
     setIsLoading(false)
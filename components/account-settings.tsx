@@ -0,0 +1,208 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { KeyRound, LogOut, User, UserPen, UserX } from "lucide-react"
+import { ChangePasswordForm } from "@/components/change-password-form"
+import { RecoveryKeyDisplay } from "@/components/recovery-key-display"
+import { getSessionKey } from "@/lib/diary-crypto"
+import { generateRecoveryKey, hasRecoveryKey, setupRecovery } from "@/lib/recovery-key"
+import { signOutOtherTabs } from "@/lib/session"
+import { accountExists, deleteAccount, renameAccount, verifyPassword } from "@/lib/user-accounts"
+
+interface AccountSettingsProps {
+  username: string
+  onAccountRenamed: (username: string) => void
+  onAccountDeleted: () => void
+}
+
+export function AccountSettings({ username, onAccountRenamed, onAccountDeleted }: AccountSettingsProps) {
+  const [newUsername, setNewUsername] = useState("")
+  const [deletePassword, setDeletePassword] = useState("")
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const handleRename = async () => {
+    const name = newUsername.trim()
+    if (!name || name === username) return
+
+    if (accountExists(name)) {
+      alert("That username is already taken.")
+      return
+    }
+    if (!confirm(`Rename your account from "${username}" to "${name}"? You will sign in with the new name.`)) return
+
+    setIsWorking(true)
+    try {
+      await renameAccount(username, name)
+      setNewUsername("")
+      onAccountRenamed(name)
+    } catch (error) {
+      console.log("[v0] Error renaming account:", error)
+      alert("Could not rename the account. Please try again.")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCreateRecoveryKey = async () => {
+    const diaryKey = getSessionKey(username)
+    if (!diaryKey) return
+    if (hasRecoveryKey(username) && !confirm("Create a new recovery key? Your current recovery key will stop working.")) {
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery(username, recoveryKey, diaryKey)
+      setNewRecoveryKey(recoveryKey)
+    } catch (error) {
+      console.log("[v0] Error creating recovery key:", error)
+      alert("Could not create a recovery key. Please try again.")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleSignOutOtherTabs = () => {
+    signOutOtherTabs()
+    alert("All other tabs and windows have been signed out.")
+  }
+
+  const handleDelete = async () => {
+    if (!(await verifyPassword(username, deletePassword))) {
+      alert("Password is incorrect.")
+      return
+    }
+    if (
+      !confirm(
+        `Delete the account "${username}" with all its notes and settings? Files in your diary folder are kept. This cannot be undone.`,
+      )
+    ) {
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      await deleteAccount(username)
+      onAccountDeleted()
+    } catch (error) {
+      console.log("[v0] Error deleting account:", error)
+      alert("Could not delete the account. Please try again.")
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <User className="h-5 w-5" />
+          <span>Account</span>
+        </CardTitle>
+        <CardDescription>Signed in as {username}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="new-username">Rename Account</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="new-username"
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+              placeholder="New username"
+            />
+            <Button
+              variant="outline"
+              onClick={handleRename}
+              disabled={isWorking || !newUsername.trim() || newUsername.trim() === username}
+            >
+              <UserPen className="h-4 w-4 mr-2" />
+              Rename
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Your notes, files and settings move to the new name.</p>
+        </div>
+
+        <Separator />
+
+        <ChangePasswordForm username={username} />
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label>Recovery Key</Label>
+          {newRecoveryKey ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Save this key now. It will not be shown again and replaces any earlier recovery key.
+              </p>
+              <RecoveryKeyDisplay username={username} recoveryKey={newRecoveryKey} />
+              <Button variant="outline" size="sm" onClick={() => setNewRecoveryKey(null)}>
+                Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <div>
+                <Button variant="outline" onClick={handleCreateRecoveryKey} disabled={isWorking}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {hasRecoveryKey(username) ? "Create New Recovery Key" : "Create Recovery Key"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {hasRecoveryKey(username)
+                  ? "A recovery key is set up. Use it with \"Forgot password\" on the sign-in screen."
+                  : "No recovery key yet. Without one, a forgotten password cannot be reset."}
+              </p>
+            </>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label>Other Tabs</Label>
+          <div>
+            <Button variant="outline" onClick={handleSignOutOtherTabs}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out Other Tabs
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Ends the session in every other tab or window of this browser. This tab stays signed in.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="delete-account-password" className="text-destructive">
+            Delete Account
+          </Label>
+          <div className="flex space-x-2">
+            <Input
+              id="delete-account-password"
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              placeholder="Confirm with your password"
+            />
+            <Button variant="destructive" onClick={handleDelete} disabled={isWorking || !deletePassword}>
+              <UserX className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Removes the account with all notes and settings stored in this browser.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,16 +7,30 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Mic, Square, Play, Pause, Save, Trash2, Download } from "lucide-react"
+import { NoteLockControl } from "@/components/note-lock-control"
+import { encodeWav, getExtensionForMimeType, pickRecorderMimeType } from "@/lib/media-formats"
 
 interface AudioNoteRecorderProps {
   initialTitle?: string
+  // Convert the finished recording to WAV instead of keeping the browser's compressed format
+  saveAsWav?: boolean
   onSave: (title: string, audioBlob: Blob, duration: number) => void
   onCancel: () => void
+  // Shows a control to lock the note with a passphrase, see NoteLockControl
+  locked?: boolean
+  onLockChange?: (passphrase: string | null) => void
 }
 
 type RecordingState = "idle" | "recording" | "paused" | "stopped"
 
-export function AudioNoteRecorder({ initialTitle = "", onSave, onCancel }: AudioNoteRecorderProps) {
+export function AudioNoteRecorder({
+  initialTitle = "",
+  saveAsWav = false,
+  onSave,
+  onCancel,
+  locked,
+  onLockChange,
+}: AudioNoteRecorderProps) {
   const [title, setTitle] = useState(initialTitle)
   const [recordingState, setRecordingState] = useState<RecordingState>("idle")
   const [duration, setDuration] = useState(0)
@@ -67,8 +81,9 @@ export function AudioNoteRecorder({ initialTitle = "", onSave, onCancel }: Audio
       source.connect(analyserRef.current)
       analyserRef.current.fftSize = 256
 
-      // Setup media recorder
-      mediaRecorderRef.current = new MediaRecorder(stream)
+      // Setup media recorder with the most widely playable format the browser supports
+      const mimeType = pickRecorderMimeType("audio")
+      mediaRecorderRef.current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
       chunksRef.current = []
 
       mediaRecorderRef.current.ondataavailable = (event) => {
@@ -77,8 +92,17 @@ export function AudioNoteRecorder({ initialTitle = "", onSave, onCancel }: Audio
         }
       }
 
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: "audio/webm" })
+      mediaRecorderRef.current.onstop = async () => {
+        let blob = new Blob(chunksRef.current, {
+          type: mediaRecorderRef.current?.mimeType || mimeType || "audio/webm",
+        })
+        if (saveAsWav) {
+          try {
+            blob = await encodeWav(blob)
+          } catch (error) {
+            console.log("[v0] Could not convert recording to WAV, keeping original format:", error)
+          }
+        }
         setAudioBlob(blob)
         const url = URL.createObjectURL(blob)
         setAudioUrl(url)
@@ -185,10 +209,10 @@ export function AudioNoteRecorder({ initialTitle = "", onSave, onCancel }: Audio
   }
 
   const downloadAudio = () => {
-    if (audioUrl && title) {
+    if (audioUrl && audioBlob && title) {
       const a = document.createElement("a")
       a.href = audioUrl
-      a.download = `${title}.webm`
+      a.download = `${title}${getExtensionForMimeType(audioBlob.type, "audio")}`
       a.click()
     }
   }
@@ -230,6 +254,7 @@ export function AudioNoteRecorder({ initialTitle = "", onSave, onCancel }: Audio
             />
           </div>
           <div className="flex items-center space-x-2">
+            {onLockChange && <NoteLockControl locked={!!locked} onLockChange={onLockChange} />}
             <Button variant="outline" onClick={onCancel}>
               Cancel
             </Button>
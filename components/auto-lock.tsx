@@ -0,0 +1,178 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useRef } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Lock, LogOut } from "lucide-react"
+import { relockAllNotes } from "@/lib/note-lock"
+import { hasUnlockPin, verifyPassword, verifyUnlockPin } from "@/lib/user-accounts"
+
+interface AutoLockProps {
+  username: string
+  onLogout: () => void
+}
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "wheel", "scroll"]
+// After this many wrong PINs only the password unlocks the diary
+const MAX_PIN_ATTEMPTS = 5
+
+// Covers the app after inactivity or when the tab is hidden, as set in the privacy settings.
+// Everything underneath stays mounted, so an open editor keeps its unsaved text.
+export function AutoLock({ username, onLogout }: AutoLockProps) {
+  const [isLocked, setIsLocked] = useState(false)
+  const [usePin, setUsePin] = useState(false)
+  const [secret, setSecret] = useState("")
+  const [error, setError] = useState("")
+  const [isChecking, setIsChecking] = useState(false)
+  const lockedRef = useRef(false)
+  const pinAttemptsRef = useRef(0)
+  const lastActivityRef = useRef(0)
+  const lockTimeoutRef = useRef<NodeJS.Timeout>()
+
+  useEffect(() => {
+    if (!username) return
+
+    const getPrivacySettings = () => {
+      const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+      return userSettings.privacy || {}
+    }
+
+    const lock = () => {
+      if (lockedRef.current) return
+      lockedRef.current = true
+      // Locked notes need their passphrase again after the lock screen
+      relockAllNotes()
+      setSecret("")
+      setError("")
+      setUsePin(hasUnlockPin(username) && pinAttemptsRef.current < MAX_PIN_ATTEMPTS)
+      setIsLocked(true)
+    }
+
+    // Settings are read each time, so changes apply without reloading
+    const armTimer = () => {
+      if (lockTimeoutRef.current) clearTimeout(lockTimeoutRef.current)
+      const privacy = getPrivacySettings()
+      if (privacy.autoLock) {
+        lockTimeoutRef.current = setTimeout(lock, (privacy.autoLockTime || 15) * 60 * 1000)
+      }
+    }
+
+    const handleActivity = () => {
+      if (lockedRef.current) return
+      const now = Date.now()
+      if (now - lastActivityRef.current < 1000) return
+      lastActivityRef.current = now
+      armTimer()
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.hidden && getPrivacySettings().passwordProtection) lock()
+    }
+
+    armTimer()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { capture: true, passive: true }))
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      if (lockTimeoutRef.current) clearTimeout(lockTimeoutRef.current)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity, { capture: true }))
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [username])
+
+  const unlock = () => {
+    lockedRef.current = false
+    // The next activity arms the idle timer again
+    lastActivityRef.current = 0
+    setIsLocked(false)
+    setSecret("")
+    setError("")
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsChecking(true)
+
+    if (usePin) {
+      if (await verifyUnlockPin(username, secret)) {
+        unlock()
+      } else {
+        pinAttemptsRef.current++
+        setSecret("")
+        if (pinAttemptsRef.current >= MAX_PIN_ATTEMPTS) {
+          setUsePin(false)
+          setError("Too many wrong PINs. Enter your password instead.")
+        } else {
+          setError("Wrong PIN")
+        }
+      }
+    } else if (await verifyPassword(username, secret)) {
+      pinAttemptsRef.current = 0
+      unlock()
+    } else {
+      setSecret("")
+      setError("Incorrect password")
+    }
+
+    setIsChecking(false)
+  }
+
+  const canUsePin = hasUnlockPin(username) && pinAttemptsRef.current < MAX_PIN_ATTEMPTS
+
+  return (
+    <Dialog open={isLocked} onOpenChange={() => {}}>
+      <DialogContent
+        showCloseButton={false}
+        className="max-w-full h-full flex items-center justify-center bg-background"
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-6 text-center">
+          <div className="flex justify-center">
+            <div className="bg-gradient-to-r from-indigo-500 to-purple-500 p-4 rounded-full shadow-lg">
+              <Lock className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <DialogTitle className="text-2xl">Diary locked</DialogTitle>
+            <DialogDescription>
+              {usePin ? `Enter your PIN to continue, ${username}` : `Enter your password to continue, ${username}`}
+            </DialogDescription>
+          </div>
+
+          <Input
+            type="password"
+            inputMode={usePin ? "numeric" : undefined}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={usePin ? "PIN" : "Password"}
+            autoFocus
+            required
+          />
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={isChecking || !secret}>
+            Unlock
+          </Button>
+
+          <div className="flex items-center justify-between text-sm">
+            {canUsePin ? (
+              <Button type="button" variant="link" className="px-0" onClick={() => setUsePin(!usePin)}>
+                {usePin ? "Use password instead" : "Use PIN instead"}
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button type="button" variant="ghost" size="sm" onClick={onLogout}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
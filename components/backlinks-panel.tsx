@@ -0,0 +1,75 @@
+"use client"
+
+import { useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Link2, X } from "lucide-react"
+import { findBacklinks, getNoteText, resolveWikiLink, WIKI_LINK_PATTERN } from "@/lib/note-links"
+import type { NoteRecord } from "@/lib/note-repository"
+
+interface BacklinksPanelProps {
+  note: NoteRecord
+  // Every note, to find the ones linking here
+  notes: NoteRecord[]
+  onOpen: (note: NoteRecord) => void
+  onClose: () => void
+}
+
+// Characters shown on either side of the link
+const CONTEXT_LENGTH = 60
+
+// The text around the first link in a note that points at the target
+function linkContext(source: NoteRecord, target: NoteRecord, notes: NoteRecord[]): string {
+  const text = getNoteText(source).replace(/\s+/g, " ")
+  for (const match of Array.from(text.matchAll(WIKI_LINK_PATTERN))) {
+    if (resolveWikiLink(match[1], notes)?.id !== target.id) continue
+
+    const start = match.index ?? 0
+    const from = Math.max(start - CONTEXT_LENGTH, 0)
+    const to = Math.min(start + match[0].length + CONTEXT_LENGTH, text.length)
+    return `${from > 0 ? "..." : ""}${text.slice(from, to).trim()}${to < text.length ? "..." : ""}`
+  }
+  return ""
+}
+
+export function BacklinksPanel({ note, notes, onOpen, onClose }: BacklinksPanelProps) {
+  const backlinks = useMemo(() => findBacklinks(note, notes), [note, notes])
+
+  return (
+    <div className="w-96 flex-shrink-0 border-l bg-card flex flex-col max-h-[calc(100vh-10rem)]">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center space-x-2 font-semibold">
+          <Link2 className="h-4 w-4" />
+          <span>Backlinks</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {backlinks.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          No entries link here yet. Link to this one from another entry with [[{note.title}]].
+        </p>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {backlinks.map((backlink) => (
+            <button
+              key={backlink.id}
+              type="button"
+              onClick={() => onOpen(backlink)}
+              className="w-full text-left px-4 py-3 border-b text-sm hover:bg-muted/50"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium truncate">{backlink.title}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0 ml-2">
+                  {new Date(backlink.date).toLocaleDateString()}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{linkContext(backlink, note, notes)}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
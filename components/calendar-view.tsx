@@ -3,32 +3,56 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { ChevronLeft, ChevronRight, FileText, Mic, Video } from "lucide-react"
+import { ChevronLeft, ChevronRight, FileText, Mic, Video, ImageIcon } from "lucide-react"
+import { getNoteRepository, type NoteRecord } from "@/lib/note-repository"
+import { getFileStorageManager, type ScanResult } from "@/lib/file-storage"
+import { DirectoryScanSummary } from "@/components/directory-scan-summary"
+import { MixedMediaIcons } from "@/components/mixed-media-icons"
 
 interface CalendarViewProps {
   username: string
+  onEditNote?: (note: NoteRecord) => void
 }
 
-interface Note {
-  id: string
-  title: string
-  type: "text" | "audio" | "video"
-  date: string
-  mood?: string
-}
-
-export function CalendarView({ username }: CalendarViewProps) {
+export function CalendarView({ username, onEditNote }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
-  const [notes, setNotes] = useState<Note[]>([])
+  const [notes, setNotes] = useState<NoteRecord[]>([])
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanError, setScanError] = useState<string | null>(null)
 
   useEffect(() => {
     loadNotes()
   }, [username])
 
-  const loadNotes = () => {
-    const userNotes = JSON.parse(localStorage.getItem(`mydiary_notes_${username}`) || "[]")
-    setNotes(userNotes)
+  const loadNotes = async () => {
+    const repository = getNoteRepository(username)
+    setScanError(null)
+    try {
+      setNotes(await repository.listNotes())
+
+      // Pick up files added, edited or removed outside the app
+      setIsScanning(true)
+      const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+      const fileStorage = getFileStorageManager(
+        username,
+        userSettings.diaryPath || "",
+        userSettings.storageBackend,
+        userSettings.filenamePattern,
+      )
+      const result = await fileStorage.scanDirectory()
+      setScanResult(result)
+
+      if (result && result.imported.length + result.updated.length + result.missing.length > 0) {
+        setNotes(await repository.listNotes())
+      }
+    } catch (error) {
+      console.log("[v0] Error loading notes:", error)
+      setScanError("Could not check your diary folder for changes. Try rescanning.")
+    } finally {
+      setIsScanning(false)
+    }
   }
 
   const getDaysInMonth = (date: Date) => {
@@ -85,6 +109,8 @@ export function CalendarView({ username }: CalendarViewProps) {
 
   return (
     <div className="space-y-6">
+      <DirectoryScanSummary result={scanResult} isScanning={isScanning} error={scanError} onRescan={loadNotes} />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -134,6 +160,7 @@ export function CalendarView({ username }: CalendarViewProps) {
                         {note.type === "text" && <FileText className="h-3 w-3 text-blue-500" />}
                         {note.type === "audio" && <Mic className="h-3 w-3 text-green-500" />}
                         {note.type === "video" && <Video className="h-3 w-3 text-purple-500" />}
+                        {note.type === "photo" && <ImageIcon className="h-3 w-3 text-pink-500" />}
                         <span className="truncate flex-1">{note.title}</span>
                       </div>
                     ))}
@@ -167,12 +194,21 @@ export function CalendarView({ username }: CalendarViewProps) {
             ) : (
               <div className="space-y-3">
                 {getNotesForDate(selectedDate).map((note) => (
-                  <div key={note.id} className="flex items-center space-x-3 p-3 border rounded-lg">
+                  <div
+                    key={note.id}
+                    className="flex items-center space-x-3 p-3 border rounded-lg cursor-pointer transition-colors hover:bg-muted/50"
+                    onClick={() => onEditNote?.(note)}
+                  >
                     {note.type === "text" && <FileText className="h-5 w-5 text-blue-500" />}
                     {note.type === "audio" && <Mic className="h-5 w-5 text-green-500" />}
                     {note.type === "video" && <Video className="h-5 w-5 text-purple-500" />}
+                    {note.type === "photo" && <ImageIcon className="h-5 w-5 text-pink-500" />}
+                    <MixedMediaIcons note={note} />
                     <div className="flex-1">
-                      <p className="font-medium">{note.title}</p>
+                      <p className="font-medium">
+                        {note.title}
+                        {note.missing && <span className="ml-2 text-xs text-orange-500">File missing</span>}
+                      </p>
                       <p className="text-sm text-muted-foreground">
                         {new Date(note.date).toLocaleTimeString("en-US", {
                           hour: "2-digit",
@@ -0,0 +1,106 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { KeyRound } from "lucide-react"
+import { getSessionKey, saveEncryptionConfig, wrapDiaryKey } from "@/lib/diary-crypto"
+import { signOutOtherTabs } from "@/lib/session"
+import { setPassword, verifyPassword } from "@/lib/user-accounts"
+
+interface ChangePasswordFormProps {
+  username: string
+}
+
+export function ChangePasswordForm({ username }: ChangePasswordFormProps) {
+  const [passwords, setPasswords] = useState({ current: "", next: "", confirm: "" })
+  const [error, setError] = useState("")
+  const [isChanging, setIsChanging] = useState(false)
+
+  // The diary key stays the same and is only wrapped with the new password, so no note is rewritten
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (passwords.next !== passwords.confirm) {
+      setError("New passwords do not match")
+      return
+    }
+
+    if (passwords.next.length < 6) {
+      setError("Password must be at least 6 characters long")
+      return
+    }
+
+    if (!(await verifyPassword(username, passwords.current))) {
+      setError("Current password is incorrect")
+      return
+    }
+
+    const diaryKey = getSessionKey(username)
+    if (!diaryKey) {
+      setError("Your diary is locked. Please sign in again.")
+      return
+    }
+
+    setIsChanging(true)
+    try {
+      saveEncryptionConfig(username, await wrapDiaryKey(passwords.next, diaryKey))
+      await setPassword(username, passwords.next)
+      // Tabs signed in with the old password should not stay open
+      signOutOtherTabs()
+
+      setPasswords({ current: "", next: "", confirm: "" })
+      alert("Password changed. Other tabs were signed out.")
+    } catch (err) {
+      console.log("[v0] Error changing password:", err)
+      setError("Changing the password failed. Please try again.")
+    } finally {
+      setIsChanging(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-0.5">
+        <Label>Change Password</Label>
+        <p className="text-xs text-muted-foreground">
+          Your notes stay encrypted with the same key, which is protected by your new password from now on.
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <Input
+          type="password"
+          value={passwords.current}
+          onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+          placeholder="Current password"
+          required
+        />
+        <Input
+          type="password"
+          value={passwords.next}
+          onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+          placeholder="New password"
+          required
+        />
+        <Input
+          type="password"
+          value={passwords.confirm}
+          onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+          placeholder="Confirm new password"
+          required
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" variant="outline" disabled={isChanging}>
+        <KeyRound className="h-4 w-4 mr-2" />
+        {isChanging ? "Changing password..." : "Change Password"}
+      </Button>
+    </form>
+  )
+}
@@ -1,57 +1,344 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { FileText, Mic, Video, Save, Edit } from "lucide-react"
+import { FileText, Mic, Video, ImageIcon, Save, Edit, Lock, Lightbulb, RefreshCw } from "lucide-react"
 import { TextNoteEditor } from "@/components/text-note-editor"
 import { AudioNoteRecorder } from "@/components/audio-note-recorder"
 import { VideoNoteRecorder } from "@/components/video-note-recorder"
-import { getFileStorageManager } from "@/lib/file-storage"
+import { PhotoNoteCapture } from "@/components/photo-note-capture"
+import { DraftRestoreBanner } from "@/components/draft-restore-banner"
+import { NoteLockControl } from "@/components/note-lock-control"
+import { NoteUnlockForm } from "@/components/note-unlock-form"
+import { getFileStorageManager, type NoteType } from "@/lib/file-storage"
+import type { NoteAttachment, NoteClip } from "@/lib/note-attachments"
+import {
+  createNoteLock,
+  isNoteUnlocked,
+  lockBlob,
+  lockText,
+  relockNote,
+  unlockBlob,
+  unlockNote,
+  unlockText,
+} from "@/lib/note-lock"
+import {
+  createDraftId,
+  getNoteRepository,
+  type NoteDraft,
+  type NoteFormat,
+  type NoteRecord,
+} from "@/lib/note-repository"
+import { fillTemplate, getDailyPrompt, getUserTemplates, type NoteTemplate } from "@/lib/note-templates"
 
 interface CreateNoteDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onNoteCreated: () => void
+  // When set, the dialog edits this note instead of creating a new one
+  note?: NoteRecord | null
+  onNoteUpdated?: () => void
+  // Opens another note, when a [[link]] in this one is followed
+  onOpenNote?: (note: NoteRecord) => void
   username: string
 }
 
-type NoteType = "text" | "audio" | "video"
-type ViewMode = "select" | "editor" | "audio-recorder" | "video-recorder"
+type ViewMode = "select" | "editor" | "audio-recorder" | "video-recorder" | "photo-capture"
 
-export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }: CreateNoteDialogProps) {
+// What a photo note keeps besides the picture; takenAt dates the entry to when it was taken
+interface PhotoDetails {
+  caption: string
+  takenAt?: string
+}
+
+// Notes written in the plain textarea have no markup; keep their line breaks in the rich editor
+const toEditorHtml = (content: string) =>
+  /<\/?[a-z][^>]*>/i.test(content)
+    ? content
+    : content.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>")
+
+const toPlainText = (content: string) =>
+  new DOMParser().parseFromString(content, "text/html").body.textContent?.trim() || ""
+
+export function CreateNoteDialog({
+  open,
+  onOpenChange,
+  onNoteCreated,
+  note,
+  onNoteUpdated,
+  onOpenNote,
+  username,
+}: CreateNoteDialogProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("select")
   const [noteType, setNoteType] = useState<NoteType>("text")
   const [title, setTitle] = useState("")
   const [content, setContent] = useState("")
+  // What's typed into the quick textarea is Markdown
+  const [format, setFormat] = useState<NoteFormat>("markdown")
   const [tags, setTags] = useState("")
   const [mood, setMood] = useState("")
+  const [saveAudioAsWav, setSaveAudioAsWav] = useState(false)
+  const [existingMediaUrl, setExistingMediaUrl] = useState<string | null>(null)
+  const [isLoadingNote, setIsLoadingNote] = useState(false)
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [pendingDraft, setPendingDraft] = useState<NoteDraft | null>(null)
+  const [isLocked, setIsLocked] = useState(false)
+  // Set when the lock is created or changed; applied on save
+  const [newLockPassphrase, setNewLockPassphrase] = useState<string | null>(null)
+  // An existing locked note whose passphrase has not been entered in this tab yet
+  const [needsUnlock, setNeedsUnlock] = useState(false)
+  const [unlockCount, setUnlockCount] = useState(0)
+  // A save waiting for the note's passphrase, e.g. after the diary locked while the note was open
+  const [pendingSave, setPendingSave] = useState<(() => Promise<void>) | null>(null)
+  // The unlocked recording of a media note, locked again on save when the lock changes
+  const [existingMedia, setExistingMedia] = useState<Blob | null>(null)
+  const [templates, setTemplates] = useState<NoteTemplate[]>([])
+  // Steps from today's prompt through the others
+  const [promptOffset, setPromptOffset] = useState(0)
+
+  const getFileStorage = () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    return getFileStorageManager(
+      username,
+      userSettings.diaryPath || "",
+      userSettings.storageBackend,
+      userSettings.filenamePattern,
+    )
+  }
+
+  // Templates may have changed in the settings since the dialog was last open
+  useEffect(() => {
+    if (open && !note) setTemplates(getUserTemplates(username))
+  }, [open, note, username])
+
+  // Load the note being edited and reopen the editor it was created with
+  useEffect(() => {
+    if (!open || !note) return
+
+    let mediaUrl: string | null = null
+    const loadNote = async () => {
+      setIsLoadingNote(true)
+      setTitle(note.title)
+      setTags(note.tags.join(", "))
+      setMood(note.mood || "")
+      setNoteType(note.type)
+      setIsLocked(!!note.locked)
+
+      if (note.locked && !isNoteUnlocked(note.id)) {
+        setNeedsUnlock(true)
+        setViewMode("select")
+        setIsLoadingNote(false)
+        return
+      }
+      setNeedsUnlock(false)
+
+      const stored = await getFileStorage().loadNoteFile(note)
+      const blob = stored && (await unlockBlob(note.id, stored))
+      if (note.type === "text") {
+        const text = blob ? await blob.text() : note.content || ""
+        setContent((await unlockText(note.id, text)) ?? "")
+        setFormat(note.format ?? "html")
+        setDraftId(createDraftId(note.id))
+        setViewMode("editor")
+      } else {
+        if (note.type === "photo") setContent((await unlockText(note.id, note.content || "")) ?? "")
+        if (blob) {
+          mediaUrl = URL.createObjectURL(blob)
+          setExistingMediaUrl(mediaUrl)
+          setExistingMedia(blob)
+        }
+        setViewMode("select")
+      }
+      setIsLoadingNote(false)
+    }
+
+    loadNote().catch((error) => {
+      console.log("[v0] Error loading note for editing:", error)
+      setIsLoadingNote(false)
+    })
 
-  const handleSave = async (noteTitle?: string, noteContent?: string | Blob, duration?: number, thumbnail?: Blob) => {
+    return () => {
+      if (mediaUrl) URL.revokeObjectURL(mediaUrl)
+      setExistingMediaUrl(null)
+      setExistingMedia(null)
+    }
+  }, [open, note, unlockCount])
+
+  // Text notes keep their content in the index; media notes are checked against their recording
+  const handleUnlockNote = async (passphrase: string) => {
+    if (!note) return false
+
+    const sample = note.type === "text" ? note.content : await getFileStorage().loadNoteFile(note)
+    if (!sample || !(await unlockNote(note.id, passphrase, sample))) return false
+
+    setUnlockCount((count) => count + 1)
+    return true
+  }
+
+  // Retry the waiting save once the passphrase fits, keeping whatever is still open in the editor
+  const handleUnlockForSave = async (passphrase: string) => {
+    if (!note || !pendingSave) return false
+
+    const sample = note.type === "text" ? note.content : await getFileStorage().loadNoteFile(note)
+    if (!sample || !(await unlockNote(note.id, passphrase, sample))) return false
+
+    const retry = pendingSave
+    setPendingSave(null)
+    await retry()
+    return true
+  }
+
+  const handleRelockNote = () => {
+    if (!note) return
+
+    relockNote(note.id)
+    handleDialogOpenChange(false)
+  }
+
+  const handleLockChange = (passphrase: string | null) => {
+    setIsLocked(passphrase !== null)
+    setNewLockPassphrase(passphrase)
+    // Drafts would keep the text readable with only the diary key
+    if (passphrase !== null) removeDraft()
+  }
+
+  // Lock a note's content, recording, thumbnail and attachments as the lock settings say
+  const applyLock = async (
+    noteId: string,
+    text?: string,
+    blob?: Blob,
+    thumbnail?: Blob,
+    attachments: NoteAttachment[] = [],
+  ) => {
+    if (!isLocked) {
+      relockNote(noteId)
+      return { content: text, blob, thumbnail, attachments }
+    }
+
+    if (newLockPassphrase) await createNoteLock(noteId, newLockPassphrase)
+    const lockedAttachments: NoteAttachment[] = []
+    for (const attachment of attachments) {
+      lockedAttachments.push({ name: attachment.name, blob: await lockBlob(noteId, attachment.blob) })
+    }
+    return {
+      content: text !== undefined ? await lockText(noteId, text) : undefined,
+      blob: blob && (await lockBlob(noteId, blob)),
+      thumbnail: thumbnail && (await lockBlob(noteId, thumbnail)),
+      attachments: lockedAttachments,
+    }
+  }
+
+  // Attachments of the note being edited, unlocked when the note is
+  const loadAttachment = async (name: string) => {
+    if (!note) return null
+    const stored = await getFileStorage().loadAttachment(note, name)
+    return stored && unlockBlob(note.id, stored)
+  }
+
+  // Offer to continue a new note whose editor was closed without saving
+  useEffect(() => {
+    if (!open || note) return
+
+    getNoteRepository(username)
+      .listDrafts()
+      .then((drafts) => setPendingDraft(drafts[0] ?? null))
+      .catch((error) => console.log("[v0] Error checking for drafts:", error))
+  }, [open, note])
+
+  const restoreDraft = () => {
+    if (!pendingDraft) return
+
+    setTitle(pendingDraft.title)
+    setContent(pendingDraft.content)
+    setFormat(pendingDraft.format ?? "html")
+    setDraftId(pendingDraft.id)
+    setPendingDraft(null)
+    setNoteType("text")
+    setViewMode("editor")
+  }
+
+  const discardPendingDraft = () => {
+    if (!pendingDraft) return
+
+    getNoteRepository(username).deleteDraft(pendingDraft.id)
+    setPendingDraft(null)
+  }
+
+  const removeDraft = () => {
+    if (!draftId) return
+
+    getNoteRepository(username)
+      .deleteDraft(draftId)
+      .catch((error) => console.log("[v0] Error removing draft:", error))
+    setDraftId(null)
+  }
+
+  // Editors call this without waiting, so failures are shown here and the editor stays open with the changes
+  const handleSave = async (...args: Parameters<typeof saveNote>) => {
+    try {
+      await saveNote(...args)
+    } catch (error) {
+      console.log("[v0] Error saving note:", error)
+      alert("Could not save this note. Your changes are still open, please try again.")
+    }
+  }
+
+  const saveNote = async (
+    noteTitle?: string,
+    noteContent?: string | Blob,
+    duration?: number,
+    thumbnail?: Blob,
+    noteFormat: NoteFormat = format,
+    attachments: NoteAttachment[] = [],
+    photo?: PhotoDetails,
+    clips?: NoteClip[],
+  ) => {
     const finalTitle = noteTitle || title
 
     if (!finalTitle.trim()) return
 
+    if (note) {
+      await handleUpdate(note, finalTitle, noteContent, duration, thumbnail, noteFormat, attachments, photo, clips)
+      return
+    }
+
     const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
-    const fileStorage = getFileStorageManager(username, userSettings.diaryPath || "")
+    const fileStorage = getFileStorage()
 
+    const id = Date.now().toString()
+    // A photo's caption is kept as its content
+    const text =
+      noteType === "text" ? (noteContent as string) || content : noteType === "photo" ? (photo?.caption ?? content) : ""
+    const locked = await applyLock(
+      id,
+      text,
+      noteType !== "text" ? (noteContent as Blob) : undefined,
+      thumbnail,
+      attachments,
+    )
     const newNote = {
-      id: Date.now().toString(),
+      id,
       title: finalTitle.trim(),
       type: noteType,
-      content: noteType === "text" ? (noteContent as string) || content : "",
-      blob: noteType !== "text" ? (noteContent as Blob) : undefined,
-      date: new Date().toISOString(),
+      content: locked.content || "",
+      blob: locked.blob,
+      date: photo?.takenAt ?? new Date().toISOString(),
       tags: tags
         .split(",")
         .map((tag) => tag.trim())
         .filter(Boolean),
       mood,
       duration: duration || 0,
+      thumbnail: locked.thumbnail,
+      locked: isLocked,
+      format: noteType === "text" ? noteFormat : undefined,
+      attachments: locked.attachments,
+      clips: noteType === "text" ? clips : undefined,
     }
 
     console.log("[v0] Attempting to save note:", { title: finalTitle, type: noteType })
@@ -62,41 +349,144 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
       if (success) {
         console.log("[v0] Note saved successfully")
       } else {
-        console.log("[v0] Note saved to localStorage as fallback")
+        console.log("[v0] Note saved to browser storage as fallback")
         if (noteType !== "text" || userSettings.diaryPath) {
           fileStorage.downloadFile(newNote)
         }
       }
     } catch (error) {
       console.log("[v0] Error saving note:", error)
-      const existingNotes = JSON.parse(localStorage.getItem(`mydiary_notes_${username}`) || "[]")
-      existingNotes.push({
-        id: newNote.id,
-        title: newNote.title,
-        type: newNote.type,
-        content: newNote.content,
-        audioData: noteType === "audio" ? noteContent : undefined,
-        videoData: noteType === "video" ? noteContent : undefined,
-        thumbnail: thumbnail,
-        duration: newNote.duration,
-        tags: newNote.tags,
-        mood: newNote.mood,
-        date: newNote.date,
-        createdAt: Date.now(),
-      })
-      localStorage.setItem(`mydiary_notes_${username}`, JSON.stringify(existingNotes))
+      await getNoteRepository(username).saveNote(
+        {
+          id: newNote.id,
+          title: newNote.title,
+          type: newNote.type,
+          content: newNote.content,
+          duration: newNote.duration,
+          tags: newNote.tags,
+          mood: newNote.mood,
+          date: newNote.date,
+          savedToFile: false,
+          size: (newNote.blob?.size || newNote.content.length) + (newNote.thumbnail?.size || 0),
+          updatedAt: newNote.date,
+          locked: isLocked || undefined,
+          format: newNote.format,
+          clips: newNote.clips,
+        },
+        { blob: newNote.blob, thumbnail: newNote.thumbnail },
+      )
     }
 
     resetForm()
     onNoteCreated()
   }
 
+  const handleUpdate = async (
+    previous: NoteRecord,
+    noteTitle: string,
+    noteContent?: string | Blob,
+    duration?: number,
+    thumbnail?: Blob,
+    noteFormat: NoteFormat = format,
+    attachments: NoteAttachment[] = [],
+    photo?: PhotoDetails,
+    clips?: NoteClip[],
+  ) => {
+    // The passphrase is gone when the diary locked while the note was open; ask again, then save
+    if (isLocked && newLockPassphrase === null && !isNoteUnlocked(previous.id)) {
+      const retry = () =>
+        handleSave(noteTitle, noteContent, duration, thumbnail, noteFormat, attachments, photo, clips)
+      setPendingSave(() => retry)
+      return
+    }
+
+    let blob = noteContent instanceof Blob ? noteContent : undefined
+    let thumbnailBlob = thumbnail
+    // A kept recording has to be written again when the lock is added, changed or removed
+    const lockChanged = isLocked !== !!previous.locked || newLockPassphrase !== null
+    if (previous.type !== "text" && !blob && lockChanged) {
+      blob = existingMedia ?? undefined
+      if (!thumbnailBlob && previous.hasThumbnail) {
+        const stored = await getNoteRepository(username).getMedia(previous.id, "thumbnail")
+        thumbnailBlob = (stored && (await unlockBlob(previous.id, stored))) ?? undefined
+      }
+    }
+    // ...and so do the attachments the note already has
+    const allAttachments = [...attachments]
+    if (lockChanged) {
+      for (const name of previous.attachments ?? []) {
+        if (allAttachments.some((attachment) => attachment.name === name)) continue
+        const stored = await getFileStorage().loadAttachment(previous, name)
+        const unlocked = stored && (await unlockBlob(previous.id, stored))
+        if (unlocked) allAttachments.push({ name, blob: unlocked })
+      }
+    }
+
+    const text =
+      previous.type === "text"
+        ? typeof noteContent === "string"
+          ? noteContent
+          : content
+        : previous.type === "photo"
+          ? (photo?.caption ?? content)
+          : undefined
+    const locked = await applyLock(
+      previous.id,
+      text,
+      blob,
+      thumbnailBlob,
+      allAttachments,
+    )
+    const success = await getFileStorage().updateNoteFile(previous, {
+      id: previous.id,
+      title: noteTitle.trim(),
+      type: previous.type,
+      content: locked.content,
+      // Only a new recording replaces the stored one
+      blob: locked.blob,
+      date: photo?.takenAt ?? previous.date,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      mood,
+      duration: duration ?? previous.duration,
+      thumbnail: locked.thumbnail,
+      locked: isLocked,
+      format: previous.type === "text" ? noteFormat : undefined,
+      attachments: locked.attachments,
+      // Saving from the details keeps the clips the editor last saved
+      clips: previous.type === "text" ? (clips ?? previous.clips) : undefined,
+    })
+
+    if (!success) {
+      alert("Could not update this note. If it is saved in your diary folder, reconnect the folder and try again.")
+      return
+    }
+
+    // Earlier revisions and drafts would still show the text without the passphrase
+    if (isLocked && !previous.locked) {
+      await getNoteRepository(username).deleteHistory(previous.id)
+    }
+
+    resetForm()
+    onNoteUpdated?.()
+  }
+
   const resetForm = () => {
+    removeDraft()
+    setPendingDraft(null)
     setTitle("")
     setContent("")
+    setFormat("markdown")
     setTags("")
     setMood("")
     setNoteType("text")
+    setIsLocked(false)
+    setNewLockPassphrase(null)
+    setNeedsUnlock(false)
+    setPendingSave(null)
+    setPromptOffset(0)
     setViewMode("select")
   }
 
@@ -105,12 +495,59 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
     onOpenChange(false)
   }
 
+  const handleDialogOpenChange = (isOpen: boolean) => {
+    if (!isOpen && note) resetForm()
+    onOpenChange(isOpen)
+  }
+
+  // Leaving an editor while editing goes back to the note's details instead of discarding them
+  const handleEditorCancel = () => {
+    if (note) {
+      removeDraft()
+      setViewMode("select")
+    } else {
+      handleCancel()
+    }
+  }
+
+  const handleOpenLinkedNote = (target: NoteRecord) => {
+    if (!onOpenNote || !confirm(`Open "${target.title}"? Changes you haven't saved are discarded.`)) return
+
+    resetForm()
+    onOpenNote(target)
+  }
+
+  const prompt = getDailyPrompt(new Date(), promptOffset)
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((candidate) => candidate.id === templateId)
+    if (!template) return
+    if ((title.trim() || content.trim()) && !confirm("Replace the title and text you've written with this template?")) {
+      return
+    }
+
+    const now = new Date()
+    setTitle(fillTemplate(template.title, now, prompt))
+    setContent(fillTemplate(template.content, now, prompt))
+    setFormat("markdown")
+  }
+
+  const insertPrompt = () => {
+    setContent((current) => `> ${prompt}\n\n${current.trimStart()}`)
+    setFormat("markdown")
+  }
+
   const handleOpenTextEditor = () => {
+    // An empty new note opens as rich text; anything typed so far is Markdown
+    if (!note && !content.trim()) setFormat("html")
+    setDraftId(createDraftId(note?.id))
     setNoteType("text")
     setViewMode("editor")
   }
 
   const handleOpenAudioRecorder = () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    setSaveAudioAsWav(userSettings.audioFormat === "wav")
     setNoteType("audio")
     setViewMode("audio-recorder")
   }
@@ -120,6 +557,11 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
     setViewMode("video-recorder")
   }
 
+  const handleOpenPhotoCapture = () => {
+    setNoteType("photo")
+    setViewMode("photo-capture")
+  }
+
   const moodOptions = [
     { value: "happy", label: "😊 Happy", color: "text-yellow-500" },
     { value: "sad", label: "😢 Sad", color: "text-blue-500" },
@@ -130,18 +572,45 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
     { value: "grateful", label: "🙏 Grateful", color: "text-pink-500" },
   ]
 
+  const saveUnlockPrompt = pendingSave && (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 p-4">
+      <div className="w-full max-w-md space-y-2 bg-background">
+        <NoteUnlockForm
+          message="The diary was locked while this note was open. Enter its passphrase again to save your changes."
+          onUnlock={handleUnlockForSave}
+        />
+        <div className="flex justify-center">
+          <Button variant="ghost" size="sm" onClick={() => setPendingSave(null)}>
+            Not now
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
   if (viewMode === "editor") {
     return (
       <Dialog open={open} onOpenChange={() => {}}>
         <DialogContent className="max-w-full h-full p-0 gap-0">
           <TextNoteEditor
+            key={note?.id ?? "new"}
             initialTitle={title}
-            initialContent={content}
-            onSave={(noteTitle, noteContent) => {
-              handleSave(noteTitle, noteContent)
+            initialContent={format === "markdown" ? content : toEditorHtml(content)}
+            initialFormat={format}
+            initialClips={note?.clips}
+            onSave={(noteTitle, noteContent, noteFormat, attachments, clips) => {
+              handleSave(noteTitle, noteContent, undefined, undefined, noteFormat, attachments, undefined, clips)
             }}
-            onCancel={handleCancel}
+            onCancel={handleEditorCancel}
+            noteId={isLocked ? undefined : note?.id}
+            username={username}
+            draftId={isLocked ? undefined : (draftId ?? undefined)}
+            locked={isLocked}
+            onLockChange={handleLockChange}
+            onOpenNote={handleOpenLinkedNote}
+            loadAttachment={loadAttachment}
           />
+          {saveUnlockPrompt}
         </DialogContent>
       </Dialog>
     )
@@ -153,11 +622,15 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
         <DialogContent className="max-w-full h-full p-0 gap-0">
           <AudioNoteRecorder
             initialTitle={title}
+            saveAsWav={saveAudioAsWav}
             onSave={(noteTitle, audioBlob, duration) => {
               handleSave(noteTitle, audioBlob, duration)
             }}
-            onCancel={handleCancel}
+            onCancel={handleEditorCancel}
+            locked={isLocked}
+            onLockChange={handleLockChange}
           />
+          {saveUnlockPrompt}
         </DialogContent>
       </Dialog>
     )
@@ -172,30 +645,62 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
             onSave={(noteTitle, videoBlob, thumbnailBlob, duration) => {
               handleSave(noteTitle, videoBlob, duration, thumbnailBlob)
             }}
-            onCancel={handleCancel}
+            onCancel={handleEditorCancel}
+            locked={isLocked}
+            onLockChange={handleLockChange}
+          />
+          {saveUnlockPrompt}
+        </DialogContent>
+      </Dialog>
+    )
+  }
+
+  if (viewMode === "photo-capture") {
+    return (
+      <Dialog open={open} onOpenChange={() => {}}>
+        <DialogContent className="max-w-full h-full p-0 gap-0">
+          <PhotoNoteCapture
+            initialTitle={title}
+            initialCaption={content}
+            onSave={(noteTitle, photoBlob, thumbnailBlob, caption, takenAt) => {
+              handleSave(noteTitle, photoBlob, undefined, thumbnailBlob, undefined, [], { caption, takenAt })
+            }}
+            onCancel={handleEditorCancel}
+            locked={isLocked}
+            onLockChange={handleLockChange}
           />
+          {saveUnlockPrompt}
         </DialogContent>
       </Dialog>
     )
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleDialogOpenChange}>
       <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
-          <DialogTitle>Create New Note</DialogTitle>
-          <DialogDescription>Add a new entry to your diary. Choose the type and fill in the details.</DialogDescription>
+          <DialogTitle>{note ? "Edit Note" : "Create New Note"}</DialogTitle>
+          <DialogDescription>
+            {note
+              ? "Change the details of this entry, or open it again in its editor."
+              : "Add a new entry to your diary. Choose the type and fill in the details."}
+          </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
+          {pendingDraft && (
+            <DraftRestoreBanner draft={pendingDraft} onRestore={restoreDraft} onDiscard={discardPendingDraft} />
+          )}
+
           {/* Note Type Selection */}
           <div className="space-y-2">
             <Label>Note Type</Label>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-4 gap-2">
               <Button
                 type="button"
                 variant={noteType === "text" ? "default" : "outline"}
                 onClick={() => setNoteType("text")}
+                disabled={!!note && note.type !== "text"}
                 className="flex items-center space-x-2"
               >
                 <FileText className="h-4 w-4" />
@@ -205,6 +710,7 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
                 type="button"
                 variant={noteType === "audio" ? "default" : "outline"}
                 onClick={() => setNoteType("audio")}
+                disabled={!!note && note.type !== "audio"}
                 className="flex items-center space-x-2"
               >
                 <Mic className="h-4 w-4" />
@@ -214,14 +720,43 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
                 type="button"
                 variant={noteType === "video" ? "default" : "outline"}
                 onClick={() => setNoteType("video")}
+                disabled={!!note && note.type !== "video"}
                 className="flex items-center space-x-2"
               >
                 <Video className="h-4 w-4" />
                 <span>Video</span>
               </Button>
+              <Button
+                type="button"
+                variant={noteType === "photo" ? "default" : "outline"}
+                onClick={() => setNoteType("photo")}
+                disabled={!!note && note.type !== "photo"}
+                className="flex items-center space-x-2"
+              >
+                <ImageIcon className="h-4 w-4" />
+                <span>Photo</span>
+              </Button>
             </div>
           </div>
 
+          {!note && noteType === "text" && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value="" onValueChange={applyTemplate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Start from a template..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Title */}
           <div className="space-y-2">
             <Label htmlFor="title">Title *</Label>
@@ -235,7 +770,9 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
           </div>
 
           {/* Content based on type */}
-          {noteType === "text" && (
+          {needsUnlock && <NoteUnlockForm onUnlock={handleUnlockNote} />}
+
+          {!needsUnlock && noteType === "text" && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="content">Content</Label>
@@ -244,17 +781,43 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
                   Rich Editor
                 </Button>
               </div>
-              <Textarea
-                id="content"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="Write your thoughts here... (or use Rich Editor for formatting)"
-                rows={6}
-              />
+              {note ? (
+                <p className="text-sm text-muted-foreground border rounded-md p-3 max-h-40 overflow-y-auto whitespace-pre-wrap">
+                  {isLoadingNote
+                    ? "Loading..."
+                    : (format === "markdown" ? content.trim() : toPlainText(content)) || "This note is empty."}
+                </p>
+              ) : (
+                <Textarea
+                  id="content"
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Write your thoughts here... Markdown such as **bold** and - lists works too"
+                  rows={6}
+                />
+              )}
+              {!note && (
+                <div className="flex items-center gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+                  <Lightbulb className="h-4 w-4 shrink-0 text-yellow-500" />
+                  <span className="flex-1 text-muted-foreground">{prompt}</span>
+                  <Button variant="ghost" size="sm" onClick={insertPrompt} className="h-7 text-xs">
+                    Use
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPromptOffset((offset) => offset + 1)}
+                    className="h-7 w-7 p-0"
+                    title="Another prompt"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
             </div>
           )}
 
-          {noteType === "audio" && (
+          {!needsUnlock && noteType === "audio" && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Audio Recording</Label>
@@ -265,23 +828,27 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
                   className="text-xs bg-transparent"
                 >
                   <Mic className="h-3 w-3 mr-1" />
-                  Record Audio
-                </Button>
-              </div>
-              <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
-                <Mic className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground mb-4">
-                  Click "Record Audio" to open the full recording interface
-                </p>
-                <Button variant="outline" onClick={handleOpenAudioRecorder}>
-                  <Mic className="h-4 w-4 mr-2" />
-                  Start Recording
+                  {note ? "Record Again" : "Record Audio"}
                 </Button>
               </div>
+              {note && existingMediaUrl ? (
+                <audio src={existingMediaUrl} controls className="w-full" />
+              ) : (
+                <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
+                  <Mic className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Click "Record Audio" to open the full recording interface
+                  </p>
+                  <Button variant="outline" onClick={handleOpenAudioRecorder}>
+                    <Mic className="h-4 w-4 mr-2" />
+                    Start Recording
+                  </Button>
+                </div>
+              )}
             </div>
           )}
 
-          {noteType === "video" && (
+          {!needsUnlock && noteType === "video" && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Video Recording</Label>
@@ -292,19 +859,61 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
                   className="text-xs bg-transparent"
                 >
                   <Video className="h-3 w-3 mr-1" />
-                  Record Video
+                  {note ? "Record Again" : "Record Video"}
                 </Button>
               </div>
-              <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
-                <Video className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground mb-4">
-                  Click "Record Video" to open the full recording interface with camera preview and filters
-                </p>
-                <Button variant="outline" onClick={handleOpenVideoRecorder}>
-                  <Video className="h-4 w-4 mr-2" />
-                  Start Recording
+              {note && existingMediaUrl ? (
+                <video src={existingMediaUrl} controls className="w-full rounded-lg bg-black" />
+              ) : (
+                <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
+                  <Video className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Click "Record Video" to open the full recording interface with camera preview and filters
+                  </p>
+                  <Button variant="outline" onClick={handleOpenVideoRecorder}>
+                    <Video className="h-4 w-4 mr-2" />
+                    Start Recording
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!needsUnlock && noteType === "photo" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Photo</Label>
+                <Button variant="outline" size="sm" onClick={handleOpenPhotoCapture} className="text-xs bg-transparent">
+                  <ImageIcon className="h-3 w-3 mr-1" />
+                  {note ? "Replace Photo" : "Take or Upload Photo"}
                 </Button>
               </div>
+              {note && existingMediaUrl ? (
+                <img
+                  src={existingMediaUrl}
+                  alt={content}
+                  className="w-full max-h-64 object-contain rounded-lg bg-muted"
+                />
+              ) : (
+                <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
+                  <ImageIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Take a photo with your camera or upload one; photos keep the date they were taken
+                  </p>
+                  <Button variant="outline" onClick={handleOpenPhotoCapture}>
+                    <ImageIcon className="h-4 w-4 mr-2" />
+                    Add Photo
+                  </Button>
+                </div>
+              )}
+              {note && (
+                <Textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Add a caption..."
+                  rows={2}
+                />
+              )}
             </div>
           )}
 
@@ -337,16 +946,28 @@ export function CreateNoteDialog({ open, onOpenChange, onNoteCreated, username }
           </div>
 
           {/* Actions */}
-          <div className="flex justify-end space-x-2">
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button onClick={() => handleSave()} disabled={!title.trim()}>
-              <Save className="h-4 w-4 mr-2" />
-              Save Note
-            </Button>
+          <div className="flex justify-between">
+            <div className="flex space-x-2">
+              {!needsUnlock && <NoteLockControl locked={isLocked} onLockChange={handleLockChange} />}
+              {note?.locked && !needsUnlock && (
+                <Button variant="ghost" onClick={handleRelockNote} title="Close and require the passphrase again">
+                  <Lock className="h-4 w-4 mr-2" />
+                  Lock Again
+                </Button>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => handleDialogOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => handleSave()} disabled={!title.trim() || isLoadingNote || needsUnlock}>
+                <Save className="h-4 w-4 mr-2" />
+                {note ? "Save Changes" : "Save Note"}
+              </Button>
+            </div>
           </div>
         </div>
+        {saveUnlockPrompt}
       </DialogContent>
     </Dialog>
   )
@@ -9,6 +9,7 @@ import {
   FileText,
   Mic,
   Video,
+  ImageIcon,
   Calendar,
   TrendingUp,
   Settings,
@@ -18,11 +19,20 @@ import {
   Star,
   Heart,
   Flame,
+  FolderOpen,
+  Trash2,
 } from "lucide-react"
 import { CreateNoteDialog } from "@/components/create-note-dialog"
 import { CalendarView } from "@/components/calendar-view"
 import { SearchFilterView } from "@/components/search-filter-view"
 import { SettingsView } from "@/components/settings-view"
+import { TrashView } from "@/components/trash-view"
+import { AutoLock } from "@/components/auto-lock"
+import { MixedMediaIcons } from "@/components/mixed-media-icons"
+import { getNoteRepository, type NoteRecord } from "@/lib/note-repository"
+import { DEFAULT_TRASH_RETENTION_DAYS, getFileStorageManager } from "@/lib/file-storage"
+import type { DirectoryAccessState } from "@/lib/directory-handles"
+import { endSession, getCurrentSession, watchSession } from "@/lib/session"
 
 interface DashboardProps {
   onLogout: () => void
@@ -33,67 +43,108 @@ interface DiaryStats {
   textNotes: number
   audioNotes: number
   videoNotes: number
+  photoNotes: number
   streak: number
-  recentNotes: Array<{
-    id: string
-    title: string
-    type: "text" | "audio" | "video"
-    date: string
-    preview?: string
-  }>
+  recentNotes: Array<NoteRecord & { preview?: string }>
   storageUsed: string
 }
 
-type ViewMode = "dashboard" | "calendar" | "search" | "settings"
+type ViewMode = "dashboard" | "calendar" | "search" | "trash" | "settings"
 
 export function Dashboard({ onLogout }: DashboardProps) {
   const [currentUser, setCurrentUser] = useState("")
   const [currentView, setCurrentView] = useState<ViewMode>("dashboard")
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [editingNote, setEditingNote] = useState<NoteRecord | null>(null)
+  // Bumped after an edit so the calendar and search views reload their notes
+  const [notesVersion, setNotesVersion] = useState(0)
   const [isDirectorySetup, setIsDirectorySetup] = useState(false)
+  const [directoryAccess, setDirectoryAccess] = useState<DirectoryAccessState>("none")
   const [stats, setStats] = useState<DiaryStats>({
     totalNotes: 0,
     textNotes: 0,
     audioNotes: 0,
     videoNotes: 0,
+    photoNotes: 0,
     streak: 0,
     recentNotes: [],
     storageUsed: "0 KB",
   })
 
   useEffect(() => {
-    const user = localStorage.getItem("mydiary_user")
-    if (user) {
-      setCurrentUser(user)
-      loadUserStats(user)
-      checkDirectorySetup(user)
+    const session = getCurrentSession()
+    if (session) {
+      setCurrentUser(session.username)
+      loadUserStats(session.username)
+      checkDirectorySetup(session.username).then(() => purgeExpiredTrash(session.username))
     }
   }, [])
 
-  const checkDirectorySetup = (username: string) => {
+  // Sign out here when the session expires or another tab signs out
+  useEffect(() => watchSession(onLogout), [])
+
+  const checkDirectorySetup = async (username: string) => {
     const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
     const isSetup = localStorage.getItem(`mydiary_directory_initialized_${username}`) === "true"
     setIsDirectorySetup(isSetup)
+
+    if (isSetup) {
+      const fileStorage = getFileStorageManager(
+        username,
+        userSettings.diaryPath || "",
+        userSettings.storageBackend,
+        userSettings.filenamePattern,
+      )
+      setDirectoryAccess(await fileStorage.restoreDirectoryHandle())
+    }
   }
 
-  const loadUserStats = (username: string) => {
-    const userNotes = JSON.parse(localStorage.getItem(`mydiary_notes_${username}`) || "[]")
+  const reconnectDirectory = async () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${currentUser}`) || "{}")
+    const fileStorage = getFileStorageManager(
+      currentUser,
+      userSettings.diaryPath || "",
+      userSettings.storageBackend,
+      userSettings.filenamePattern,
+    )
+    const granted = await fileStorage.reconnectDirectory()
+    setDirectoryAccess(granted ? "granted" : "denied")
+  }
 
-    const textNotes = userNotes.filter((note: any) => note.type === "text").length
-    const audioNotes = userNotes.filter((note: any) => note.type === "audio").length
-    const videoNotes = userNotes.filter((note: any) => note.type === "video").length
+  // Files in a diary folder can only be purged once its handle has been restored
+  const purgeExpiredTrash = async (username: string) => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    const fileStorage = getFileStorageManager(
+      username,
+      userSettings.diaryPath || "",
+      userSettings.storageBackend,
+      userSettings.filenamePattern,
+    )
+    await fileStorage.purgeExpiredTrash(userSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)
+  }
 
-    const streak = calculateStreak(userNotes)
+  const loadUserStats = async (username: string) => {
+    const userNotes = await getNoteRepository(username).listNotes()
 
-    const recentNotes = userNotes
-      .sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 5)
-      .map((note: any) => ({
-        ...note,
-        preview: note.type === "text" ? note.content?.substring(0, 100) + "..." : `${note.type} recording`,
-      }))
+    const textNotes = userNotes.filter((note) => note.type === "text").length
+    const audioNotes = userNotes.filter((note) => note.type === "audio").length
+    const videoNotes = userNotes.filter((note) => note.type === "video").length
+    const photoNotes = userNotes.filter((note) => note.type === "photo").length
+
+    const streak = calculateStreak(userNotes)
 
-    const storageSize = JSON.stringify(userNotes).length
+    const recentNotes = userNotes.slice(0, 5).map((note) => ({
+      ...note,
+      preview: note.locked
+        ? "Locked note"
+        : note.type === "text"
+          ? note.content?.substring(0, 100) + "..."
+          : note.type === "photo"
+            ? note.content || "Photo"
+            : `${note.type} recording`,
+    }))
+
+    const storageSize = userNotes.reduce((total, note) => total + (note.size || 0), 0)
     const storageUsed =
       storageSize < 1024
         ? `${storageSize} B`
@@ -106,13 +157,14 @@ export function Dashboard({ onLogout }: DashboardProps) {
       textNotes,
       audioNotes,
       videoNotes,
+      photoNotes,
       streak,
       recentNotes,
       storageUsed,
     })
   }
 
-  const calculateStreak = (notes: any[]) => {
+  const calculateStreak = (notes: NoteRecord[]) => {
     if (notes.length === 0) return 0
 
     const today = new Date()
@@ -147,16 +199,33 @@ export function Dashboard({ onLogout }: DashboardProps) {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("mydiary_user")
-    localStorage.removeItem("mydiary_remember")
+    endSession()
     onLogout()
   }
 
+  const handleAccountRenamed = (username: string) => {
+    setCurrentUser(username)
+    loadUserStats(username)
+    checkDirectorySetup(username)
+  }
+
   const handleNoteCreated = () => {
     loadUserStats(currentUser)
     setShowCreateDialog(false)
   }
 
+  const handleNoteUpdated = () => {
+    loadUserStats(currentUser)
+    setEditingNote(null)
+    setNotesVersion((version) => version + 1)
+  }
+
+  // Follow a [[link]] from the note being written or edited to the one it names
+  const handleOpenLinkedNote = (note: NoteRecord) => {
+    setShowCreateDialog(false)
+    setEditingNote(note)
+  }
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString("en-US", {
       month: "short",
@@ -166,14 +235,40 @@ export function Dashboard({ onLogout }: DashboardProps) {
     })
   }
 
+  // Ties go to the type listed first
+  const getMostActiveType = () => {
+    const counts: Array<[string, number]> = [
+      ["Text", stats.textNotes],
+      ["Audio", stats.audioNotes],
+      ["Video", stats.videoNotes],
+      ["Photo", stats.photoNotes],
+    ]
+    return counts.reduce((most, type) => (type[1] > most[1] ? type : most))[0]
+  }
+
   const renderDashboardContent = () => {
     switch (currentView) {
       case "calendar":
-        return <CalendarView username={currentUser} />
+        return <CalendarView key={notesVersion} username={currentUser} onEditNote={setEditingNote} />
       case "search":
-        return <SearchFilterView username={currentUser} />
+        return (
+          <SearchFilterView
+            key={notesVersion}
+            username={currentUser}
+            onEditNote={setEditingNote}
+            onNotesChanged={() => loadUserStats(currentUser)}
+          />
+        )
+      case "trash":
+        return <TrashView username={currentUser} onNotesChanged={() => loadUserStats(currentUser)} />
       case "settings":
-        return <SettingsView username={currentUser} />
+        return (
+          <SettingsView
+            username={currentUser}
+            onAccountRenamed={handleAccountRenamed}
+            onAccountDeleted={onLogout}
+          />
+        )
       default:
         return (
           <div className="space-y-12">
@@ -190,7 +285,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                       </h3>
                       <p className="text-sm text-orange-700 dark:text-orange-300 mb-4">
                         Configure your diary to save notes as files on your computer with organized folders (Text/,
-                        Audio/, Video/). Your notes will be saved with timestamps like "2025-01-15_MyNote.txt".
+                        Audio/, Video/, Images/). Your notes will be saved with timestamps like "2025-01-15_MyNote.txt".
                       </p>
                       <Button
                         onClick={() => setCurrentView("settings")}
@@ -206,6 +301,34 @@ export function Dashboard({ onLogout }: DashboardProps) {
               </Card>
             )}
 
+            {isDirectorySetup && (directoryAccess === "prompt" || directoryAccess === "denied") && (
+              <Card className="border-orange-200 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800">
+                <CardContent className="p-6">
+                  <div className="flex items-start space-x-4">
+                    <div className="p-2 bg-orange-500 rounded-lg">
+                      <FolderOpen className="h-5 w-5 text-white" />
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-orange-800 dark:text-orange-200 mb-2">Reconnect Diary Folder</h3>
+                      <p className="text-sm text-orange-700 dark:text-orange-300 mb-4">
+                        {directoryAccess === "denied"
+                          ? "Access to your diary folder was denied. New notes are being kept in browser storage until you allow access again."
+                          : "Your browser needs permission again to write to your diary folder. Until then, new notes are kept in browser storage."}
+                      </p>
+                      <Button
+                        onClick={reconnectDirectory}
+                        size="sm"
+                        className="bg-orange-500 hover:bg-orange-600 text-white"
+                      >
+                        <FolderOpen className="h-4 w-4 mr-2" />
+                        Reconnect Folder
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             <div className="text-center relative">
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="w-96 h-96 bg-gradient-to-r from-indigo-400/20 to-purple-400/20 rounded-full blur-3xl animate-pulse"></div>
@@ -258,7 +381,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                 </Button>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
                 <Card
                   className="modern-card hover-lift cursor-pointer group stagger-item border-0 shadow-xl overflow-hidden"
                   onClick={() => setShowCreateDialog(true)}
@@ -315,10 +438,29 @@ export function Dashboard({ onLogout }: DashboardProps) {
                     </p>
                   </CardContent>
                 </Card>
+
+                <Card
+                  className="modern-card hover-lift cursor-pointer group stagger-item border-0 shadow-xl overflow-hidden"
+                  onClick={() => setShowCreateDialog(true)}
+                >
+                  <div className="absolute inset-0 bg-gradient-to-br from-pink-500/5 to-pink-600/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                  <CardContent className="p-8 text-center relative z-10">
+                    <div className="relative mb-6">
+                      <div className="absolute inset-0 bg-pink-500/20 rounded-full blur-xl group-hover:blur-2xl transition-all duration-300"></div>
+                      <div className="relative bg-gradient-to-r from-pink-500 to-pink-600 p-6 rounded-2xl w-20 h-20 mx-auto flex items-center justify-center shadow-lg">
+                        <ImageIcon className="h-10 w-10 text-white" />
+                      </div>
+                    </div>
+                    <h3 className="text-xl font-bold mb-3 text-foreground">Photo Note</h3>
+                    <p className="text-muted-foreground leading-relaxed">
+                      Snap a picture or upload one, add a caption, and keep the day it was taken
+                    </p>
+                  </CardContent>
+                </Card>
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6">
               <Card className="modern-card hover-lift stagger-item border-0 shadow-lg overflow-hidden">
                 <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/5 to-indigo-600/10"></div>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
@@ -383,6 +525,22 @@ export function Dashboard({ onLogout }: DashboardProps) {
                 </CardContent>
               </Card>
 
+              <Card className="modern-card hover-lift stagger-item border-0 shadow-lg overflow-hidden">
+                <div className="absolute inset-0 bg-gradient-to-br from-pink-500/5 to-pink-600/10"></div>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
+                  <CardTitle className="text-sm font-semibold text-muted-foreground">Photo Notes</CardTitle>
+                  <div className="p-2.5 bg-gradient-to-r from-pink-500 to-pink-600 rounded-xl shadow-lg">
+                    <ImageIcon className="h-5 w-5 text-white" />
+                  </div>
+                </CardHeader>
+                <CardContent className="relative z-10">
+                  <div className="text-4xl font-bold bg-gradient-to-r from-pink-600 to-pink-700 bg-clip-text text-transparent mb-1">
+                    {stats.photoNotes}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Pictures and captions</p>
+                </CardContent>
+              </Card>
+
               <Card className="modern-card hover-lift stagger-item border-0 shadow-lg overflow-hidden">
                 <div className="absolute inset-0 bg-gradient-to-br from-orange-500/5 to-orange-600/10"></div>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3 relative z-10">
@@ -439,8 +597,9 @@ export function Dashboard({ onLogout }: DashboardProps) {
                       {stats.recentNotes.map((note, index) => (
                         <div
                           key={note.id}
-                          className="flex items-start space-x-4 p-5 rounded-2xl modern-card hover:shadow-lg transition-all duration-300 hover-lift group"
+                          className="flex items-start space-x-4 p-5 rounded-2xl modern-card hover:shadow-lg transition-all duration-300 hover-lift group cursor-pointer"
                           style={{ animationDelay: `${index * 0.1}s` }}
+                          onClick={() => setEditingNote(note)}
                         >
                           <div className="flex-shrink-0 mt-1">
                             <div
@@ -449,19 +608,25 @@ export function Dashboard({ onLogout }: DashboardProps) {
                                   ? "bg-gradient-to-r from-blue-500 to-blue-600"
                                   : note.type === "audio"
                                     ? "bg-gradient-to-r from-green-500 to-green-600"
-                                    : "bg-gradient-to-r from-purple-500 to-purple-600"
+                                    : note.type === "photo"
+                                      ? "bg-gradient-to-r from-pink-500 to-pink-600"
+                                      : "bg-gradient-to-r from-purple-500 to-purple-600"
                               }`}
                             >
                               {note.type === "text" && <FileText className="h-5 w-5 text-white" />}
                               {note.type === "audio" && <Mic className="h-5 w-5 text-white" />}
                               {note.type === "video" && <Video className="h-5 w-5 text-white" />}
+                              {note.type === "photo" && <ImageIcon className="h-5 w-5 text-white" />}
                             </div>
                           </div>
                           <div className="flex-1 min-w-0">
                             <p className="text-base font-semibold truncate text-foreground group-hover:text-indigo-600 transition-colors">
                               {note.title}
                             </p>
-                            <p className="text-sm text-muted-foreground mb-2">{formatDate(note.date)}</p>
+                            <p className="flex items-center space-x-2 text-sm text-muted-foreground mb-2">
+                              <span>{formatDate(note.date)}</span>
+                              <MixedMediaIcons note={note} />
+                            </p>
                             {note.preview && (
                               <p className="text-sm text-muted-foreground truncate leading-relaxed">{note.preview}</p>
                             )}
@@ -501,11 +666,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                   <div className="flex items-center justify-between p-5 modern-card rounded-xl">
                     <span className="text-base font-semibold text-foreground">Most Active Type</span>
                     <span className="text-base font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
-                      {stats.textNotes >= stats.audioNotes && stats.textNotes >= stats.videoNotes
-                        ? "Text"
-                        : stats.audioNotes >= stats.videoNotes
-                          ? "Audio"
-                          : "Video"}
+                      {getMostActiveType()}
                     </span>
                   </div>
                   {stats.streak > 0 && (
@@ -572,6 +733,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
               { key: "dashboard", icon: TrendingUp, label: "Dashboard" },
               { key: "calendar", icon: Calendar, label: "Calendar" },
               { key: "search", icon: Search, label: "Search" },
+              { key: "trash", icon: Trash2, label: "Trash" },
               { key: "settings", icon: Settings, label: "Settings" },
             ].map(({ key, icon: Icon, label }) => (
               <Button
@@ -595,10 +757,23 @@ export function Dashboard({ onLogout }: DashboardProps) {
 
       <div className="container mx-auto px-6 py-12">{renderDashboardContent()}</div>
 
+      <AutoLock username={currentUser} onLogout={handleLogout} />
+
       <CreateNoteDialog
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
         onNoteCreated={handleNoteCreated}
+        onOpenNote={handleOpenLinkedNote}
+        username={currentUser}
+      />
+
+      <CreateNoteDialog
+        open={editingNote !== null}
+        onOpenChange={(open) => !open && setEditingNote(null)}
+        onNoteCreated={handleNoteCreated}
+        note={editingNote}
+        onNoteUpdated={handleNoteUpdated}
+        onOpenNote={handleOpenLinkedNote}
         username={currentUser}
       />
     </div>
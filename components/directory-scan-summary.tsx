@@ -0,0 +1,51 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, FolderSync, RefreshCw } from "lucide-react"
+import type { ScanResult } from "@/lib/file-storage"
+
+interface DirectoryScanSummaryProps {
+  result: ScanResult | null
+  isScanning: boolean
+  // Set when the last scan failed
+  error?: string | null
+  onRescan: () => void
+}
+
+export function DirectoryScanSummary({ result, isScanning, error, onRescan }: DirectoryScanSummaryProps) {
+  const describeResult = () => {
+    if (isScanning) return "Checking your diary folder for changes..."
+    if (error) return error
+    if (!result) return "Diary folder not connected"
+
+    const parts = []
+    if (result.imported.length > 0) parts.push(`${result.imported.length} new from disk`)
+    if (result.updated.length > 0) parts.push(`${result.updated.length} updated`)
+    if (result.missing.length > 0) parts.push(`${result.missing.length} missing on disk`)
+    if (result.failed.length > 0) parts.push(`${result.failed.length} could not be read`)
+    return parts.length > 0 ? parts.join(" • ") : "Diary folder is in sync"
+  }
+
+  // Hovering the summary lists the files that could not be read
+  const failedFiles =
+    !isScanning && result && result.failed.length > 0 ? `Could not read:\n${result.failed.join("\n")}` : undefined
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted/30 text-sm">
+      <div className="flex items-center space-x-2 text-muted-foreground">
+        {error && !isScanning ? (
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+        ) : result && (result.missing.length > 0 || result.failed.length > 0) ? (
+          <AlertTriangle className="h-4 w-4 text-orange-500" />
+        ) : (
+          <FolderSync className="h-4 w-4" />
+        )}
+        <span title={failedFiles}>{describeResult()}</span>
+      </div>
+      <Button variant="ghost" size="sm" onClick={onRescan} disabled={isScanning}>
+        <RefreshCw className={`h-4 w-4 mr-2 ${isScanning ? "animate-spin" : ""}`} />
+        Rescan
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { FileClock } from "lucide-react"
+import type { NoteDraft } from "@/lib/note-repository"
+
+interface DraftRestoreBannerProps {
+  draft: NoteDraft
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+export function DraftRestoreBanner({ draft, onRestore, onDiscard }: DraftRestoreBannerProps) {
+  const savedAt = new Date(draft.updatedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted/30 text-sm">
+      <div className="flex items-center space-x-2 text-muted-foreground min-w-0">
+        <FileClock className="h-4 w-4 text-orange-500 flex-shrink-0" />
+        <span className="truncate">
+          Restore unsaved draft{draft.title ? ` "${draft.title}"` : ""} from {savedAt}?
+        </span>
+      </div>
+      <div className="flex space-x-2">
+        <Button variant="ghost" size="sm" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={onRestore}>
+          Restore
+        </Button>
+      </div>
+    </div>
+  )
+}
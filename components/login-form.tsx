@@ -8,7 +8,20 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Eye, EyeOff, BookOpen, Sparkles, Heart, Star, Lock, User } from "lucide-react"
+import { Eye, EyeOff, BookOpen, Sparkles, Heart, Star, Lock, User, KeyRound } from "lucide-react"
+import { RecoveryKeyDisplay } from "@/components/recovery-key-display"
+import {
+  clearSessionKey,
+  getSessionKey,
+  saveEncryptionConfig,
+  setSessionKey,
+  unlockDiary,
+  wrapDiaryKey,
+} from "@/lib/diary-crypto"
+import { getNoteRepository } from "@/lib/note-repository"
+import { generateRecoveryKey, hasRecoveryKey, recoverDiaryKey, setupRecovery } from "@/lib/recovery-key"
+import { getRememberedUsername, signOutOtherTabs, startSession } from "@/lib/session"
+import { accountExists, setPassword, verifyPassword } from "@/lib/user-accounts"
 
 interface LoginFormProps {
   onLogin: () => void
@@ -16,18 +29,24 @@ interface LoginFormProps {
 
 export function LoginForm({ onLogin }: LoginFormProps) {
   const [showPassword, setShowPassword] = useState(false)
-  const [rememberMe, setRememberMe] = useState(false)
-  const [loginData, setLoginData] = useState({ username: "", password: "" })
+  const [rememberMe, setRememberMe] = useState(() => getRememberedUsername() !== null)
+  // A remembered user still enters their password, since it unlocks the diary's encryption key
+  const [loginData, setLoginData] = useState(() => ({ username: getRememberedUsername() || "", password: "" }))
   const [signupData, setSignupData] = useState({ username: "", password: "", confirmPassword: "" })
+  const [resetData, setResetData] = useState({ username: "", recoveryKey: "", password: "", confirmPassword: "" })
+  const [showForgotPassword, setShowForgotPassword] = useState(false)
+  // Shown once after signup, before entering the diary
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null)
+  const [hasSavedRecoveryKey, setHasSavedRecoveryKey] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
   const [error, setError] = useState("")
 
-  const hashPassword = async (password: string): Promise<string> => {
-    const encoder = new TextEncoder()
-    const data = encoder.encode(password)
-    const hash = await crypto.subtle.digest("SHA-256", data)
-    return Array.from(new Uint8Array(hash))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
+  // Derive the encryption key, encrypting existing notes the first time
+  const openDiary = async (username: string, password: string) => {
+    const isNewKey = await unlockDiary(username, password)
+    if (isNewKey) {
+      await getNoteRepository(username).reencrypt(null, getSessionKey(username)!)
+    }
   }
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -35,12 +54,9 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     setError("")
 
     try {
-      const users = JSON.parse(localStorage.getItem("mydiary_users") || "{}")
-      const hashedPassword = await hashPassword(loginData.password)
-
-      if (users[loginData.username] && users[loginData.username] === hashedPassword) {
-        localStorage.setItem("mydiary_user", loginData.username)
-        localStorage.setItem("mydiary_remember", rememberMe.toString())
+      if (await verifyPassword(loginData.username, loginData.password)) {
+        await openDiary(loginData.username, loginData.password)
+        startSession(loginData.username, rememberMe)
         onLogin()
       } else {
         setError("Invalid username or password")
@@ -65,19 +81,19 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     }
 
     try {
-      const users = JSON.parse(localStorage.getItem("mydiary_users") || "{}")
-
-      if (users[signupData.username]) {
+      if (accountExists(signupData.username)) {
         setError("Username already exists")
         return
       }
 
-      const hashedPassword = await hashPassword(signupData.password)
-      users[signupData.username] = hashedPassword
+      // The recovery key is set up before the account is saved, so a failure leaves no account behind
+      setIsWorking(true)
+      await openDiary(signupData.username, signupData.password)
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery(signupData.username, recoveryKey, getSessionKey(signupData.username)!)
 
-      localStorage.setItem("mydiary_users", JSON.stringify(users))
-      localStorage.setItem("mydiary_user", signupData.username)
-      localStorage.setItem("mydiary_remember", "true")
+      await setPassword(signupData.username, signupData.password)
+      startSession(signupData.username, rememberMe)
 
       // Initialize user settings
       const userSettings = {
@@ -88,9 +104,60 @@ export function LoginForm({ onLogin }: LoginFormProps) {
       }
       localStorage.setItem(`mydiary_settings_${signupData.username}`, JSON.stringify(userSettings))
 
+      setNewRecoveryKey(recoveryKey)
+    } catch (err) {
+      console.log("[v0] Error signing up:", err)
+      if (accountExists(signupData.username)) {
+        setError("Your account was created, but opening your diary failed. Please sign in.")
+      } else {
+        clearSessionKey(signupData.username)
+        setError("Signup failed. Please try again.")
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // The recovery key unwraps the diary key, which is then protected by the new password
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (resetData.password !== resetData.confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    if (resetData.password.length < 6) {
+      setError("Password must be at least 6 characters long")
+      return
+    }
+
+    if (!accountExists(resetData.username) || !hasRecoveryKey(resetData.username)) {
+      setError("No recovery key is set up for this account")
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const diaryKey = await recoverDiaryKey(resetData.username, resetData.recoveryKey)
+      if (!diaryKey) {
+        setError("That recovery key does not belong to this account")
+        return
+      }
+
+      saveEncryptionConfig(resetData.username, await wrapDiaryKey(resetData.password, diaryKey))
+      await setPassword(resetData.username, resetData.password)
+      setSessionKey(resetData.username, diaryKey)
+      startSession(resetData.username, false)
+      signOutOtherTabs()
+
       onLogin()
     } catch (err) {
-      setError("Signup failed. Please try again.")
+      console.log("[v0] Error resetting password:", err)
+      setError("Resetting the password failed. Please try again.")
+    } finally {
+      setIsWorking(false)
     }
   }
 
@@ -137,170 +204,321 @@ export function LoginForm({ onLogin }: LoginFormProps) {
         </CardHeader>
 
         <CardContent>
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 modern-card p-1">
-              <TabsTrigger
-                value="login"
-                className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-purple-500 data-[state=active]:text-white transition-all duration-300"
-              >
-                Login
-              </TabsTrigger>
-              <TabsTrigger
-                value="signup"
-                className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-purple-500 data-[state=active]:text-white transition-all duration-300"
+          {newRecoveryKey ? (
+            <div className="space-y-6">
+              <div className="space-y-2 text-center">
+                <h2 className="text-xl font-semibold flex items-center justify-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  Save your recovery key
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  If you forget your password, this key is the only way back into your diary. Print it or store it
+                  somewhere safe; it will not be shown again.
+                </p>
+              </div>
+
+              <RecoveryKeyDisplay username={signupData.username} recoveryKey={newRecoveryKey} />
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="saved-recovery-key"
+                  checked={hasSavedRecoveryKey}
+                  onCheckedChange={(checked) => setHasSavedRecoveryKey(checked as boolean)}
+                  className="border-2"
+                />
+                <Label htmlFor="saved-recovery-key" className="text-sm font-medium">
+                  I have saved my recovery key
+                </Label>
+              </div>
+
+              <Button
+                onClick={onLogin}
+                disabled={!hasSavedRecoveryKey}
+                className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
               >
-                Sign Up
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login" className="mt-6">
-              <form onSubmit={handleLogin} className="space-y-6">
-                <div className="space-y-2 stagger-item">
-                  <Label htmlFor="login-username" className="text-sm font-semibold flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    Username
-                  </Label>
-                  <Input
-                    id="login-username"
-                    type="text"
-                    value={loginData.username}
-                    onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
-                    className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
-                    placeholder="Enter your username"
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2 stagger-item">
-                  <Label htmlFor="login-password" className="text-sm font-semibold flex items-center gap-2">
-                    <Lock className="h-4 w-4" />
-                    Password
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="login-password"
-                      type={showPassword ? "text" : "password"}
-                      value={loginData.password}
-                      onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
-                      className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 pr-12 text-base"
-                      placeholder="Enter your password"
-                      required
-                    />
+                Open My Diary
+              </Button>
+            </div>
+          ) : (
+            <Tabs defaultValue="login" className="w-full">
+              <TabsList className="grid w-full grid-cols-2 modern-card p-1">
+                <TabsTrigger
+                  value="login"
+                  className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-purple-500 data-[state=active]:text-white transition-all duration-300"
+                >
+                  Login
+                </TabsTrigger>
+                <TabsTrigger
+                  value="signup"
+                  className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-purple-500 data-[state=active]:text-white transition-all duration-300"
+                >
+                  Sign Up
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login" className="mt-6">
+                {showForgotPassword ? (
+                  <form onSubmit={handleResetPassword} className="space-y-6">
+                    <p className="text-sm text-muted-foreground">
+                      Enter the recovery key you saved when you created your diary, then choose a new password.
+                    </p>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-username" className="text-sm font-semibold flex items-center gap-2">
+                        <User className="h-4 w-4" />
+                        Username
+                      </Label>
+                      <Input
+                        id="reset-username"
+                        value={resetData.username}
+                        onChange={(e) => setResetData({ ...resetData, username: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                        placeholder="Enter your username"
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-recovery-key" className="text-sm font-semibold flex items-center gap-2">
+                        <KeyRound className="h-4 w-4" />
+                        Recovery Key
+                      </Label>
+                      <Input
+                        id="reset-recovery-key"
+                        value={resetData.recoveryKey}
+                        onChange={(e) => setResetData({ ...resetData, recoveryKey: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base font-mono"
+                        placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                        autoComplete="off"
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-password" className="text-sm font-semibold flex items-center gap-2">
+                        <Lock className="h-4 w-4" />
+                        New Password
+                      </Label>
+                      <Input
+                        id="reset-password"
+                        type="password"
+                        value={resetData.password}
+                        onChange={(e) => setResetData({ ...resetData, password: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                        placeholder="Choose a new password"
+                        required
+                      />
+                      <Input
+                        id="reset-confirm-password"
+                        type="password"
+                        value={resetData.confirmPassword}
+                        onChange={(e) => setResetData({ ...resetData, confirmPassword: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                        placeholder="Confirm the new password"
+                        required
+                      />
+                    </div>
+
+                    {error && (
+                      <div className="text-sm text-destructive bg-destructive/10 p-4 rounded-xl border border-destructive/20">
+                        {error}
+                      </div>
+                    )}
+
+                    <Button
+                      type="submit"
+                      disabled={isWorking}
+                      className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
+                    >
+                      {isWorking ? "Unlocking your diary..." : "Reset Password"}
+                    </Button>
                     <Button
                       type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
+                      variant="link"
+                      className="w-full"
+                      onClick={() => {
+                        setShowForgotPassword(false)
+                        setError("")
+                      }}
+                    >
+                      Back to sign in
+                    </Button>
+                  </form>
+                ) : (
+                  <form onSubmit={handleLogin} className="space-y-6">
+                    <div className="space-y-2 stagger-item">
+                      <Label htmlFor="login-username" className="text-sm font-semibold flex items-center gap-2">
+                        <User className="h-4 w-4" />
+                        Username
+                      </Label>
+                      <Input
+                        id="login-username"
+                        type="text"
+                        value={loginData.username}
+                        onChange={(e) => setLoginData({ ...loginData, username: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                        placeholder="Enter your username"
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2 stagger-item">
+                      <Label htmlFor="login-password" className="text-sm font-semibold flex items-center gap-2">
+                        <Lock className="h-4 w-4" />
+                        Password
+                      </Label>
+                      <div className="relative">
+                        <Input
+                          id="login-password"
+                          type={showPassword ? "text" : "password"}
+                          value={loginData.password}
+                          onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                          className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 pr-12 text-base"
+                          placeholder="Enter your password"
+                          required
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2 stagger-item">
+                      <Checkbox
+                        id="remember"
+                        checked={rememberMe}
+                        onCheckedChange={(checked) => setRememberMe(checked as boolean)}
+                        className="border-2"
+                      />
+                      <Label htmlFor="remember" className="text-sm font-medium">
+                        Remember me
+                      </Label>
+                    </div>
+
+                    {error && (
+                      <div className="text-sm text-destructive bg-destructive/10 p-4 rounded-xl border border-destructive/20">
+                        {error}
+                      </div>
+                    )}
+
+                    <Button
+                      type="submit"
+                      className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
                     >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      Sign In to Your Diary
                     </Button>
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="w-full"
+                      onClick={() => {
+                        setShowForgotPassword(true)
+                        setResetData({ ...resetData, username: loginData.username })
+                        setError("")
+                      }}
+                    >
+                      Forgot password?
+                    </Button>
+                  </form>
+                )}
+              </TabsContent>
+
+              <TabsContent value="signup" className="mt-6">
+                <form onSubmit={handleSignup} className="space-y-6">
+                  <div className="space-y-2 stagger-item">
+                    <Label htmlFor="signup-username" className="text-sm font-semibold flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      Username
+                    </Label>
+                    <Input
+                      id="signup-username"
+                      type="text"
+                      value={signupData.username}
+                      onChange={(e) => setSignupData({ ...signupData, username: e.target.value })}
+                      className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                      placeholder="Choose a username"
+                      required
+                    />
                   </div>
-                </div>
-
-                <div className="flex items-center space-x-2 stagger-item">
-                  <Checkbox
-                    id="remember"
-                    checked={rememberMe}
-                    onCheckedChange={(checked) => setRememberMe(checked as boolean)}
-                    className="border-2"
-                  />
-                  <Label htmlFor="remember" className="text-sm font-medium">
-                    Remember me
-                  </Label>
-                </div>
-
-                {error && (
-                  <div className="text-sm text-destructive bg-destructive/10 p-4 rounded-xl border border-destructive/20">
-                    {error}
+
+                  <div className="space-y-2 stagger-item">
+                    <Label htmlFor="signup-password" className="text-sm font-semibold flex items-center gap-2">
+                      <Lock className="h-4 w-4" />
+                      Password
+                    </Label>
+                    <div className="relative">
+                      <Input
+                        id="signup-password"
+                        type={showPassword ? "text" : "password"}
+                        value={signupData.password}
+                        onChange={(e) => setSignupData({ ...signupData, password: e.target.value })}
+                        className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 pr-12 text-base"
+                        placeholder="Create a password"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
                   </div>
-                )}
 
-                <Button
-                  type="submit"
-                  className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
-                >
-                  Sign In to Your Diary
-                </Button>
-              </form>
-            </TabsContent>
-
-            <TabsContent value="signup" className="mt-6">
-              <form onSubmit={handleSignup} className="space-y-6">
-                <div className="space-y-2 stagger-item">
-                  <Label htmlFor="signup-username" className="text-sm font-semibold flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    Username
-                  </Label>
-                  <Input
-                    id="signup-username"
-                    type="text"
-                    value={signupData.username}
-                    onChange={(e) => setSignupData({ ...signupData, username: e.target.value })}
-                    className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
-                    placeholder="Choose a username"
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2 stagger-item">
-                  <Label htmlFor="signup-password" className="text-sm font-semibold flex items-center gap-2">
-                    <Lock className="h-4 w-4" />
-                    Password
-                  </Label>
-                  <div className="relative">
+                  <div className="space-y-2 stagger-item">
+                    <Label htmlFor="confirm-password" className="text-sm font-semibold flex items-center gap-2">
+                      <Lock className="h-4 w-4" />
+                      Confirm Password
+                    </Label>
                     <Input
-                      id="signup-password"
+                      id="confirm-password"
                       type={showPassword ? "text" : "password"}
-                      value={signupData.password}
-                      onChange={(e) => setSignupData({ ...signupData, password: e.target.value })}
-                      className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 pr-12 text-base"
-                      placeholder="Create a password"
+                      value={signupData.confirmPassword}
+                      onChange={(e) => setSignupData({ ...signupData, confirmPassword: e.target.value })}
+                      className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
+                      placeholder="Confirm your password"
                       required
                     />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </Button>
                   </div>
-                </div>
-
-                <div className="space-y-2 stagger-item">
-                  <Label htmlFor="confirm-password" className="text-sm font-semibold flex items-center gap-2">
-                    <Lock className="h-4 w-4" />
-                    Confirm Password
-                  </Label>
-                  <Input
-                    id="confirm-password"
-                    type={showPassword ? "text" : "password"}
-                    value={signupData.confirmPassword}
-                    onChange={(e) => setSignupData({ ...signupData, confirmPassword: e.target.value })}
-                    className="h-12 modern-card border-0 focus:ring-2 focus:ring-indigo-500/50 transition-all duration-300 text-base"
-                    placeholder="Confirm your password"
-                    required
-                  />
-                </div>
-
-                {error && (
-                  <div className="text-sm text-destructive bg-destructive/10 p-4 rounded-xl border border-destructive/20">
-                    {error}
+
+                  <div className="flex items-center space-x-2 stagger-item">
+                    <Checkbox
+                      id="signup-remember"
+                      checked={rememberMe}
+                      onCheckedChange={(checked) => setRememberMe(checked as boolean)}
+                      className="border-2"
+                    />
+                    <Label htmlFor="signup-remember" className="text-sm font-medium">
+                      Remember me
+                    </Label>
                   </div>
-                )}
 
-                <Button
-                  type="submit"
-                  className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
-                >
-                  Create Your Diary
-                </Button>
-              </form>
-            </TabsContent>
-          </Tabs>
+                  {error && (
+                    <div className="text-sm text-destructive bg-destructive/10 p-4 rounded-xl border border-destructive/20">
+                      {error}
+                    </div>
+                  )}
+
+                  <Button
+                    type="submit"
+                    disabled={isWorking}
+                    className="w-full h-12 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white font-semibold transition-all duration-300 transform hover:scale-[1.02] shadow-lg stagger-item text-base"
+                  >
+                    {isWorking ? "Creating your recovery key..." : "Create Your Diary"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,41 @@
+"use client"
+
+import { Mic, Video } from "lucide-react"
+import { isMixedMediaNote, type NoteRecord } from "@/lib/note-repository"
+
+interface MixedMediaIconsProps {
+  note: NoteRecord
+  className?: string
+}
+
+const formatClipCount = (count: number, kind: string) => `${count} ${kind}${count === 1 ? "" : "s"}`
+
+// The audio clips and videos of a mixed-media entry, shown next to its type so it reads as one entry.
+// Nothing for other notes.
+export function MixedMediaIcons({ note, className }: MixedMediaIconsProps) {
+  if (!isMixedMediaNote(note)) return null
+
+  const audio = note.clips.filter((clip) => clip.kind === "audio").length
+  const video = note.clips.length - audio
+  const parts = [audio > 0 && formatClipCount(audio, "audio clip"), video > 0 && formatClipCount(video, "video")]
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 text-xs text-muted-foreground ${className ?? ""}`}
+      title={`Mixed-media entry: ${parts.filter(Boolean).join(", ")}`}
+    >
+      {audio > 0 && (
+        <span className="inline-flex items-center">
+          <Mic className="h-3 w-3 text-green-500" />
+          {audio > 1 && <span className="ml-0.5">{audio}</span>}
+        </span>
+      )}
+      {video > 0 && (
+        <span className="inline-flex items-center">
+          <Video className="h-3 w-3 text-purple-500" />
+          {video > 1 && <span className="ml-0.5">{video}</span>}
+        </span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Lock, LockOpen } from "lucide-react"
+
+interface NoteLockControlProps {
+  locked: boolean
+  // A new passphrase to lock the note with, or null to remove the lock. Applied when the note is saved.
+  onLockChange: (passphrase: string | null) => void
+}
+
+const MIN_PASSPHRASE_LENGTH = 4
+
+export function NoteLockControl({ locked, onLockChange }: NoteLockControlProps) {
+  const [open, setOpen] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [error, setError] = useState("")
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    setPassphrase("")
+    setConfirmPassphrase("")
+    setError("")
+  }
+
+  const handleLock = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+
+    onLockChange(passphrase)
+    handleOpenChange(false)
+  }
+
+  const handleRemoveLock = () => {
+    onLockChange(null)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant={locked ? "secondary" : "outline"} title="Lock this note with a passphrase">
+          {locked ? <Lock className="h-4 w-4 mr-2" /> : <LockOpen className="h-4 w-4 mr-2" />}
+          {locked ? "Locked" : "Lock"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <div className="space-y-1">
+          <h4 className="font-medium text-sm">{locked ? "Change passphrase" : "Lock this note"}</h4>
+          <p className="text-xs text-muted-foreground">
+            A locked note needs its own passphrase to open, even while the diary is unlocked. It cannot be recovered
+            if you forget the passphrase.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="note-lock-passphrase" className="sr-only">
+            Passphrase
+          </Label>
+          <Input
+            id="note-lock-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoComplete="new-password"
+          />
+          <Input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+          />
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex justify-between">
+          {locked ? (
+            <Button type="button" variant="ghost" size="sm" onClick={handleRemoveLock}>
+              <LockOpen className="h-4 w-4 mr-2" />
+              Remove Lock
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button type="button" size="sm" onClick={handleLock} disabled={!passphrase}>
+            <Lock className="h-4 w-4 mr-2" />
+            {locked ? "Change" : "Lock"}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
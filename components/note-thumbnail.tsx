@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getFileStorageManager } from "@/lib/file-storage"
+import { extractAttachmentNames, isImageAttachment } from "@/lib/note-attachments"
+import { getNoteRepository, type NoteRecord } from "@/lib/note-repository"
+
+interface NoteThumbnailProps {
+  note: NoteRecord
+  username: string
+  className?: string
+}
+
+// The picture of a photo note, or the first image attached to a text note
+async function loadThumbnail(note: NoteRecord, username: string, image: string | undefined): Promise<Blob | null> {
+  if (note.type === "photo") {
+    return note.hasThumbnail ? getNoteRepository(username).getMedia(note.id, "thumbnail") : null
+  }
+  if (!image) return null
+
+  const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+  return getFileStorageManager(
+    username,
+    userSettings.diaryPath || "",
+    userSettings.storageBackend,
+    userSettings.filenamePattern,
+  ).loadAttachment(note, image)
+}
+
+// Nothing for notes without a picture, and for locked notes
+export function NoteThumbnail({ note, username, className }: NoteThumbnailProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const image = note.type === "text" ? extractAttachmentNames(note.content || "").find(isImageAttachment) : undefined
+
+  useEffect(() => {
+    if (note.locked) return
+
+    let objectUrl: string | null = null
+    let cancelled = false
+    loadThumbnail(note, username, image)
+      .then((blob) => {
+        if (!blob || cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      })
+      .catch((error) => console.log("[v0] Error loading thumbnail:", error))
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      setUrl(null)
+    }
+  }, [note.id, note.locked, note.updatedAt, image, username])
+
+  if (!url) return null
+  return <img src={url} alt="" className={`object-cover rounded-md bg-muted ${className ?? ""}`} />
+}
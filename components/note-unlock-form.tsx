@@ -0,0 +1,60 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Lock } from "lucide-react"
+
+interface NoteUnlockFormProps {
+  // Resolves to false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>
+  message?: string
+}
+
+export function NoteUnlockForm({
+  onUnlock,
+  message = "This note is locked. Enter its passphrase to open it.",
+}: NoteUnlockFormProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [error, setError] = useState("")
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsChecking(true)
+    setError("")
+
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setPassphrase("")
+        setError("Wrong passphrase")
+      }
+    } catch (error) {
+      console.log("[v0] Error unlocking note:", error)
+      setError("Could not open this note")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-6 space-y-3 text-center bg-muted/30">
+      <Lock className="h-8 w-8 mx-auto text-muted-foreground" />
+      <p className="text-sm text-muted-foreground">{message}</p>
+      <div className="flex space-x-2 max-w-sm mx-auto">
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+        />
+        <Button type="submit" disabled={isChecking || !passphrase}>
+          {isChecking ? "Checking..." : "Unlock"}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  )
+}
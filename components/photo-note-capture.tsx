@@ -0,0 +1,296 @@
+"use client"
+
+import type React from "react"
+import { useState, useRef, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Camera, ImageIcon, RotateCcw, Save, Upload } from "lucide-react"
+import { NoteLockControl } from "@/components/note-lock-control"
+import { captureFrame, openCamera, stopCamera } from "@/lib/camera"
+import { readPhotoDate } from "@/lib/exif"
+
+interface PhotoNoteCaptureProps {
+  initialTitle?: string
+  initialCaption?: string
+  // takenAt is set when the entry should be dated to when the photo was taken
+  onSave: (title: string, photoBlob: Blob, thumbnailBlob: Blob, caption: string, takenAt?: string) => void
+  onCancel: () => void
+  // Shows a control to lock the note with a passphrase, see NoteLockControl
+  locked?: boolean
+  onLockChange?: (passphrase: string | null) => void
+}
+
+// Longest side of the thumbnail shown in lists and the gallery
+const THUMBNAIL_SIZE = 320
+
+// A smaller copy of the photo, keeping its proportions
+async function createThumbnail(photo: Blob): Promise<Blob | null> {
+  const bitmap = await createImageBitmap(photo)
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+    return await captureFrame(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale))
+  } finally {
+    bitmap.close()
+  }
+}
+
+export function PhotoNoteCapture({
+  initialTitle = "",
+  initialCaption = "",
+  onSave,
+  onCancel,
+  locked,
+  onLockChange,
+}: PhotoNoteCaptureProps) {
+  const [title, setTitle] = useState(initialTitle)
+  const [caption, setCaption] = useState(initialCaption)
+  const [photoBlob, setPhotoBlob] = useState<Blob | null>(null)
+  const [thumbnailBlob, setThumbnailBlob] = useState<Blob | null>(null)
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null)
+  // When the camera says the photo was taken; only uploads carry this
+  const [takenAt, setTakenAt] = useState<Date | null>(null)
+  const [useTakenAt, setUseTakenAt] = useState(true)
+  const [cameraOpen, setCameraOpen] = useState(false)
+  const [cameraReady, setCameraReady] = useState(false)
+
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  // The camera runs while its preview is shown
+  useEffect(() => {
+    if (!cameraOpen) return
+
+    let cancelled = false
+    openCamera(videoRef.current, { width: 1280, height: 960 }, () => setCameraReady(true))
+      .then((stream) => {
+        if (cancelled) stopCamera(stream)
+        else streamRef.current = stream
+      })
+      .catch((error) => {
+        console.error("Error accessing camera:", error)
+        alert("Could not access camera. Please check permissions.")
+        setCameraOpen(false)
+      })
+
+    return () => {
+      cancelled = true
+      stopCamera(streamRef.current)
+      streamRef.current = null
+      setCameraReady(false)
+    }
+  }, [cameraOpen])
+
+  useEffect(() => {
+    return () => {
+      if (photoUrl) URL.revokeObjectURL(photoUrl)
+    }
+  }, [photoUrl])
+
+  const selectPhoto = async (photo: Blob, date: Date | null) => {
+    const thumbnail = await createThumbnail(photo)
+    if (!thumbnail) throw new Error("Could not create a thumbnail")
+
+    setPhotoBlob(photo)
+    setThumbnailBlob(thumbnail)
+    setPhotoUrl(URL.createObjectURL(photo))
+    setTakenAt(date)
+    setUseTakenAt(true)
+  }
+
+  const takePhoto = async () => {
+    const video = videoRef.current
+    if (!video || !cameraReady) return
+
+    const photo = await captureFrame(video, video.videoWidth, video.videoHeight, 0.92)
+    if (!photo) return
+    setCameraOpen(false)
+    await selectPhoto(photo, null)
+  }
+
+  const handleFileInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setCameraOpen(false)
+      await selectPhoto(file, await readPhotoDate(file))
+      if (!title.trim()) setTitle(file.name.replace(/\.[^.]+$/, ""))
+    } catch (error) {
+      console.log("[v0] Could not read the chosen image:", error)
+      alert("This image could not be opened. Please choose a JPEG, PNG, GIF or WebP file.")
+    }
+  }
+
+  const clearPhoto = () => {
+    setPhotoBlob(null)
+    setThumbnailBlob(null)
+    setPhotoUrl(null)
+    setTakenAt(null)
+  }
+
+  const handleSave = () => {
+    if (photoBlob && thumbnailBlob && title.trim()) {
+      onSave(
+        title.trim(),
+        photoBlob,
+        thumbnailBlob,
+        caption.trim(),
+        takenAt && useTakenAt ? takenAt.toISOString() : undefined,
+      )
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex-1 max-w-md">
+            <Label htmlFor="photo-title" className="sr-only">
+              Photo Note Title
+            </Label>
+            <Input
+              id="photo-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter photo note title..."
+              className="text-lg font-semibold border-none shadow-none focus-visible:ring-0 px-0"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            {onLockChange && <NoteLockControl locked={!!locked} onLockChange={onLockChange} />}
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!photoBlob || !thumbnailBlob || !title.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <ImageIcon className="h-5 w-5" />
+                  <span>Photo</span>
+                </CardTitle>
+                <div className="flex items-center space-x-2">
+                  {!cameraOpen && (
+                    <Button variant="outline" size="sm" onClick={() => setCameraOpen(true)} className="bg-transparent">
+                      <Camera className="h-4 w-4 mr-2" />
+                      Camera
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-transparent"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleFileInput}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {cameraOpen ? (
+                <>
+                  <div className="relative bg-black rounded-lg overflow-hidden">
+                    <video
+                      ref={videoRef}
+                      autoPlay
+                      muted
+                      playsInline
+                      className="w-full h-auto max-h-96 object-contain"
+                    />
+                    {!cameraReady && (
+                      <div className="absolute inset-0 flex items-center justify-center bg-muted">
+                        <div className="text-center">
+                          <Camera className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+                          <p className="text-sm text-muted-foreground">Initializing camera...</p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex justify-center space-x-4">
+                    <Button
+                      onClick={() => setCameraOpen(false)}
+                      variant="outline"
+                      size="lg"
+                      className="rounded-full h-12 w-12 bg-transparent"
+                    >
+                      <RotateCcw className="h-5 w-5" />
+                    </Button>
+                    <Button onClick={takePhoto} size="lg" className="rounded-full h-16 w-16" disabled={!cameraReady}>
+                      <Camera className="h-6 w-6" />
+                    </Button>
+                  </div>
+                </>
+              ) : photoUrl ? (
+                <>
+                  <img src={photoUrl} alt={caption} className="w-full max-h-96 object-contain rounded-lg bg-muted" />
+                  <div className="flex justify-center">
+                    <Button onClick={clearPhoto} variant="outline" size="sm" className="bg-transparent">
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Choose Another
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center">
+                  <ImageIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">Take a photo with your camera or upload one</p>
+                </div>
+              )}
+
+              {takenAt && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="photo-taken-at"
+                    checked={useTakenAt}
+                    onCheckedChange={(checked) => setUseTakenAt(checked as boolean)}
+                  />
+                  <Label htmlFor="photo-taken-at" className="text-sm font-normal">
+                    Date this entry to when the photo was taken ({takenAt.toLocaleString()})
+                  </Label>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6 space-y-2">
+              <Label htmlFor="photo-caption">Caption</Label>
+              <Textarea
+                id="photo-caption"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="What's in this picture?"
+                rows={3}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
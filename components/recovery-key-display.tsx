@@ -0,0 +1,71 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Copy, Download, Printer } from "lucide-react"
+
+interface RecoveryKeyDisplayProps {
+  username: string
+  recoveryKey: string
+}
+
+export function RecoveryKeyDisplay({ username, recoveryKey }: RecoveryKeyDisplayProps) {
+  const instructions = [
+    `MyDiary recovery key for "${username}"`,
+    recoveryKey,
+    'Use this key with "Forgot password" on the sign-in screen to choose a new password.',
+    "Anyone with this key can open your diary, so keep it somewhere safe.",
+  ].join("\n\n")
+
+  const copyKey = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey)
+    } catch (error) {
+      console.log("[v0] Could not copy recovery key:", error)
+    }
+  }
+
+  const downloadKey = () => {
+    const blob = new Blob([instructions], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `mydiary-recovery-key-${username}.txt`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const printKey = () => {
+    const printWindow = window.open("", "_blank", "width=600,height=400")
+    if (!printWindow) return
+
+    const pre = printWindow.document.createElement("pre")
+    pre.style.cssText = "font-family: monospace; font-size: 16px; white-space: pre-wrap; padding: 24px;"
+    pre.textContent = instructions
+    printWindow.document.title = "MyDiary recovery key"
+    printWindow.document.body.appendChild(pre)
+    printWindow.print()
+    printWindow.close()
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="p-4 rounded-lg border bg-muted/30 text-center font-mono text-lg tracking-wider break-all">
+        {recoveryKey}
+      </div>
+      <div className="flex justify-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyKey}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadKey}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={printKey}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { History, RotateCcw, X } from "lucide-react"
+import { getNoteRepository, type NoteRevision } from "@/lib/note-repository"
+import { diffWords } from "@/lib/word-diff"
+
+interface RevisionHistoryPanelProps {
+  username: string
+  noteId: string
+  onRestore: (revision: NoteRevision) => void
+  onClose: () => void
+}
+
+const toPlainText = (content: string) =>
+  new DOMParser().parseFromString(content.replace(/<(br|\/p|\/div|\/h\d|\/li)>/gi, "$&\n"), "text/html").body
+    .textContent || ""
+
+export function RevisionHistoryPanel({ username, noteId, onRestore, onClose }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      const loaded = await getNoteRepository(username).listRevisions(noteId)
+      setRevisions(loaded)
+      setSelectedId(loaded[0]?.id ?? null)
+    }
+    loadRevisions()
+  }, [username, noteId])
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId)
+  const selected = revisions[selectedIndex]
+  // Revisions are newest first, so the one before the selected revision comes after it
+  const previous = revisions[selectedIndex + 1]
+
+  const diff = useMemo(() => {
+    if (!selected) return []
+    return diffWords(previous ? toPlainText(previous.content) : "", toPlainText(selected.content))
+  }, [selected, previous])
+
+  const formatTimestamp = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  return (
+    <div className="w-96 flex-shrink-0 border-l bg-card flex flex-col max-h-[calc(100vh-10rem)]">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center space-x-2 font-semibold">
+          <History className="h-4 w-4" />
+          <span>Revision History</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">No revisions yet. Every save adds one.</p>
+      ) : (
+        <>
+          <div className="max-h-48 overflow-y-auto border-b">
+            {revisions.map((revision, index) => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-muted/50 ${
+                  revision.id === selectedId ? "bg-muted" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span>{formatTimestamp(revision.savedAt)}</span>
+                  {index === 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      Latest
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{revision.title}</p>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  {previous ? `Changes since ${formatTimestamp(previous.savedAt)}` : "First saved version"}
+                </p>
+                <Button size="sm" variant="outline" onClick={() => onRestore(selected)}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+              </div>
+              {previous && previous.title !== selected.title && (
+                <p className="text-xs">
+                  Title: <del className="text-red-600 dark:text-red-400">{previous.title}</del> →{" "}
+                  <ins className="text-green-700 dark:text-green-400 no-underline">{selected.title}</ins>
+                </p>
+              )}
+              <div className="text-sm whitespace-pre-wrap leading-relaxed">
+                {diff.map((part, index) =>
+                  part.type === "added" ? (
+                    <ins key={index} className="bg-green-100 dark:bg-green-900/40 no-underline">
+                      {part.text}
+                    </ins>
+                  ) : part.type === "removed" ? (
+                    <del key={index} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+                      {part.text}
+                    </del>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  ),
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
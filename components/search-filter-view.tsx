@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Separator } from "@/components/ui/separator"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
@@ -18,27 +19,28 @@ import {
   FileText,
   Mic,
   Video,
+  ImageIcon,
   CalendarIcon,
   Tag,
   X,
   SortAsc,
   SortDesc,
+  Trash2,
+  CheckSquare,
+  Lock,
 } from "lucide-react"
 import { format } from "date-fns"
+import { isNoteUnlocked, unlockText } from "@/lib/note-lock"
+import { getNoteRepository, type NoteRecord } from "@/lib/note-repository"
+import { NOTE_TYPES, getFileStorageManager, type ScanResult } from "@/lib/file-storage"
+import { DirectoryScanSummary } from "@/components/directory-scan-summary"
+import { NoteThumbnail } from "@/components/note-thumbnail"
+import { MixedMediaIcons } from "@/components/mixed-media-icons"
 
 interface SearchFilterViewProps {
   username: string
-}
-
-interface Note {
-  id: string
-  title: string
-  type: "text" | "audio" | "video"
-  content: string
-  tags: string[]
-  mood?: string
-  date: string
-  duration?: number
+  onEditNote?: (note: NoteRecord) => void
+  onNotesChanged?: () => void
 }
 
 type ViewMode = "grid" | "list"
@@ -46,8 +48,8 @@ type SortBy = "date" | "title" | "type"
 type SortOrder = "asc" | "desc"
 type DateFilter = "all" | "today" | "week" | "month" | "custom"
 
-export function SearchFilterView({ username }: SearchFilterViewProps) {
-  const [notes, setNotes] = useState<Note[]>([])
+export function SearchFilterView({ username, onEditNote, onNotesChanged }: SearchFilterViewProps) {
+  const [notes, setNotes] = useState<NoteRecord[]>([])
   const [searchQuery, setSearchQuery] = useState("")
   const [viewMode, setViewMode] = useState<ViewMode>("grid")
   const [sortBy, setSortBy] = useState<SortBy>("date")
@@ -58,14 +60,64 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
   const [dateFilter, setDateFilter] = useState<DateFilter>("all")
   const [customDateRange, setCustomDateRange] = useState<{ from?: Date; to?: Date }>({})
   const [showFilters, setShowFilters] = useState(false)
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanError, setScanError] = useState<string | null>(null)
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([])
+  // Content of locked notes unlocked in this tab; the others are only found by title and tags
+  const [unlockedContent, setUnlockedContent] = useState<Record<string, string>>({})
 
   useEffect(() => {
     loadNotes()
   }, [username])
 
-  const loadNotes = () => {
-    const userNotes = JSON.parse(localStorage.getItem(`mydiary_notes_${username}`) || "[]")
-    setNotes(userNotes)
+  useEffect(() => {
+    const unlockContent = async () => {
+      const opened: Record<string, string> = {}
+      for (const note of notes) {
+        if (note.locked && note.content && isNoteUnlocked(note.id)) {
+          const text = await unlockText(note.id, note.content)
+          if (text !== null) opened[note.id] = text
+        }
+      }
+      setUnlockedContent(opened)
+    }
+
+    unlockContent().catch((error) => console.log("[v0] Error reading unlocked notes:", error))
+  }, [notes])
+
+  const getFileStorage = () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    return getFileStorageManager(
+      username,
+      userSettings.diaryPath || "",
+      userSettings.storageBackend,
+      userSettings.filenamePattern,
+    )
+  }
+
+  // Called without waiting from effects and the rescan button, so errors end here
+  const loadNotes = async () => {
+    const repository = getNoteRepository(username)
+    setScanError(null)
+    try {
+      setNotes(await repository.listNotes())
+
+      // Pick up files added, edited or removed outside the app
+      setIsScanning(true)
+      const result = await getFileStorage().scanDirectory()
+      setScanResult(result)
+
+      if (result && result.imported.length + result.updated.length + result.missing.length > 0) {
+        setNotes(await repository.listNotes())
+      }
+    } catch (error) {
+      console.log("[v0] Error loading notes:", error)
+      setScanError("Could not check your diary folder for changes. Try rescanning.")
+    } finally {
+      setIsScanning(false)
+    }
   }
 
   const allTags = useMemo(() => {
@@ -90,7 +142,8 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
       if (searchQuery) {
         const query = searchQuery.toLowerCase()
         const matchesTitle = note.title.toLowerCase().includes(query)
-        const matchesContent = note.content?.toLowerCase().includes(query)
+        const content = note.locked ? unlockedContent[note.id] : note.content
+        const matchesContent = content?.toLowerCase().includes(query)
         const matchesTags = note.tags?.some((tag) => tag.toLowerCase().includes(query))
         if (!matchesTitle && !matchesContent && !matchesTags) return false
       }
@@ -153,7 +206,18 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
     })
 
     return filtered
-  }, [notes, searchQuery, selectedTypes, selectedTags, selectedMood, dateFilter, customDateRange, sortBy, sortOrder])
+  }, [
+    notes,
+    unlockedContent,
+    searchQuery,
+    selectedTypes,
+    selectedTags,
+    selectedMood,
+    dateFilter,
+    customDateRange,
+    sortBy,
+    sortOrder,
+  ])
 
   const toggleType = (type: string) => {
     setSelectedTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]))
@@ -163,6 +227,41 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
     setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]))
   }
 
+  const toggleNoteSelection = (id: string) => {
+    setSelectedNoteIds((prev) => (prev.includes(id) ? prev.filter((noteId) => noteId !== id) : [...prev, id]))
+  }
+
+  const stopSelecting = () => {
+    setIsSelecting(false)
+    setSelectedNoteIds([])
+  }
+
+  const handleNoteClick = (note: NoteRecord) => {
+    if (isSelecting) {
+      toggleNoteSelection(note.id)
+    } else {
+      onEditNote?.(note)
+    }
+  }
+
+  const moveToTrash = async (toDelete: NoteRecord[]) => {
+    if (toDelete.length === 0) return
+    const message =
+      toDelete.length === 1 ? `Move "${toDelete[0].title}" to the trash?` : `Move ${toDelete.length} notes to the trash?`
+    if (!confirm(message)) return
+
+    const moved = await getFileStorage().moveToTrash(toDelete)
+    if (moved < toDelete.length) {
+      alert(
+        "Some notes could not be moved to the trash. If they are saved in your diary folder, reconnect the folder and try again.",
+      )
+    }
+
+    stopSelecting()
+    setNotes(await getNoteRepository(username).listNotes())
+    onNotesChanged?.()
+  }
+
   const clearFilters = () => {
     setSearchQuery("")
     setSelectedTypes([])
@@ -196,6 +295,8 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
         return <Mic className="h-4 w-4 text-green-500" />
       case "video":
         return <Video className="h-4 w-4 text-purple-500" />
+      case "photo":
+        return <ImageIcon className="h-4 w-4 text-pink-500" />
       default:
         return <FileText className="h-4 w-4" />
     }
@@ -213,6 +314,8 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
 
   return (
     <div className="space-y-6">
+      <DirectoryScanSummary result={scanResult} isScanning={isScanning} error={scanError} onRescan={loadNotes} />
+
       {/* Search and Controls */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="flex-1 relative">
@@ -256,7 +359,7 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
               <div className="space-y-2">
                 <Label>Note Type</Label>
                 <div className="space-y-2">
-                  {["text", "audio", "video"].map((type) => (
+                  {NOTE_TYPES.map((type) => (
                     <div key={type} className="flex items-center space-x-2">
                       <Button
                         variant={selectedTypes.includes(type) ? "default" : "outline"}
@@ -438,6 +541,36 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
           <p className="text-sm text-muted-foreground">
             {filteredAndSortedNotes.length} {filteredAndSortedNotes.length === 1 ? "note" : "notes"} found
           </p>
+          {isSelecting ? (
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSelectedNoteIds(filteredAndSortedNotes.map((note) => note.id))}
+              >
+                Select All
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={selectedNoteIds.length === 0}
+                onClick={() => moveToTrash(notes.filter((note) => selectedNoteIds.includes(note.id)))}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Move {selectedNoteIds.length} to Trash
+              </Button>
+              <Button variant="ghost" size="sm" onClick={stopSelecting}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            filteredAndSortedNotes.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setIsSelecting(true)}>
+                <CheckSquare className="h-4 w-4 mr-2" />
+                Select
+              </Button>
+            )
+          )}
         </div>
 
         {filteredAndSortedNotes.length === 0 ? (
@@ -451,23 +584,68 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
         ) : viewMode === "grid" ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {filteredAndSortedNotes.map((note) => (
-              <Card key={note.id} className="hover:shadow-md transition-shadow cursor-pointer">
+              <Card
+                key={note.id}
+                className={`hover:shadow-md transition-shadow cursor-pointer ${
+                  selectedNoteIds.includes(note.id) ? "ring-2 ring-primary" : ""
+                }`}
+                onClick={() => handleNoteClick(note)}
+              >
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
-                    <div className="flex items-center space-x-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {isSelecting && <Checkbox checked={selectedNoteIds.includes(note.id)} />}
                       {getTypeIcon(note.type)}
+                      <MixedMediaIcons note={note} />
                       <CardTitle className="text-sm truncate">{note.title}</CardTitle>
                     </div>
-                    {note.duration && (
-                      <Badge variant="outline" className="text-xs">
-                        {formatDuration(note.duration)}
-                      </Badge>
-                    )}
+                    <div className="flex items-center space-x-1">
+                      {note.missing && (
+                        <Badge variant="destructive" className="text-xs">
+                          File missing
+                        </Badge>
+                      )}
+                      {note.duration && (
+                        <Badge variant="outline" className="text-xs">
+                          {formatDuration(note.duration)}
+                        </Badge>
+                      )}
+                      {!isSelecting && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                          title="Move to trash"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            moveToTrash([note])
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  {note.type === "text" && note.content && (
-                    <p className="text-sm text-muted-foreground line-clamp-3">{note.content.substring(0, 150)}...</p>
+                  {/* Photos fill their card, like in a gallery */}
+                  <NoteThumbnail
+                    note={note}
+                    username={username}
+                    className={note.type === "photo" ? "w-full h-48" : "w-full h-32"}
+                  />
+                  {note.locked ? (
+                    <p className="flex items-center text-sm text-muted-foreground">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Locked note
+                    </p>
+                  ) : (
+                    <>
+                      {note.type === "text" && note.content && (
+                        <p className="text-sm text-muted-foreground line-clamp-3">{note.content.substring(0, 150)}...</p>
+                      )}
+                      {note.type === "photo" && note.content && <p className="text-sm line-clamp-2">{note.content}</p>}
+                    </>
                   )}
                   {note.type === "audio" && (
                     <div className="flex items-center justify-center py-8 bg-muted/50 rounded-lg">
@@ -504,20 +682,38 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
         ) : (
           <div className="space-y-2">
             {filteredAndSortedNotes.map((note) => (
-              <Card key={note.id} className="hover:shadow-sm transition-shadow cursor-pointer">
+              <Card
+                key={note.id}
+                className={`hover:shadow-sm transition-shadow cursor-pointer ${
+                  selectedNoteIds.includes(note.id) ? "ring-2 ring-primary" : ""
+                }`}
+                onClick={() => handleNoteClick(note)}
+              >
                 <CardContent className="py-4">
                   <div className="flex items-center space-x-4">
-                    <div className="flex-shrink-0">{getTypeIcon(note.type)}</div>
+                    {isSelecting && <Checkbox checked={selectedNoteIds.includes(note.id)} />}
+                    <div className="flex-shrink-0 flex items-center space-x-1">
+                      {getTypeIcon(note.type)}
+                      <MixedMediaIcons note={note} />
+                    </div>
+                    <NoteThumbnail note={note} username={username} className="h-12 w-12 flex-shrink-0" />
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between">
                         <h3 className="text-sm font-medium truncate">{note.title}</h3>
                         <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                          {note.missing && <span className="text-destructive">File missing</span>}
                           {note.duration && <span>{formatDuration(note.duration)}</span>}
                           <span>{formatDate(note.date)}</span>
                         </div>
                       </div>
-                      {note.type === "text" && note.content && (
-                        <p className="text-xs text-muted-foreground truncate mt-1">{note.content}</p>
+                      {note.locked ? (
+                        <p className="flex items-center text-xs text-muted-foreground mt-1">
+                          <Lock className="h-3 w-3 mr-1" />
+                          Locked note
+                        </p>
+                      ) : (
+                        (note.type === "text" || note.type === "photo") &&
+                        note.content && <p className="text-xs text-muted-foreground truncate mt-1">{note.content}</p>
                       )}
                       <div className="flex items-center justify-between mt-2">
                         <div className="flex items-center space-x-2">
@@ -539,6 +735,20 @@ export function SearchFilterView({ username }: SearchFilterViewProps) {
                         {note.mood && <span className="text-xs text-muted-foreground">{note.mood}</span>}
                       </div>
                     </div>
+                    {!isSelecting && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground hover:text-destructive"
+                        title="Move to trash"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          moveToTrash([note])
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -28,14 +28,28 @@ import {
   CheckCircle,
   XCircle,
 } from "lucide-react"
-import { getFileStorageManager } from "@/lib/file-storage"
+import { DEFAULT_TRASH_RETENTION_DAYS, getFileStorageManager, type NoteType } from "@/lib/file-storage"
+import { DEFAULT_FILENAME_PATTERN, formatFilename, validateFilenamePattern } from "@/lib/note-filenames"
+import { isStorageBackendSupported, storageBackendLabels, type StorageBackendKind } from "@/lib/storage-backends"
+import { getNoteRepository } from "@/lib/note-repository"
+import { AccountSettings } from "@/components/account-settings"
+import { TemplateSettings } from "@/components/template-settings"
+import { DEFAULT_TEMPLATES, type NoteTemplate } from "@/lib/note-templates"
+import { hasUnlockPin, removeUnlockPin, setUnlockPin, verifyPassword } from "@/lib/user-accounts"
 
 interface SettingsViewProps {
   username: string
+  onAccountRenamed: (username: string) => void
+  onAccountDeleted: () => void
 }
 
 interface UserSettings {
   diaryPath: string
+  storageBackend: StorageBackendKind
+  filenamePattern: string
+  audioFormat: "recorded" | "wav"
+  // Days notes stay in the trash before they are purged; 0 keeps them until emptied by hand
+  trashRetentionDays: number
   theme: "light" | "dark" | "system"
   fontFamily: string
   fontSize: "small" | "medium" | "large"
@@ -58,10 +72,15 @@ interface UserSettings {
     accentColor: string
     backgroundPattern: "none" | "lines" | "dots" | "grid"
   }
+  templates: NoteTemplate[]
 }
 
 const defaultSettings: UserSettings = {
   diaryPath: "",
+  storageBackend: "directory",
+  filenamePattern: DEFAULT_FILENAME_PATTERN,
+  audioFormat: "recorded",
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   theme: "system",
   fontFamily: "Inter",
   fontSize: "medium",
@@ -84,22 +103,31 @@ const defaultSettings: UserSettings = {
     accentColor: "#3b82f6",
     backgroundPattern: "none",
   },
+  templates: DEFAULT_TEMPLATES,
 }
 
-export function SettingsView({ username }: SettingsViewProps) {
+export function SettingsView({ username, onAccountRenamed, onAccountDeleted }: SettingsViewProps) {
   const [settings, setSettings] = useState<UserSettings>(defaultSettings)
   const [hasChanges, setHasChanges] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [isDirectoryInitialized, setIsDirectoryInitialized] = useState(false)
   const [isInitializingDirectory, setIsInitializingDirectory] = useState(false)
+  const [unlockPin, setUnlockPinInput] = useState("")
+  const [hasPin, setHasPin] = useState(false)
 
   useEffect(() => {
     loadSettings()
     checkDirectoryStatus()
+    setHasPin(hasUnlockPin(username))
   }, [username])
 
   const checkDirectoryStatus = () => {
-    const fileStorage = getFileStorageManager(username, settings.diaryPath)
+    const fileStorage = getFileStorageManager(
+      username,
+      settings.diaryPath,
+      settings.storageBackend,
+      settings.filenamePattern,
+    )
     setIsDirectoryInitialized(fileStorage.isDirectoryInitialized())
   }
 
@@ -109,14 +137,30 @@ export function SettingsView({ username }: SettingsViewProps) {
       const loadedSettings = { ...defaultSettings, ...JSON.parse(savedSettings) }
       setSettings(loadedSettings)
       setTimeout(() => {
-        const fileStorage = getFileStorageManager(username, loadedSettings.diaryPath)
+        const fileStorage = getFileStorageManager(
+          username,
+          loadedSettings.diaryPath,
+          loadedSettings.storageBackend,
+          loadedSettings.filenamePattern,
+        )
         setIsDirectoryInitialized(fileStorage.isDirectoryInitialized())
       }, 100)
     }
   }
 
   const saveSettings = () => {
+    if (filenamePatternError) {
+      alert(`Please fix the filename pattern before saving: ${filenamePatternError}`)
+      return
+    }
+
     localStorage.setItem(`mydiary_settings_${username}`, JSON.stringify(settings))
+    getFileStorageManager(
+      username,
+      settings.diaryPath,
+      settings.storageBackend,
+      settings.filenamePattern,
+    )
     setHasChanges(false)
     applyTheme(settings.theme)
   }
@@ -125,11 +169,16 @@ export function SettingsView({ username }: SettingsViewProps) {
     setIsInitializingDirectory(true)
 
     try {
-      const fileStorage = getFileStorageManager(username, settings.diaryPath)
+      const fileStorage = getFileStorageManager(
+        username,
+        settings.diaryPath,
+        settings.storageBackend,
+        settings.filenamePattern,
+      )
 
       if (!fileStorage.isFileSystemAccessSupported()) {
         alert(
-          "File System Access API is not supported in your browser. Notes will be saved to localStorage and can be downloaded individually.",
+          "File System Access API is not supported in your browser. Notes will be saved to browser storage and can be downloaded individually.",
         )
         setIsInitializingDirectory(false)
         return
@@ -139,11 +188,35 @@ export function SettingsView({ username }: SettingsViewProps) {
 
       if (success) {
         setIsDirectoryInitialized(true)
+
+        // A folder encrypted on another machine, or before this browser's data was cleared, opens with the password
+        if (!(await fileStorage.isFolderReadable())) {
+          const password = prompt(
+            "The notes in this folder were encrypted elsewhere. Enter your password to open them:",
+          )
+          const opened =
+            password !== null &&
+            (await verifyPassword(username, password)) &&
+            (await fileStorage.adoptFolderEncryption(password))
+          if (!opened) {
+            alert(
+              "The notes in this folder could not be opened with your password. New notes will be saved to browser storage until you choose another folder.",
+            )
+            setIsInitializingDirectory(false)
+            return
+          }
+        }
+
+        // A folder used on another machine brings its notes along through their sidecar files
+        const scan = await fileStorage.scanDirectory()
+        const found = scan ? scan.imported.length + scan.updated.length : 0
+
         alert(
-          "Directory structure initialized successfully! Your notes will now be saved to the selected folder with subfolders for Text, Audio, and Video.",
+          "Directory structure initialized successfully! Your notes will now be saved to the selected folder with subfolders for Text, Audio, Video and Images." +
+            (found > 0 ? ` ${found} existing ${found === 1 ? "note was" : "notes were"} found in this folder.` : ""),
         )
       } else {
-        alert("Failed to initialize directory structure. Notes will continue to be saved to localStorage.")
+        alert("Failed to initialize directory structure. Notes will continue to be saved to browser storage.")
       }
     } catch (error) {
       console.log("[v0] Error initializing directory:", error)
@@ -153,9 +226,14 @@ export function SettingsView({ username }: SettingsViewProps) {
     setIsInitializingDirectory(false)
   }
 
-  const resetDirectoryInitialization = () => {
-    const fileStorage = getFileStorageManager(username, settings.diaryPath)
-    fileStorage.resetDirectoryInitialization()
+  const resetDirectoryInitialization = async () => {
+    const fileStorage = getFileStorageManager(
+      username,
+      settings.diaryPath,
+      settings.storageBackend,
+      settings.filenamePattern,
+    )
+    await fileStorage.resetDirectoryInitialization()
     setIsDirectoryInitialized(false)
     alert("Directory initialization has been reset. You can now select a new directory.")
   }
@@ -193,8 +271,8 @@ export function SettingsView({ username }: SettingsViewProps) {
     setHasChanges(true)
   }
 
-  const exportData = () => {
-    const notes = JSON.parse(localStorage.getItem(`mydiary_notes_${username}`) || "[]")
+  const exportData = async () => {
+    const notes = await getNoteRepository(username).listNotes()
     const exportData = {
       username,
       settings,
@@ -217,11 +295,11 @@ export function SettingsView({ username }: SettingsViewProps) {
     if (!file) return
 
     const reader = new FileReader()
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const importedData = JSON.parse(e.target?.result as string)
-        if (importedData.notes) {
-          localStorage.setItem(`mydiary_notes_${username}`, JSON.stringify(importedData.notes))
+        if (Array.isArray(importedData.notes)) {
+          await getNoteRepository(username).importNotes(importedData.notes)
         }
         if (importedData.settings) {
           setSettings(importedData.settings)
@@ -235,9 +313,9 @@ export function SettingsView({ username }: SettingsViewProps) {
     reader.readAsText(file)
   }
 
-  const deleteAllData = () => {
+  const deleteAllData = async () => {
     if (showDeleteConfirm) {
-      localStorage.removeItem(`mydiary_notes_${username}`)
+      await getNoteRepository(username).clear()
       localStorage.removeItem(`mydiary_settings_${username}`)
       setSettings(defaultSettings)
       setShowDeleteConfirm(false)
@@ -248,6 +326,41 @@ export function SettingsView({ username }: SettingsViewProps) {
     }
   }
 
+  const saveUnlockPin = async () => {
+    if (!/^\d{4,8}$/.test(unlockPin)) {
+      alert("The PIN must be 4 to 8 digits.")
+      return
+    }
+    await setUnlockPin(username, unlockPin)
+    setUnlockPinInput("")
+    setHasPin(true)
+  }
+
+  const clearUnlockPin = () => {
+    removeUnlockPin(username)
+    setHasPin(false)
+  }
+
+  const filenamePatternError = validateFilenamePattern(settings.filenamePattern)
+  const exampleNoteDate = new Date(2025, 0, 15, 9, 30).toISOString()
+  const exampleFilename = (title: string, type: NoteType) =>
+    formatFilename(settings.filenamePattern, {
+      id: "1736933400123",
+      title,
+      type,
+      date: exampleNoteDate,
+      mimeType: type === "audio" && settings.audioFormat === "wav" ? "audio/wav" : undefined,
+    })
+
+  const storageBackendOptions: Array<{ value: StorageBackendKind; description: string }> = [
+    {
+      value: "directory",
+      description: "Files in a folder you choose, with Text/, Audio/, Video/ and Images/ subfolders",
+    },
+    { value: "indexeddb", description: "Kept inside this browser's database" },
+    { value: "opfs", description: "Files in storage private to this site, not visible in your file manager" },
+  ]
+
   const fontOptions = [
     { value: "Inter", label: "Inter (Default)" },
     { value: "Arial", label: "Arial" },
@@ -305,61 +418,142 @@ export function SettingsView({ username }: SettingsViewProps) {
               </p>
             </div>
 
-            <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label className="text-sm font-semibold">File System Setup</Label>
-                  <p className="text-xs text-muted-foreground">
-                    Initialize local directory structure for saving notes as files
-                  </p>
+            <div className="space-y-2">
+              <Label>Storage Location</Label>
+              <Select
+                value={settings.storageBackend}
+                onValueChange={(value: StorageBackendKind) => updateSettings("storageBackend", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {storageBackendOptions.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={!isStorageBackendSupported(option.value)}
+                    >
+                      {storageBackendLabels[option.value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {storageBackendOptions.find((option) => option.value === settings.storageBackend)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filename-pattern">Filename Pattern</Label>
+              <Input
+                id="filename-pattern"
+                value={settings.filenamePattern}
+                onChange={(e) => updateSettings("filenamePattern", e.target.value)}
+                placeholder={DEFAULT_FILENAME_PATTERN}
+                className="font-mono"
+              />
+              {filenamePatternError ? (
+                <p className="text-xs text-destructive">{filenamePatternError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Example: <span className="font-mono">{exampleFilename("My Note", "text")}</span>
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Use {"{yyyy}"}, {"{MM}"}, {"{dd}"}, {"{HH}"}, {"{mm}"}, {"{title}"}, {"{id}"} and {"{type}"}; a "/"
+                creates subfolders, e.g. {"{yyyy}/{MM}/{dd}-{title}"}. Names that are already taken get the note id
+                added. Existing files keep their names.
+              </p>
+              {settings.filenamePattern !== DEFAULT_FILENAME_PATTERN && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateSettings("filenamePattern", DEFAULT_FILENAME_PATTERN)}
+                >
+                  Reset to default
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Audio File Format</Label>
+              <Select
+                value={settings.audioFormat}
+                onValueChange={(value: "recorded" | "wav") => updateSettings("audioFormat", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recorded">Compressed (as recorded by the browser)</SelectItem>
+                  <SelectItem value="wav">WAV (larger, plays everywhere)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Recordings are saved as MP4 where the browser supports it, otherwise WebM. WAV files are several
+                times larger.
+              </p>
+            </div>
+
+            {settings.storageBackend === "directory" && (
+              <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label className="text-sm font-semibold">File System Setup</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Initialize local directory structure for saving notes as files
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {isDirectoryInitialized ? (
+                      <CheckCircle className="h-5 w-5 text-green-500" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-muted-foreground" />
+                    )}
+                    <span className="text-sm font-medium">{isDirectoryInitialized ? "Initialized" : "Not Set"}</span>
+                  </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  {isDirectoryInitialized ? (
-                    <CheckCircle className="h-5 w-5 text-green-500" />
+
+                <div className="flex space-x-2">
+                  {!isDirectoryInitialized ? (
+                    <Button
+                      onClick={initializeDirectoryStructure}
+                      disabled={isInitializingDirectory}
+                      size="sm"
+                      className="flex-1"
+                    >
+                      <FolderOpen className="h-4 w-4 mr-2" />
+                      {isInitializingDirectory ? "Setting up..." : "Choose Directory"}
+                    </Button>
                   ) : (
-                    <XCircle className="h-5 w-5 text-muted-foreground" />
+                    <Button
+                      onClick={resetDirectoryInitialization}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 bg-transparent"
+                    >
+                      <Folder className="h-4 w-4 mr-2" />
+                      Change Directory
+                    </Button>
                   )}
-                  <span className="text-sm font-medium">{isDirectoryInitialized ? "Initialized" : "Not Set"}</span>
                 </div>
-              </div>
 
-              <div className="flex space-x-2">
-                {!isDirectoryInitialized ? (
-                  <Button
-                    onClick={initializeDirectoryStructure}
-                    disabled={isInitializingDirectory}
-                    size="sm"
-                    className="flex-1"
-                  >
-                    <FolderOpen className="h-4 w-4 mr-2" />
-                    {isInitializingDirectory ? "Setting up..." : "Choose Directory"}
-                  </Button>
-                ) : (
-                  <Button
-                    onClick={resetDirectoryInitialization}
-                    variant="outline"
-                    size="sm"
-                    className="flex-1 bg-transparent"
-                  >
-                    <Folder className="h-4 w-4 mr-2" />
-                    Change Directory
-                  </Button>
+                {isDirectoryInitialized && (
+                  <div className="text-xs text-muted-foreground bg-green-50 dark:bg-green-900/20 p-3 rounded border border-green-200 dark:border-green-800">
+                    <p className="font-medium text-green-700 dark:text-green-300 mb-1">Directory Structure Ready!</p>
+                    <p>Your notes will be saved with the following structure:</p>
+                    <ul className="mt-2 space-y-1 font-mono text-green-600 dark:text-green-400">
+                      <li>📁 /YourChosenFolder/</li>
+                      <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Text/ → {exampleFilename("My Note", "text")} (+ .meta.json)</li>
+                      <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Audio/ → {exampleFilename("Recording", "audio")}</li>
+                      <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Video/ → {exampleFilename("Memory", "video")}</li>
+                      <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Images/ → {exampleFilename("Sunset", "photo")}</li>
+                    </ul>
+                  </div>
                 )}
               </div>
-
-              {isDirectoryInitialized && (
-                <div className="text-xs text-muted-foreground bg-green-50 dark:bg-green-900/20 p-3 rounded border border-green-200 dark:border-green-800">
-                  <p className="font-medium text-green-700 dark:text-green-300 mb-1">Directory Structure Ready!</p>
-                  <p>Your notes will be saved with the following structure:</p>
-                  <ul className="mt-2 space-y-1 font-mono text-green-600 dark:text-green-400">
-                    <li>📁 /YourChosenFolder/</li>
-                    <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Text/ → 2025-01-15_MyNote.txt</li>
-                    <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Audio/ → 2025-01-15_Recording.mp3</li>
-                    <li>&nbsp;&nbsp;&nbsp;&nbsp;📁 /Video/ → 2025-01-15_Memory.mp4</li>
-                  </ul>
-                </div>
-              )}
-            </div>
+            )}
 
             <div className="space-y-2">
               <Label>Theme</Label>
@@ -531,6 +725,17 @@ export function SettingsView({ username }: SettingsViewProps) {
           </CardContent>
         </Card>
 
+        <TemplateSettings
+          templates={settings.templates ?? DEFAULT_TEMPLATES}
+          onChange={(templates) => updateSettings("templates", templates)}
+        />
+
+        <AccountSettings
+          username={username}
+          onAccountRenamed={onAccountRenamed}
+          onAccountDeleted={onAccountDeleted}
+        />
+
         {/* Privacy & Security */}
         <Card>
           <CardHeader>
@@ -544,7 +749,7 @@ export function SettingsView({ username }: SettingsViewProps) {
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Password Protection</Label>
-                <p className="text-xs text-muted-foreground">Require password for sensitive notes</p>
+                <p className="text-xs text-muted-foreground">Lock the diary when you switch to another tab or app</p>
               </div>
               <Switch
                 checked={settings.privacy.passwordProtection}
@@ -582,6 +787,34 @@ export function SettingsView({ username }: SettingsViewProps) {
                 </Select>
               </div>
             )}
+
+            {(settings.privacy.passwordProtection || settings.privacy.autoLock) && (
+              <div className="space-y-2">
+                <Label htmlFor="unlock-pin">Unlock PIN</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="unlock-pin"
+                    type="password"
+                    inputMode="numeric"
+                    value={unlockPin}
+                    onChange={(e) => setUnlockPinInput(e.target.value)}
+                    placeholder={hasPin ? "Enter a new PIN to replace it" : "4 to 8 digits"}
+                  />
+                  <Button variant="outline" onClick={saveUnlockPin} disabled={!unlockPin}>
+                    {hasPin ? "Change PIN" : "Set PIN"}
+                  </Button>
+                  {hasPin && (
+                    <Button variant="ghost" onClick={clearUnlockPin}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Unlock the lock screen with a PIN instead of your password. After 5 wrong PINs your password is
+                  required.
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -625,6 +858,27 @@ export function SettingsView({ username }: SettingsViewProps) {
               </div>
             )}
 
+            <div className="space-y-2">
+              <Label>Keep Deleted Notes</Label>
+              <Select
+                value={settings.trashRetentionDays.toString()}
+                onValueChange={(value) => updateSettings("trashRetentionDays", Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="90">90 days</SelectItem>
+                  <SelectItem value="0">Until I empty the trash</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Deleted notes and their files wait in the Trash folder for this long before they are removed for good
+              </p>
+            </div>
+
             <Separator />
 
             <div className="space-y-4">
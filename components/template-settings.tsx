@@ -0,0 +1,148 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LayoutTemplate, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react"
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_PLACEHOLDERS,
+  createTemplateId,
+  fillTemplate,
+  type NoteTemplate,
+} from "@/lib/note-templates"
+
+interface TemplateSettingsProps {
+  templates: NoteTemplate[]
+  // Changes are kept with the other settings and saved by their Save button
+  onChange: (templates: NoteTemplate[]) => void
+}
+
+export function TemplateSettings({ templates, onChange }: TemplateSettingsProps) {
+  const [editing, setEditing] = useState<NoteTemplate | null>(null)
+
+  const startNewTemplate = () => {
+    setEditing({ id: createTemplateId(), name: "", title: "{{date}}", content: "" })
+  }
+
+  const saveTemplate = () => {
+    if (!editing || !editing.name.trim()) {
+      alert("Please give the template a name.")
+      return
+    }
+
+    const template = { ...editing, name: editing.name.trim() }
+    const exists = templates.some((candidate) => candidate.id === template.id)
+    onChange(
+      exists
+        ? templates.map((candidate) => (candidate.id === template.id ? template : candidate))
+        : [...templates, template],
+    )
+    setEditing(null)
+  }
+
+  const deleteTemplate = (template: NoteTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+    onChange(templates.filter((candidate) => candidate.id !== template.id))
+    if (editing?.id === template.id) setEditing(null)
+  }
+
+  // Brings back the built-in templates that were deleted or changed; own templates stay
+  const restoreDefaults = () => {
+    const own = templates.filter((template) => !DEFAULT_TEMPLATES.some((builtIn) => builtIn.id === template.id))
+    onChange([...DEFAULT_TEMPLATES, ...own])
+    setEditing(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <LayoutTemplate className="h-5 w-5" />
+          <span>Templates</span>
+        </CardTitle>
+        <CardDescription>Starting points for new text notes, written in Markdown</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {templates.length === 0 && <p className="text-sm text-muted-foreground">You have no templates.</p>}
+
+        <div className="space-y-2">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{template.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{fillTemplate(template.title, new Date())}</p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(template)} title="Edit template">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template)} title="Delete template">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editing ? (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="Morning pages"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-title">Note title</Label>
+              <Input
+                id="template-title"
+                value={editing.title}
+                onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-content">Content</Label>
+              <Textarea
+                id="template-content"
+                value={editing.content}
+                onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                rows={6}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {TEMPLATE_PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(", ")}.{" "}
+                {"{{prompt}}"} is the journaling prompt of the day.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={saveTemplate}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={startNewTemplate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Template
+            </Button>
+            <Button variant="outline" size="sm" onClick={restoreDefaults}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore Built-in Templates
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,11 +1,13 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import type React from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
 import {
   Bold,
   Italic,
@@ -22,128 +24,984 @@ import {
   Undo,
   Redo,
   Smile,
+  History,
+  Link2,
+  PenLine,
+  Columns2,
+  Eye,
+  ImagePlus,
+  Mic,
+  Video,
 } from "lucide-react"
+import { RevisionHistoryPanel } from "@/components/revision-history-panel"
+import { BacklinksPanel } from "@/components/backlinks-panel"
+import { WikiLinkSuggestions } from "@/components/wiki-link-suggestions"
+import { DraftRestoreBanner } from "@/components/draft-restore-banner"
+import { NoteLockControl } from "@/components/note-lock-control"
+import { AudioNoteRecorder } from "@/components/audio-note-recorder"
+import { VideoNoteRecorder } from "@/components/video-note-recorder"
+import { escapeHtml, isSafeUrl } from "@/lib/html-sanitizer"
+import { renderMarkdown } from "@/lib/markdown"
+import {
+  createAttachmentName,
+  extractAttachmentNames,
+  getAttachmentName,
+  getRecordingExtension,
+  isEmbeddableFile,
+  isImageFile,
+  toAttachmentUrl,
+  type NoteAttachment,
+  type NoteClip,
+} from "@/lib/note-attachments"
+import type { RecordingKind } from "@/lib/media-formats"
+import {
+  documentToHtml,
+  documentToMarkdown,
+  documentToText,
+  EditHistory,
+  insertFragment,
+  insertImage,
+  insertText,
+  parseHtml,
+  readEditorDocument,
+  readEditorState,
+  renderEditorState,
+  setAlignment,
+  setBlockType,
+  setLink,
+  textToDocument,
+  toggleList,
+  toggleMark,
+  type EditorState,
+} from "@/lib/note-document"
+import {
+  extractWikiLinks,
+  findBacklinks,
+  getLinkQuery,
+  linkWikiTitles,
+  resolveWikiLink,
+  suggestLinkTargets,
+  wikiLinkAt,
+  type LinkSuggestion,
+} from "@/lib/note-links"
+import {
+  getNoteRepository,
+  type NoteDraft,
+  type NoteFormat,
+  type NoteRecord,
+  type NoteRevision,
+} from "@/lib/note-repository"
 
 interface TextNoteEditorProps {
   initialTitle?: string
   initialContent?: string
-  onSave: (title: string, content: string) => void
+  initialFormat?: NoteFormat
+  // The clips recorded into the note so far, see NoteRecord
+  initialClips?: NoteClip[]
+  // Attachments are the files added in this session that the content still refers to; clips are all the
+  // recordings it still refers to
+  onSave: (title: string, content: string, format: NoteFormat, attachments: NoteAttachment[], clips: NoteClip[]) => void
   onCancel: () => void
+  // Set when editing a saved note, to browse and restore its earlier revisions
+  noteId?: string
+  username?: string
+  // Set to keep a draft of unsaved changes under this id, see createDraftId
+  draftId?: string
+  // Shows a control to lock the note with a passphrase, see NoteLockControl
+  locked?: boolean
+  onLockChange?: (passphrase: string | null) => void
+  // Follows a [[link]] to another note
+  onOpenNote?: (note: NoteRecord) => void
+  // Reads a file the saved note already has, to show its images
+  loadAttachment?: (name: string) => Promise<Blob | null>
+}
+
+// Wait for a pause in typing before writing the draft
+const DRAFT_SAVE_DELAY = 1000
+
+// What Markdown mode shows: the source, the source next to its preview, or the preview alone
+type MarkdownView = "write" | "split" | "preview"
+
+// Typing within this long of the last keystroke is undone in one step
+const TYPING_GROUP_DELAY = 1000
+
+// The Markdown source with its selection, as undo and redo restore it
+interface MarkdownState {
+  text: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+// Commands for Ctrl or Cmd and a key, which the browser would otherwise apply to the DOM itself
+const SHORTCUTS: Record<string, string> = { z: "undo", y: "redo", b: "bold", i: "italic", u: "underline" }
+
+// The same commands from the browser's own menus and shortcuts, by beforeinput type
+const INPUT_COMMANDS: Record<string, string> = {
+  historyUndo: "undo",
+  historyRedo: "redo",
+  formatBold: "bold",
+  formatItalic: "italic",
+  formatUnderline: "underline",
+  formatStrikeThrough: "strikeThrough",
 }
 
-export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave, onCancel }: TextNoteEditorProps) {
+// Larger files are refused, since attachments are read into memory to be encrypted
+const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024
+
+// Heading, list or quote markers at the start of a Markdown line
+const LINE_MARKER_PATTERN = /^\s*(#{1,6}\s+|[-*+]\s+|\d+[.)]\s+|>\s?)/
+
+export function TextNoteEditor({
+  initialTitle = "",
+  initialContent = "",
+  initialFormat = "html",
+  initialClips,
+  onSave,
+  onCancel,
+  noteId,
+  username,
+  draftId,
+  locked,
+  onLockChange,
+  onOpenNote,
+  loadAttachment,
+}: TextNoteEditorProps) {
   const [title, setTitle] = useState(initialTitle)
   const [isAutoSaving, setIsAutoSaving] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [pendingDraft, setPendingDraft] = useState<NoteDraft | null>(null)
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
+  const [format, setFormat] = useState<NoteFormat>(initialFormat)
+  const [markdown, setMarkdown] = useState(initialFormat === "markdown" ? initialContent : "")
+  const [markdownView, setMarkdownView] = useState<MarkdownView>("split")
+  // Notes to link to, and to find the ones linking here
+  const [notes, setNotes] = useState<NoteRecord[]>([])
+  const [showBacklinks, setShowBacklinks] = useState(false)
+  // An unfinished [[link]] before the caret, and where to show the notes it could link to
+  const [linkQuery, setLinkQuery] = useState<{ query: string; top: number; left: number } | null>(null)
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+  // An audio clip or video being recorded into the text
+  const [recorder, setRecorder] = useState<RecordingKind | null>(null)
+  const editorAreaRef = useRef<HTMLDivElement>(null)
   const editorRef = useRef<HTMLDivElement>(null)
+  const markdownRef = useRef<HTMLTextAreaElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Where the caret was in the rich text when a recorder was opened
+  const recordingRangeRef = useRef<Range | null>(null)
+  // Files added since the editor opened, and object URLs of every attachment shown so far
+  const pendingAttachmentsRef = useRef(new Map<string, Blob>())
+  // Every clip recorded into the note, by attachment name
+  const clipsRef = useRef(new Map((initialClips ?? []).map((clip) => [clip.name, clip])))
+  const attachmentUrlsRef = useRef(new Map<string, Promise<string | null>>())
+  const titleRef = useRef(initialTitle)
+  // Read by the draft timer, which may run after a render or two
+  const formatRef = useRef(initialFormat)
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout>()
+  const historyRef = useRef(new EditHistory())
+  const markdownHistoryRef = useRef(new EditHistory<MarkdownState>())
+  // Set while a burst of typing is going on, see TYPING_GROUP_DELAY
+  const typingTimeoutRef = useRef<NodeJS.Timeout>()
+
+  const getAttachmentUrl = (name: string): Promise<string | null> => {
+    let url = attachmentUrlsRef.current.get(name)
+    if (!url) {
+      const pending = pendingAttachmentsRef.current.get(name)
+      url = (pending ? Promise.resolve(pending) : (loadAttachment?.(name) ?? Promise.resolve(null))).then((blob) =>
+        blob ? URL.createObjectURL(blob) : null,
+      )
+      attachmentUrlsRef.current.set(name, url)
+    }
+    return url
+  }
+
+  // Attached images and recordings are shown from object URLs; data-src keeps the attachment: source they
+  // are saved with
+  const showAttachments = (root: HTMLElement | null) => {
+    root?.querySelectorAll<HTMLImageElement | HTMLMediaElement>("img, audio, video").forEach((image) => {
+      const name = getAttachmentName(image.getAttribute("data-src") || image.getAttribute("src") || "")
+      if (!name) return
+
+      image.setAttribute("data-src", toAttachmentUrl(name))
+      getAttachmentUrl(name)
+        .then((url) => {
+          if (url) image.src = url
+        })
+        .catch((error) => console.log("[v0] Error showing attachment:", error))
+    })
+  }
 
   useEffect(() => {
-    if (editorRef.current && initialContent) {
-      editorRef.current.innerHTML = initialContent
+    const urls = attachmentUrlsRef.current
+    return () => {
+      urls.forEach((url) => url.then((objectUrl) => objectUrl && URL.revokeObjectURL(objectUrl)))
+    }
+  }, [])
+
+  // Rich text is always shown as the document model writes it
+  const showHtml = (html: string) => {
+    if (editorRef.current) {
+      editorRef.current.innerHTML = documentToHtml(parseHtml(html))
+      showAttachments(editorRef.current)
     }
-  }, [initialContent])
+  }
+
+  const renderState = (editor: HTMLElement, state: EditorState) => {
+    renderEditorState(editor, state)
+    showAttachments(editor)
+  }
+
+  useEffect(() => {
+    showAttachments(previewRef.current)
+  }, [markdown, markdownView, format])
 
-  // Auto-save functionality
   useEffect(() => {
-    const handleInput = () => {
-      setIsAutoSaving(true)
+    if (initialFormat === "markdown") {
+      setMarkdown(initialContent)
+    } else if (initialContent) {
+      showHtml(initialContent)
+    }
+    historyRef.current.clear()
+    markdownHistoryRef.current.clear()
+  }, [initialContent, initialFormat])
+
+  const changeFormat = (next: NoteFormat) => {
+    setFormat(next)
+    formatRef.current = next
+  }
 
+  const readDocument = () => (editorRef.current ? readEditorDocument(editorRef.current) : textToDocument(""))
+
+  // The note as it is saved: the Markdown source, or the cleaned rich text
+  const getContent = () =>
+    formatRef.current === "markdown"
+      ? (markdownRef.current?.value ?? "")
+      : documentToHtml(readDocument())
+
+  // Show stored content in the editor it was written in
+  const loadContent = (content: string, contentFormat: NoteFormat = "html") => {
+    if (contentFormat === "markdown") {
+      const state = readMarkdownState()
+      if (state && formatRef.current === "markdown") markdownHistoryRef.current.record(state)
+      setMarkdown(content)
+    } else if (editorRef.current) {
+      historyRef.current.record(readEditorState(editorRef.current))
+      showHtml(content)
+    }
+    changeFormat(contentFormat)
+  }
+
+  useEffect(() => {
+    if (!username) return
+
+    getNoteRepository(username)
+      .listNotes()
+      .then(setNotes)
+      .catch((error) => console.log("[v0] Error loading notes for links:", error))
+  }, [username])
+
+  // Offer a draft left behind by an earlier session that was never saved
+  useEffect(() => {
+    if (!username || !draftId) return
+
+    const checkForDraft = async () => {
+      const repository = getNoteRepository(username)
+      const drafts = (await repository.listDrafts(noteId)).filter((draft) => draft.id !== draftId)
+      const [latest, ...older] = drafts
+      for (const draft of older) {
+        await repository.deleteDraft(draft.id)
+      }
+
+      if (!latest) return
+      if (latest.title === initialTitle && latest.content === initialContent) {
+        await repository.deleteDraft(latest.id)
+      } else {
+        setPendingDraft(latest)
+      }
+    }
+
+    checkForDraft().catch((error) => console.log("[v0] Error checking for drafts:", error))
+  }, [username, draftId, noteId])
+
+  const writeDraft = async () => {
+    autoSaveTimeoutRef.current = undefined
+    if (!username || !draftId || !editorRef.current) return
+
+    try {
+      const updatedAt = new Date().toISOString()
+      await getNoteRepository(username).saveDraft({
+        id: draftId,
+        noteId,
+        title: titleRef.current,
+        content: getContent(),
+        format: formatRef.current,
+        updatedAt,
+      })
+      setDraftSavedAt(updatedAt)
+    } catch (error) {
+      console.log("[v0] Error saving draft:", error)
+    }
+    setIsAutoSaving(false)
+  }
+
+  const scheduleDraftSave = () => {
+    if (!username || !draftId) return
+
+    setIsAutoSaving(true)
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current)
+    }
+    autoSaveTimeoutRef.current = setTimeout(writeDraft, DRAFT_SAVE_DELAY)
+  }
+
+  // Auto-save a draft while typing, and right away if the page is closed mid-pause
+  useEffect(() => {
+    const flushDraft = () => {
       if (autoSaveTimeoutRef.current) {
         clearTimeout(autoSaveTimeoutRef.current)
+        writeDraft()
       }
+    }
+
+    const editor = editorRef.current
+    editor?.addEventListener("input", scheduleDraftSave)
+    window.addEventListener("pagehide", flushDraft)
+    return () => {
+      editor?.removeEventListener("input", scheduleDraftSave)
+      window.removeEventListener("pagehide", flushDraft)
+      if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current)
+    }
+  }, [username, draftId, noteId])
+
+  const handleTitleChange = (value: string) => {
+    setTitle(value)
+    titleRef.current = value
+    scheduleDraftSave()
+  }
+
+  const restoreDraft = async () => {
+    if (!pendingDraft || !username) return
+
+    loadContent(pendingDraft.content, pendingDraft.format)
+    handleTitleChange(pendingDraft.title)
+    setPendingDraft(null)
+    // The draft now continues under this session's id
+    await getNoteRepository(username).deleteDraft(pendingDraft.id)
+  }
+
+  const discardDraft = async () => {
+    if (!pendingDraft || !username) return
+
+    setPendingDraft(null)
+    await getNoteRepository(username).deleteDraft(pendingDraft.id)
+  }
+
+  // Switching converts what has been written so far. Underline and alignment have no Markdown.
+  const switchFormat = (next: NoteFormat) => {
+    if (next === formatRef.current) return
+
+    if (next === "markdown") {
+      markdownHistoryRef.current.clear()
+      setMarkdown(documentToMarkdown(readDocument()))
+    } else {
+      historyRef.current.clear()
+      showHtml(renderMarkdown(markdown))
+    }
+    changeFormat(next)
+    scheduleDraftSave()
+  }
+
+  const handleMarkdownChange = (value: string) => {
+    setMarkdown(value)
+    scheduleDraftSave()
+    updateLinkQuery()
+  }
+
+  // Offer note titles while a [[link]] is being typed
+  const updateLinkQuery = () => {
+    const area = editorAreaRef.current?.getBoundingClientRect()
+    const textarea = markdownRef.current
+    const selection = window.getSelection()
+    const inText = !!selection?.isCollapsed && selection.rangeCount > 0 && selection.anchorNode?.nodeType === Node.TEXT_NODE
+    let query: string | null = null
+    let caret: DOMRect | undefined
+
+    if (formatRef.current === "markdown" && textarea) {
+      if (textarea.selectionStart === textarea.selectionEnd) {
+        query = getLinkQuery(textarea.value.slice(0, textarea.selectionStart))
+      }
+      // Caret coordinates aren't available in a textarea, so the list goes to its top right corner
+      const box = textarea.getBoundingClientRect()
+      caret = new DOMRect(box.right - 296, box.top, 0, 8)
+    } else if (selection && inText) {
+      query = getLinkQuery((selection.anchorNode?.textContent || "").slice(0, selection.anchorOffset))
+      caret = selection.getRangeAt(0).getBoundingClientRect()
+    }
+
+    setActiveSuggestion(0)
+    setLinkQuery(
+      query !== null && caret && area
+        ? { query, top: caret.bottom - area.top + 4, left: Math.max(caret.left - area.left, 0) }
+        : null,
+    )
+  }
+
+  const suggestions = linkQuery ? suggestLinkTargets(linkQuery.query, notes, noteId) : []
+
+  const insertWikiLink = (suggestion: LinkSuggestion) => {
+    const typed = linkQuery?.query.length ?? 0
+    const text = `${suggestion.target}]]`
+    setLinkQuery(null)
+
+    if (formatRef.current === "markdown") {
+      const caret = markdownRef.current?.selectionStart ?? 0
+      const end = caret - typed + text.length
+      replaceMarkdown(caret - typed, caret, text, end, end)
+    } else {
+      applyEdit((state) => {
+        const caret = state.selection.focus
+        const anchor = { ...caret, offset: caret.offset - typed }
+        return insertText({ ...state, selection: { anchor, focus: caret } }, text)
+      })
+    }
+  }
+
+  // Arrow keys and Enter or Tab pick a suggestion, Escape dismisses them
+  const handleSuggestionKey = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return false
+
+    switch (e.key) {
+      case "ArrowDown":
+        setActiveSuggestion((index) => (index + 1) % suggestions.length)
+        break
+      case "ArrowUp":
+        setActiveSuggestion((index) => (index - 1 + suggestions.length) % suggestions.length)
+        break
+      case "Enter":
+      case "Tab":
+        insertWikiLink(suggestions[activeSuggestion] ?? suggestions[0])
+        break
+      case "Escape":
+        setLinkQuery(null)
+        break
+      default:
+        return false
+    }
+    e.preventDefault()
+    e.stopPropagation()
+    return true
+  }
+
+  const openWikiLink = (target: string) => {
+    const linked = resolveWikiLink(target, notes)
+    if (!linked) {
+      alert(`There is no entry called "${target}" yet.`)
+      return
+    }
+    if (linked.id !== noteId) onOpenNote?.(linked)
+  }
+
+  const openAttachment = async (name: string) => {
+    const url = await getAttachmentUrl(name)
+    if (url) {
+      window.open(url, "_blank", "noopener")
+    } else {
+      alert("This attachment could not be found.")
+    }
+  }
+
+  // The attachment a click landed on, from a link to a file
+  const attachmentLinkAt = (target: EventTarget) => {
+    const link = (target as HTMLElement).closest("a[href]")
+    return link ? getAttachmentName(link.getAttribute("href") || "") : null
+  }
+
+  // Ctrl or Cmd and click follows the [[link]] or attachment link under the caret
+  const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const attachment = (e.ctrlKey || e.metaKey) && attachmentLinkAt(e.target)
+    if (attachment) {
+      e.preventDefault()
+      openAttachment(attachment)
+      return
+    }
+
+    const selection = window.getSelection()
+    const node = selection?.anchorNode
+    if (!(e.ctrlKey || e.metaKey) || !node || node.nodeType !== Node.TEXT_NODE) {
+      updateLinkQuery()
+      return
+    }
+
+    const target = wikiLinkAt(node.textContent || "", selection.anchorOffset)
+    if (target) {
+      e.preventDefault()
+      openWikiLink(target)
+    }
+  }
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const attachment = attachmentLinkAt(e.target)
+    if (attachment) {
+      e.preventDefault()
+      openAttachment(attachment)
+      return
+    }
+
+    const link = (e.target as HTMLElement).closest("[data-wiki-link]")
+    if (!link) return
+
+    e.preventDefault()
+    openWikiLink(link.getAttribute("data-wiki-link") || "")
+  }
+
+  const readMarkdownState = (): MarkdownState | null => {
+    const textarea = markdownRef.current
+    return textarea
+      ? { text: textarea.value, selectionStart: textarea.selectionStart, selectionEnd: textarea.selectionEnd }
+      : null
+  }
+
+  // The textarea is updated right away so the selection can be set; the state then catches up
+  const showMarkdownState = (state: MarkdownState) => {
+    const textarea = markdownRef.current
+    if (!textarea) return
+
+    textarea.focus()
+    textarea.value = state.text
+    textarea.setSelectionRange(state.selectionStart, state.selectionEnd)
+    handleMarkdownChange(state.text)
+  }
+
+  // Markdown mode: commands replace part of the source, recorded in the same kind of history as rich text
+  const replaceMarkdown = (from: number, to: number, text: string, selectFrom: number, selectTo: number) => {
+    const state = readMarkdownState()
+    if (!state) return
+
+    closeTypingGroup()
+    markdownHistoryRef.current.record(state)
+    showMarkdownState({
+      text: state.text.slice(0, from) + text + state.text.slice(to),
+      selectionStart: selectFrom,
+      selectionEnd: selectTo,
+    })
+  }
+
+  const stepMarkdownHistory = (direction: "undo" | "redo") => {
+    const current = readMarkdownState()
+    if (!current) return
+
+    closeTypingGroup()
+    const history = markdownHistoryRef.current
+    const state = direction === "undo" ? history.undo(current) : history.redo(current)
+    if (state) showMarkdownState(state)
+  }
+
+  const wrapMarkdown = (before: string, after: string, placeholder: string) => {
+    const textarea = markdownRef.current
+    if (!textarea) return
+
+    const { selectionStart, selectionEnd } = textarea
+    const selected = textarea.value.slice(selectionStart, selectionEnd) || placeholder
+    const start = selectionStart + before.length
+    replaceMarkdown(selectionStart, selectionEnd, before + selected + after, start, start + selected.length)
+  }
 
-      autoSaveTimeoutRef.current = setTimeout(() => {
-        setIsAutoSaving(false)
-        // Auto-save logic would go here
-      }, 2000)
+  // Give every selected line a new marker in place of the heading, list or quote marker it had
+  const prefixMarkdownLines = (prefix: (index: number) => string) => {
+    const textarea = markdownRef.current
+    if (!textarea) return
+
+    const { value, selectionStart, selectionEnd } = textarea
+    const from = selectionStart > 0 ? value.lastIndexOf("\n", selectionStart - 1) + 1 : 0
+    const lineEnd = value.indexOf("\n", selectionEnd)
+    const to = lineEnd === -1 ? value.length : lineEnd
+    const text = value
+      .slice(from, to)
+      .split("\n")
+      .map((line, index) => prefix(index) + line.replace(LINE_MARKER_PATTERN, ""))
+      .join("\n")
+    replaceMarkdown(from, to, text, from, from + text.length)
+  }
+
+  const executeMarkdownCommand = (command: string, value?: string) => {
+    switch (command) {
+      case "bold":
+        return wrapMarkdown("**", "**", "bold text")
+      case "italic":
+        return wrapMarkdown("_", "_", "italic text")
+      case "strikeThrough":
+        return wrapMarkdown("~~", "~~", "text")
+      case "createLink":
+        return wrapMarkdown("[", `](${value})`, "link text")
+      case "formatBlock":
+        return prefixMarkdownLines(() => `${"#".repeat(Number(value?.slice(1)))} `)
+      case "insertUnorderedList":
+        return prefixMarkdownLines(() => "- ")
+      case "insertOrderedList":
+        return prefixMarkdownLines((index) => `${index + 1}. `)
+      case "undo":
+      case "redo":
+        return stepMarkdownHistory(command)
+    }
+  }
+
+  const closeTypingGroup = () => {
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+    typingTimeoutRef.current = undefined
+  }
+
+  // Called before each keystroke; the first of a burst records the state it started from
+  const continueTyping = (recordStart: () => void) => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current)
+    } else {
+      recordStart()
     }
+    typingTimeoutRef.current = setTimeout(() => {
+      typingTimeoutRef.current = undefined
+    }, TYPING_GROUP_DELAY)
+  }
+
+  // Rich text mode: every command is applied to the document model, which then replaces the editor content
+  const applyEdit = (edit: (state: EditorState) => EditorState) => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    closeTypingGroup()
+    const state = readEditorState(editor)
+    const next = edit(state)
+    if (next === state) return
 
+    historyRef.current.record(state)
+    renderState(editor, next)
+    scheduleDraftSave()
+  }
+
+  const undo = () => {
     const editor = editorRef.current
-    if (editor) {
-      editor.addEventListener("input", handleInput)
-      return () => editor.removeEventListener("input", handleInput)
+    if (!editor) return
+
+    closeTypingGroup()
+    const previous = historyRef.current.undo(readEditorState(editor))
+    if (previous) {
+      renderState(editor, previous)
+      scheduleDraftSave()
     }
-  }, [])
+  }
+
+  const redo = () => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    closeTypingGroup()
+    const next = historyRef.current.redo(readEditorState(editor))
+    if (next) {
+      renderState(editor, next)
+      scheduleDraftSave()
+    }
+  }
+
+  const executeRichCommand = (command: string, value?: string) => {
+    switch (command) {
+      case "bold":
+        return applyEdit((state) => toggleMark(state, "bold"))
+      case "italic":
+        return applyEdit((state) => toggleMark(state, "italic"))
+      case "underline":
+        return applyEdit((state) => toggleMark(state, "underline"))
+      case "strikeThrough":
+        return applyEdit((state) => toggleMark(state, "strike"))
+      case "createLink":
+        return applyEdit((state) => setLink(state, value || ""))
+      case "formatBlock":
+        return applyEdit((state) => setBlockType(state, "heading", Number(value?.slice(1))))
+      case "insertUnorderedList":
+        return applyEdit((state) => toggleList(state, false))
+      case "insertOrderedList":
+        return applyEdit((state) => toggleList(state, true))
+      case "justifyLeft":
+        return applyEdit((state) => setAlignment(state, "left"))
+      case "justifyCenter":
+        return applyEdit((state) => setAlignment(state, "center"))
+      case "justifyRight":
+        return applyEdit((state) => setAlignment(state, "right"))
+      case "undo":
+        return undo()
+      case "redo":
+        return redo()
+    }
+  }
 
   const executeCommand = (command: string, value?: string) => {
-    document.execCommand(command, false, value)
-    editorRef.current?.focus()
+    if (formatRef.current === "markdown") {
+      executeMarkdownCommand(command, value)
+    } else {
+      executeRichCommand(command, value)
+    }
   }
 
   const insertLink = () => {
     const url = prompt("Enter URL:")
-    if (url) {
-      executeCommand("createLink", url)
+    if (!url) return
+
+    if (!isSafeUrl(url)) {
+      alert("Links must start with http://, https:// or mailto:")
+      return
+    }
+    executeCommand("createLink", url)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (handleSuggestionKey(e)) return
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+
+    const key = e.key.toLowerCase()
+    const command = e.shiftKey ? (key === "z" ? "redo" : undefined) : SHORTCUTS[key]
+    if (command) {
+      e.preventDefault()
+      executeRichCommand(command)
     }
   }
 
+  // Only undo and redo have shortcuts in Markdown mode, so they don't fall through to the browser's own history
+  const handleMarkdownKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleSuggestionKey(e)) return
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+
+    const key = e.key.toLowerCase()
+    const command = key === "y" || (key === "z" && e.shiftKey) ? "redo" : key === "z" ? "undo" : undefined
+    if (command) {
+      e.preventDefault()
+      stepMarkdownHistory(command)
+    }
+  }
+
+  // Typing itself is left to the browser, with each burst of it recorded as one undo step
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    const handleBeforeInput = (e: InputEvent) => {
+      const command = INPUT_COMMANDS[e.inputType]
+      if (command) {
+        e.preventDefault()
+        executeRichCommand(command)
+        return
+      }
+
+      continueTyping(() => historyRef.current.record(readEditorState(editor)))
+    }
+
+    editor.addEventListener("beforeinput", handleBeforeInput)
+    return () => {
+      editor.removeEventListener("beforeinput", handleBeforeInput)
+      closeTypingGroup()
+    }
+  }, [username, draftId, noteId])
+
+  // The same for the Markdown source
+  useEffect(() => {
+    const textarea = markdownRef.current
+    if (!textarea || format !== "markdown") return
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType === "historyUndo" || e.inputType === "historyRedo") {
+        e.preventDefault()
+        stepMarkdownHistory(e.inputType === "historyUndo" ? "undo" : "redo")
+        return
+      }
+
+      const state = readMarkdownState()
+      if (state) continueTyping(() => markdownHistoryRef.current.record(state))
+    }
+
+    textarea.addEventListener("beforeinput", handleBeforeInput)
+    return () => {
+      textarea.removeEventListener("beforeinput", handleBeforeInput)
+      closeTypingGroup()
+    }
+  }, [format, username, draftId, noteId])
+
   const insertEmoji = () => {
     const emojis = ["😊", "😢", "😍", "🤔", "😂", "👍", "❤️", "🎉", "🔥", "✨"]
     const emoji = prompt(`Choose an emoji:\n${emojis.join(" ")}`) || emojis[0]
-    if (emoji && editorRef.current) {
-      const selection = window.getSelection()
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0)
-        range.deleteContents()
-        range.insertNode(document.createTextNode(emoji))
-        range.collapse(false)
-        selection.removeAllRanges()
-        selection.addRange(range)
-      }
+    if (emoji && formatRef.current === "markdown" && markdownRef.current) {
+      const { selectionStart, selectionEnd } = markdownRef.current
+      const end = selectionStart + emoji.length
+      replaceMarkdown(selectionStart, selectionEnd, emoji, end, end)
+    } else if (emoji) {
+      applyEdit((state) => insertText(state, emoji))
     }
   }
 
+  // Images and recordings go in where they are added; other files are linked by their name
+  const insertAttachment = (name: string, label: string, embed: boolean) => {
+    const url = toAttachmentUrl(name)
+    if (formatRef.current === "markdown" && markdownRef.current) {
+      const markup = `${embed ? "!" : ""}[${label.replace(/[[\]]/g, "")}](${url})`
+      const { selectionStart, selectionEnd } = markdownRef.current
+      const end = selectionStart + markup.length
+      replaceMarkdown(selectionStart, selectionEnd, markup, end, end)
+    } else if (embed) {
+      applyEdit((state) => insertImage(state, { src: url, alt: label }))
+    } else {
+      const link = parseHtml(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`)
+      applyEdit((state) => insertFragment(state, link))
+    }
+  }
+
+  const addAttachments = (files: File[]) => {
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE)
+    if (tooLarge.length > 0) {
+      alert(`${tooLarge.map((file) => file.name).join(", ")} cannot be attached. Files can be up to 50 MB.`)
+    }
+
+    for (const file of files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE)) {
+      const name = createAttachmentName(file)
+      pendingAttachmentsRef.current.set(name, file)
+      insertAttachment(name, file.name || (isImageFile(file) ? "image" : "file"), isEmbeddableFile(file))
+    }
+  }
+
+  const openRecorder = (kind: RecordingKind) => {
+    const selection = window.getSelection()
+    const inEditor = !!selection && selection.rangeCount > 0 && !!editorRef.current?.contains(selection.anchorNode)
+    recordingRangeRef.current = inEditor ? selection!.getRangeAt(0).cloneRange() : null
+    setRecorder(kind)
+  }
+
+  // A clip recorded here is stored with the note like any other attachment and shown with a player
+  const addRecording = (kind: RecordingKind, clipTitle: string, blob: Blob, duration: number) => {
+    setRecorder(null)
+    if (blob.size > MAX_ATTACHMENT_SIZE) {
+      alert("This recording is too long to keep in the note. Recordings can be up to 50 MB.")
+      return
+    }
+
+    const file = new File([blob], `${clipTitle}${getRecordingExtension(blob.type, kind)}`, { type: blob.type })
+    const name = createAttachmentName(file)
+    pendingAttachmentsRef.current.set(name, blob)
+    clipsRef.current.set(name, { name, kind, duration })
+
+    const range = recordingRangeRef.current
+    if (range && formatRef.current === "html") {
+      window.getSelection()?.removeAllRanges()
+      window.getSelection()?.addRange(range)
+    }
+    insertAttachment(name, clipTitle, true)
+  }
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addAttachments(Array.from(e.target.files ?? []))
+    e.target.value = ""
+  }
+
+  // Files dropped on the rich text go where they were dropped
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length === 0) return
+
+    e.preventDefault()
+    const range = formatRef.current === "html" ? document.caretRangeFromPoint?.(e.clientX, e.clientY) : null
+    if (range) {
+      window.getSelection()?.removeAllRanges()
+      window.getSelection()?.addRange(range)
+    }
+    addAttachments(files)
+  }
+
+  // Pasted web pages bring their own markup; keep only what the document model can hold
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0) {
+      addAttachments(files)
+      return
+    }
+
+    const html = e.clipboardData.getData("text/html")
+    const fragment = html ? parseHtml(html) : textToDocument(e.clipboardData.getData("text/plain"))
+    applyEdit((state) => insertFragment(state, fragment))
+  }
+
+  // Load a revision into the editor; it becomes a new revision once saved
+  const restoreRevision = (revision: NoteRevision) => {
+    if (!confirm("Replace the current text with this revision? Unsaved changes will be lost.")) return
+
+    loadContent(revision.content, revision.format)
+    handleTitleChange(revision.title)
+  }
+
   const handleSave = () => {
-    if (editorRef.current) {
-      onSave(title, editorRef.current.innerHTML)
+    // The caller removes the draft once the note is saved, so don't write it again
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current)
+      autoSaveTimeoutRef.current = undefined
+      setIsAutoSaving(false)
     }
+    const content = getContent()
+    const names = extractAttachmentNames(content)
+    const attachments = names.flatMap((name) => {
+      const blob = pendingAttachmentsRef.current.get(name)
+      return blob ? [{ name, blob }] : []
+    })
+    const clips = Array.from(clipsRef.current.values()).filter((clip) => names.includes(clip.name))
+    onSave(title, content, formatRef.current, attachments, clips)
+  }
+
+  const downloadExport = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${title || "note"}${extension}`
+    a.click()
+    URL.revokeObjectURL(url)
   }
 
   const exportAsText = () => {
-    if (editorRef.current) {
-      const content = editorRef.current.innerText
-      const blob = new Blob([`${title}\n\n${content}`], { type: "text/plain" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `${title || "note"}.txt`
-      a.click()
-      URL.revokeObjectURL(url)
-    }
+    const content = format === "markdown" ? markdown : documentToText(readDocument())
+    downloadExport(`${title}\n\n${content}`, "text/plain", ".txt")
+  }
+
+  const exportAsMarkdown = () => {
+    const content = format === "markdown" ? markdown : documentToMarkdown(readDocument())
+    downloadExport(`# ${title}\n\n${content}`, "text/markdown", ".md")
   }
 
   const exportAsHTML = () => {
-    if (editorRef.current) {
-      const content = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>${title}</title>
-          <style>
-            body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
-            h1 { color: #333; }
-          </style>
-        </head>
-        <body>
-          <h1>${title}</h1>
-          ${editorRef.current.innerHTML}
-        </body>
-        </html>
-      `
-      const blob = new Blob([content], { type: "text/html" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `${title || "note"}.html`
-      a.click()
-      URL.revokeObjectURL(url)
-    }
+    const body = format === "markdown" ? renderMarkdown(markdown) : getContent()
+    const content = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
+          h1 { color: #333; }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        ${body}
+      </body>
+      </html>
+    `
+    downloadExport(content, "text/html", ".html")
   }
 
   const formatHeading = (level: string) => {
     executeCommand("formatBlock", `h${level}`)
   }
 
+  const plainText = format === "markdown" ? markdown : editorRef.current?.innerText || ""
+  const outgoingLinks = extractWikiLinks(plainText)
+  const currentNote = notes.find((note) => note.id === noteId)
+  const backlinkCount = useMemo(
+    () => (currentNote ? findBacklinks(currentNote, notes).length : 0),
+    [currentNote, notes],
+  )
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -156,13 +1014,38 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
             <Input
               id="note-title"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
+              onChange={(e) => handleTitleChange(e.target.value)}
               placeholder="Enter note title..."
               className="text-lg font-semibold border-none shadow-none focus-visible:ring-0 px-0"
             />
           </div>
           <div className="flex items-center space-x-2">
-            {isAutoSaving && <span className="text-sm text-muted-foreground">Auto-saving...</span>}
+            {isAutoSaving && <span className="text-sm text-muted-foreground">Saving draft...</span>}
+            {noteId && username && (
+              <Button
+                variant={showHistory ? "secondary" : "outline"}
+                onClick={() => {
+                  setShowHistory(!showHistory)
+                  setShowBacklinks(false)
+                }}
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            )}
+            {currentNote && (
+              <Button
+                variant={showBacklinks ? "secondary" : "outline"}
+                onClick={() => {
+                  setShowBacklinks(!showBacklinks)
+                  setShowHistory(false)
+                }}
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Backlinks ({backlinkCount})
+              </Button>
+            )}
+            {onLockChange && <NoteLockControl locked={!!locked} onLockChange={onLockChange} />}
             <Button variant="outline" onClick={onCancel}>
               Cancel
             </Button>
@@ -175,6 +1058,48 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
 
         {/* Toolbar */}
         <div className="flex flex-wrap items-center gap-1 p-2 bg-muted/50 rounded-lg">
+          {/* Editing Mode */}
+          <Select value={format} onValueChange={(value) => switchFormat(value as NoteFormat)}>
+            <SelectTrigger className="w-32 h-8" title="Editing mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="html">Rich text</SelectItem>
+              <SelectItem value="markdown">Markdown</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {format === "markdown" && (
+            <div className="flex items-center space-x-1">
+              <Button
+                variant={markdownView === "write" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setMarkdownView("write")}
+                title="Write"
+              >
+                <PenLine className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={markdownView === "split" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setMarkdownView("split")}
+                title="Write with live preview"
+              >
+                <Columns2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={markdownView === "preview" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setMarkdownView("preview")}
+                title="Preview"
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <Separator orientation="vertical" className="h-6" />
+
           {/* Text Formatting */}
           <div className="flex items-center space-x-1">
             <Button variant="ghost" size="sm" onClick={() => executeCommand("bold")} title="Bold (Ctrl+B)">
@@ -183,7 +1108,13 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
             <Button variant="ghost" size="sm" onClick={() => executeCommand("italic")} title="Italic (Ctrl+I)">
               <Italic className="h-4 w-4" />
             </Button>
-            <Button variant="ghost" size="sm" onClick={() => executeCommand("underline")} title="Underline (Ctrl+U)">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => executeCommand("underline")}
+              title="Underline (Ctrl+U)"
+              disabled={format === "markdown"}
+            >
               <Underline className="h-4 w-4" />
             </Button>
             <Button variant="ghost" size="sm" onClick={() => executeCommand("strikeThrough")} title="Strikethrough">
@@ -223,7 +1154,7 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
           <Separator orientation="vertical" className="h-6" />
 
           {/* Alignment */}
-          <div className="flex items-center space-x-1">
+          <div className={`flex items-center space-x-1 ${format === "markdown" ? "hidden" : ""}`}>
             <Button variant="ghost" size="sm" onClick={() => executeCommand("justifyLeft")} title="Align Left">
               <AlignLeft className="h-4 w-4" />
             </Button>
@@ -245,6 +1176,21 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
             <Button variant="ghost" size="sm" onClick={insertEmoji} title="Insert Emoji">
               <Smile className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              title="Attach Image or File"
+            >
+              <ImagePlus className="h-4 w-4" />
+            </Button>
+            <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileInput} />
+            <Button variant="ghost" size="sm" onClick={() => openRecorder("audio")} title="Record Audio Clip">
+              <Mic className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => openRecorder("video")} title="Record Video Clip">
+              <Video className="h-4 w-4" />
+            </Button>
           </div>
 
           <Separator orientation="vertical" className="h-6" />
@@ -266,6 +1212,7 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
             <Select
               onValueChange={(value) => {
                 if (value === "txt") exportAsText()
+                if (value === "md") exportAsMarkdown()
                 if (value === "html") exportAsHTML()
               }}
             >
@@ -275,40 +1222,161 @@ export function TextNoteEditor({ initialTitle = "", initialContent = "", onSave,
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="txt">Export as .txt</SelectItem>
+                <SelectItem value="md">Export as .md</SelectItem>
                 <SelectItem value="html">Export as .html</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </div>
+
+        {pendingDraft && (
+          <div className="mt-4">
+            <DraftRestoreBanner draft={pendingDraft} onRestore={restoreDraft} onDiscard={discardDraft} />
+          </div>
+        )}
       </div>
 
       {/* Editor */}
-      <div className="flex-1 p-6">
-        <div className="max-w-4xl mx-auto">
+      <div className="flex">
+        <div className="flex-1 min-w-0 p-6">
           <div
-            ref={editorRef}
-            contentEditable
-            className="min-h-[500px] p-6 bg-card rounded-lg border focus:outline-none focus:ring-2 focus:ring-primary/20 prose prose-slate max-w-none"
-            style={{
-              lineHeight: "1.6",
-              fontSize: "16px",
-            }}
-            placeholder="Start writing your thoughts..."
-            suppressContentEditableWarning={true}
-          />
+            ref={editorAreaRef}
+            className={`${format === "markdown" && markdownView === "split" ? "max-w-7xl" : "max-w-4xl"} mx-auto relative`}
+          >
+            {/* Kept mounted in Markdown mode so switching back has somewhere to render into */}
+            <div
+              ref={editorRef}
+              contentEditable
+              className={`min-h-[500px] p-6 bg-card rounded-lg border focus:outline-none focus:ring-2 focus:ring-primary/20 prose prose-slate max-w-none ${format === "markdown" ? "hidden" : ""}`}
+              style={{
+                lineHeight: "1.6",
+                fontSize: "16px",
+                // Spaces are kept as typed, so the document model doesn't need non-breaking ones
+                whiteSpace: "pre-wrap",
+              }}
+              placeholder="Start writing your thoughts..."
+              suppressContentEditableWarning={true}
+              onPaste={handlePaste}
+              onDrop={handleDrop}
+              onKeyDown={handleKeyDown}
+              onInput={updateLinkQuery}
+              onClick={handleEditorClick}
+              onBlur={() => setLinkQuery(null)}
+            />
 
-          {/* Writing Stats */}
-          <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
-            <div className="flex items-center space-x-4">
-              <span>
-                Words: {editorRef.current?.innerText.split(/\s+/).filter((word) => word.length > 0).length || 0}
-              </span>
-              <span>Characters: {editorRef.current?.innerText.length || 0}</span>
+            {format === "markdown" && (
+              <div className={markdownView === "split" ? "grid gap-4 md:grid-cols-2" : ""}>
+                {/* Hidden rather than unmounted in preview, so drafts and saving can still read it */}
+                <Textarea
+                  ref={markdownRef}
+                  value={markdown}
+                  onChange={(e) => handleMarkdownChange(e.target.value)}
+                  onKeyDown={handleMarkdownKeyDown}
+                  onDrop={handleDrop}
+                  onPaste={(e) => {
+                    if (e.clipboardData.files.length === 0) return
+                    e.preventDefault()
+                    addAttachments(Array.from(e.clipboardData.files))
+                  }}
+                  onClick={updateLinkQuery}
+                  onBlur={() => setLinkQuery(null)}
+                  placeholder="Write in Markdown: **bold**, _italic_, # Heading, - list, [link](https://...)"
+                  className={`min-h-[500px] p-6 bg-card font-mono text-sm leading-relaxed resize-y ${markdownView === "preview" ? "hidden" : ""}`}
+                />
+                {markdownView !== "write" && (
+                  <div
+                    ref={previewRef}
+                    className="min-h-[500px] p-6 bg-card rounded-lg border prose prose-slate max-w-none overflow-auto"
+                    dangerouslySetInnerHTML={{ __html: linkWikiTitles(renderMarkdown(markdown)) }}
+                    onClick={handlePreviewClick}
+                  />
+                )}
+              </div>
+            )}
+
+            {linkQuery && (
+              <WikiLinkSuggestions
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                position={linkQuery}
+                onSelect={insertWikiLink}
+              />
+            )}
+
+            {/* Writing Stats */}
+            <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+              <div className="flex items-center space-x-4">
+                <span>Words: {plainText.split(/\s+/).filter((word) => word.length > 0).length}</span>
+                <span>Characters: {plainText.length}</span>
+              </div>
+              <div>
+                {isAutoSaving
+                  ? "Saving draft..."
+                  : draftSavedAt
+                    ? `Draft saved at ${new Date(draftSavedAt).toLocaleTimeString()}`
+                    : "No unsaved changes"}
+              </div>
             </div>
-            <div>Last saved: {isAutoSaving ? "Saving..." : "Just now"}</div>
+
+            {outgoingLinks.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Links:</span>
+                {outgoingLinks.map((target) => (
+                  <Button
+                    key={target}
+                    variant={resolveWikiLink(target, notes) ? "outline" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => openWikiLink(target)}
+                  >
+                    {target}
+                  </Button>
+                ))}
+                <span className="text-xs text-muted-foreground">Ctrl+click a link in the text to open it</span>
+              </div>
+            )}
           </div>
         </div>
+
+        {showBacklinks && currentNote && (
+          <BacklinksPanel
+            note={currentNote}
+            notes={notes}
+            onOpen={(backlink) => onOpenNote?.(backlink)}
+            onClose={() => setShowBacklinks(false)}
+          />
+        )}
+
+        {showHistory && noteId && username && (
+          <RevisionHistoryPanel
+            username={username}
+            noteId={noteId}
+            onRestore={restoreRevision}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
+
+      {/* Recorders cover the editor, which stays as it is underneath */}
+      {recorder && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-background">
+          {recorder === "audio" ? (
+            <AudioNoteRecorder
+              initialTitle="Voice clip"
+              onSave={(clipTitle, audioBlob, duration) => addRecording("audio", clipTitle, audioBlob, duration)}
+              onCancel={() => setRecorder(null)}
+            />
+          ) : (
+            <VideoNoteRecorder
+              initialTitle="Video clip"
+              onSave={(clipTitle, videoBlob, _thumbnail, duration) =>
+                addRecording("video", clipTitle, videoBlob, duration)
+              }
+              onCancel={() => setRecorder(null)}
+            />
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,176 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { FileText, Mic, Video, ImageIcon, Trash2, RotateCcw } from "lucide-react"
+import { getNoteRepository, type NoteRecord } from "@/lib/note-repository"
+import { DEFAULT_TRASH_RETENTION_DAYS, getFileStorageManager } from "@/lib/file-storage"
+import { MixedMediaIcons } from "@/components/mixed-media-icons"
+
+interface TrashViewProps {
+  username: string
+  onNotesChanged?: () => void
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function TrashView({ username, onNotesChanged }: TrashViewProps) {
+  const [notes, setNotes] = useState<NoteRecord[]>([])
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    loadTrash()
+  }, [username])
+
+  const getFileStorage = () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    return getFileStorageManager(
+      username,
+      userSettings.diaryPath || "",
+      userSettings.storageBackend,
+      userSettings.filenamePattern,
+    )
+  }
+
+  const loadTrash = async () => {
+    const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+    setRetentionDays(userSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)
+
+    const trashed = await getNoteRepository(username).listNotes({ trashed: true })
+    setNotes(trashed.sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()))
+  }
+
+  const runAction = async (action: () => Promise<number>, expected: number, failure: string) => {
+    setIsWorking(true)
+    const done = await action()
+    setIsWorking(false)
+
+    if (done < expected) {
+      alert(failure)
+    }
+    await loadTrash()
+    onNotesChanged?.()
+  }
+
+  const restoreNotes = (toRestore: NoteRecord[]) =>
+    runAction(
+      () => getFileStorage().restoreFromTrash(toRestore),
+      toRestore.length,
+      "Some notes could not be restored. If they are saved in your diary folder, reconnect the folder and try again.",
+    )
+
+  const purgeNotes = (toPurge: NoteRecord[]) => {
+    const message =
+      toPurge.length === 1
+        ? `Permanently delete "${toPurge[0].title}"? This cannot be undone.`
+        : `Permanently delete all ${toPurge.length} notes in the trash? This cannot be undone.`
+    if (!confirm(message)) return
+
+    return runAction(
+      () => getFileStorage().purgeNotes(toPurge),
+      toPurge.length,
+      "Some notes could not be deleted. If they are saved in your diary folder, reconnect the folder and try again.",
+    )
+  }
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    })
+  }
+
+  const describeExpiry = (note: NoteRecord) => {
+    if (retentionDays <= 0) return null
+    const daysLeft = Math.ceil((new Date(note.deletedAt!).getTime() + retentionDays * DAY - Date.now()) / DAY)
+    return daysLeft <= 1 ? "Deleted permanently within a day" : `Deleted permanently in ${daysLeft} days`
+  }
+
+  const getTypeIcon = (type: string) => {
+    switch (type) {
+      case "audio":
+        return <Mic className="h-5 w-5 text-green-500" />
+      case "video":
+        return <Video className="h-5 w-5 text-purple-500" />
+      case "photo":
+        return <ImageIcon className="h-5 w-5 text-pink-500" />
+      default:
+        return <FileText className="h-5 w-5 text-blue-500" />
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5" />
+              <span>Trash</span>
+            </CardTitle>
+            <CardDescription>
+              {retentionDays > 0
+                ? `Notes in the trash are deleted permanently after ${retentionDays} days.`
+                : "Notes stay in the trash until you delete them."}
+            </CardDescription>
+          </div>
+          {notes.length > 0 && (
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => restoreNotes(notes)} disabled={isWorking}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore All
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => purgeNotes(notes)} disabled={isWorking}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty Trash
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {notes.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">The trash is empty</p>
+        ) : (
+          <div className="space-y-3">
+            {notes.map((note) => (
+              <div key={note.id} className="flex items-center space-x-3 p-3 border rounded-lg">
+                {getTypeIcon(note.type)}
+                <MixedMediaIcons note={note} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{note.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Written {formatDate(note.date)} • Deleted {formatDate(note.deletedAt!)}
+                  </p>
+                  {describeExpiry(note) && <p className="text-xs text-muted-foreground">{describeExpiry(note)}</p>}
+                </div>
+                {note.missing && (
+                  <Badge variant="outline" className="text-xs">
+                    File missing
+                  </Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => restoreNotes([note])} disabled={isWorking}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => purgeNotes([note])}
+                  disabled={isWorking}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
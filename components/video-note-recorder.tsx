@@ -7,17 +7,29 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Video, Square, Play, Pause, Save, Trash2, Download, Camera, Mic, MicOff } from "lucide-react"
+import { NoteLockControl } from "@/components/note-lock-control"
+import { captureFrame, openCamera, stopCamera } from "@/lib/camera"
+import { getExtensionForMimeType, pickRecorderMimeType } from "@/lib/media-formats"
 
 interface VideoNoteRecorderProps {
   initialTitle?: string
   onSave: (title: string, videoBlob: Blob, thumbnailBlob: Blob, duration: number) => void
   onCancel: () => void
+  // Shows a control to lock the note with a passphrase, see NoteLockControl
+  locked?: boolean
+  onLockChange?: (passphrase: string | null) => void
 }
 
 type RecordingState = "idle" | "recording" | "paused" | "stopped"
 type VideoFilter = "none" | "grayscale" | "sepia" | "blur" | "brightness" | "contrast"
 
-export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: VideoNoteRecorderProps) {
+export function VideoNoteRecorder({
+  initialTitle = "",
+  onSave,
+  onCancel,
+  locked,
+  onLockChange,
+}: VideoNoteRecorderProps) {
   const [title, setTitle] = useState(initialTitle)
   const [recordingState, setRecordingState] = useState<RecordingState>("idle")
   const [duration, setDuration] = useState(0)
@@ -52,9 +64,7 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
 
   const cleanup = () => {
     if (intervalRef.current) clearInterval(intervalRef.current)
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop())
-    }
+    stopCamera(streamRef.current)
     if (videoUrl) {
       URL.revokeObjectURL(videoUrl)
     }
@@ -62,18 +72,9 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
 
   const initializeCamera = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 },
-        audio: audioEnabled,
-      })
-      streamRef.current = stream
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
-        videoRef.current.onloadedmetadata = () => {
-          setCameraReady(true)
-        }
-      }
+      streamRef.current = await openCamera(videoRef.current, { width: 640, height: 480, audio: audioEnabled }, () =>
+        setCameraReady(true),
+      )
     } catch (error) {
       console.error("Error accessing camera:", error)
       alert("Could not access camera. Please check permissions.")
@@ -143,9 +144,9 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
         recordingStream = canvasStream
       }
 
-      mediaRecorderRef.current = new MediaRecorder(recordingStream, {
-        mimeType: "video/webm",
-      })
+      // Prefer MP4 where the browser can record it, WebM otherwise
+      const mimeType = pickRecorderMimeType("video")
+      mediaRecorderRef.current = new MediaRecorder(recordingStream, mimeType ? { mimeType } : undefined)
       chunksRef.current = []
 
       mediaRecorderRef.current.ondataavailable = (event) => {
@@ -155,7 +156,9 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
       }
 
       mediaRecorderRef.current.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: "video/webm" })
+        const blob = new Blob(chunksRef.current, {
+          type: mediaRecorderRef.current?.mimeType || mimeType || "video/webm",
+        })
         setVideoBlob(blob)
         const url = URL.createObjectURL(blob)
         setVideoUrl(url)
@@ -209,26 +212,11 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
   const generateThumbnail = async () => {
     if (!videoRef.current) return
 
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    canvas.width = 320
-    canvas.height = 240
-
-    // Draw current video frame
-    ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height)
-
-    // Convert to blob
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          setThumbnailBlob(blob)
-        }
-      },
-      "image/jpeg",
-      0.8,
-    )
+    // Current video frame
+    const blob = await captureFrame(videoRef.current, 320, 240)
+    if (blob) {
+      setThumbnailBlob(blob)
+    }
   }
 
   const playVideo = () => {
@@ -252,10 +240,10 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
   }
 
   const downloadVideo = () => {
-    if (videoUrl && title) {
+    if (videoUrl && videoBlob && title) {
       const a = document.createElement("a")
       a.href = videoUrl
-      a.download = `${title}.webm`
+      a.download = `${title}${getExtensionForMimeType(videoBlob.type, "video")}`
       a.click()
     }
   }
@@ -275,9 +263,7 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
   const toggleAudio = async () => {
     setAudioEnabled(!audioEnabled)
     // Reinitialize camera with new audio setting
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop())
-    }
+    stopCamera(streamRef.current)
     setCameraReady(false)
     await initializeCamera()
   }
@@ -315,6 +301,7 @@ export function VideoNoteRecorder({ initialTitle = "", onSave, onCancel }: Video
             />
           </div>
           <div className="flex items-center space-x-2">
+            {onLockChange && <NoteLockControl locked={!!locked} onLockChange={onLockChange} />}
             <Button variant="outline" onClick={onCancel}>
               Cancel
             </Button>
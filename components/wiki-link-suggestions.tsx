@@ -0,0 +1,38 @@
+"use client"
+
+import type { LinkSuggestion } from "@/lib/note-links"
+
+interface WikiLinkSuggestionsProps {
+  suggestions: LinkSuggestion[]
+  activeIndex: number
+  // Below the caret, relative to the positioned editor area
+  position: { top: number; left: number }
+  onSelect: (suggestion: LinkSuggestion) => void
+}
+
+export function WikiLinkSuggestions({ suggestions, activeIndex, position, onSelect }: WikiLinkSuggestionsProps) {
+  if (suggestions.length === 0) return null
+
+  return (
+    <div
+      className="absolute z-50 w-72 rounded-md border bg-popover text-popover-foreground shadow-md py-1"
+      style={{ top: position.top, left: position.left }}
+    >
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={`${suggestion.target}-${suggestion.note.id}`}
+          type="button"
+          // Keep the caret in the editor
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`w-full text-left px-3 py-1.5 text-sm hover:bg-muted ${index === activeIndex ? "bg-muted" : ""}`}
+        >
+          <span className="block truncate">{suggestion.target}</span>
+          {suggestion.target !== suggestion.note.title && (
+            <span className="block truncate text-xs text-muted-foreground">{suggestion.note.title}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+// Camera access shared by the video recorder and the photo capture
+
+export interface CameraOptions {
+  width: number
+  height: number
+  audio?: boolean
+}
+
+// Ask for the camera and show it in a video element; onReady runs once the first frame has a size
+export async function openCamera(
+  video: HTMLVideoElement | null,
+  { width, height, audio = false }: CameraOptions,
+  onReady: () => void,
+): Promise<MediaStream> {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: { width, height }, audio })
+
+  if (video) {
+    video.srcObject = stream
+    video.onloadedmetadata = onReady
+  }
+  return stream
+}
+
+export function stopCamera(stream: MediaStream | null): void {
+  stream?.getTracks().forEach((track) => track.stop())
+}
+
+// Draw a frame, picture or canvas at the given size and encode it as JPEG
+export function captureFrame(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  quality = 0.8,
+): Promise<Blob | null> {
+  const canvas = document.createElement("canvas")
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return Promise.resolve(null)
+
+  canvas.width = width
+  canvas.height = height
+  ctx.drawImage(source, 0, 0, width, height)
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", quality))
+}
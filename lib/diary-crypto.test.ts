@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import {
+  createEncryptionConfig,
+  decryptBlob,
+  decryptText,
+  deriveDiaryKey,
+  encryptBlob,
+  encryptText,
+  fromBase64,
+  isEncryptedBlob,
+  isEncryptedText,
+  toBase64,
+  wrapDiaryKey,
+} from "@/lib/diary-crypto"
+
+// Fewer iterations than the real config, to keep the tests fast
+const createTestConfig = () => ({ ...createEncryptionConfig(), iterations: 1000 })
+
+describe("base64", () => {
+  it("round-trips bytes, including large arrays", () => {
+    const bytes = new Uint8Array(100000).map((_, index) => index % 256)
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes)
+  })
+})
+
+describe("text encryption", () => {
+  it("decrypts what it encrypted", async () => {
+    const key = await deriveDiaryKey("correct horse", createTestConfig())
+    const encrypted = await encryptText(key, "Dear diary, ünïcödé 🎉")
+
+    expect(isEncryptedText(encrypted)).toBe(true)
+    expect(encrypted).not.toContain("Dear diary")
+    expect(await decryptText(key, encrypted)).toBe("Dear diary, ünïcödé 🎉")
+  })
+
+  it("passes plaintext through and needs the key for encrypted text", async () => {
+    const key = await deriveDiaryKey("correct horse", createTestConfig())
+    expect(await decryptText(null, "written before encryption")).toBe("written before encryption")
+    await expect(decryptText(null, await encryptText(key, "secret"))).rejects.toThrow("Diary is locked")
+  })
+
+  it("fails with a key from another password", async () => {
+    const config = createTestConfig()
+    const encrypted = await encryptText(await deriveDiaryKey("right", config), "secret")
+    await expect(decryptText(await deriveDiaryKey("wrong", config), encrypted)).rejects.toThrow()
+  })
+})
+
+describe("blob encryption", () => {
+  it("decrypts what it encrypted and keeps the MIME type", async () => {
+    const key = await deriveDiaryKey("correct horse", createTestConfig())
+    const blob = new Blob([new Uint8Array([1, 2, 3, 4, 5])], { type: "audio/webm" })
+    const encrypted = await encryptBlob(key, blob)
+
+    expect(encrypted.type).toBe("audio/webm")
+    expect(await isEncryptedBlob(encrypted)).toBe(true)
+    const decrypted = await decryptBlob(key, encrypted)
+    expect(decrypted.type).toBe("audio/webm")
+    expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4, 5]))
+  })
+
+  it("passes unencrypted blobs through", async () => {
+    const blob = new Blob(["plain"], { type: "text/plain" })
+    expect(await isEncryptedBlob(blob)).toBe(false)
+    expect(await decryptBlob(null, blob)).toBe(blob)
+  })
+})
+
+describe("wrapDiaryKey", () => {
+  it("protects the same key with a new password", async () => {
+    const key = await deriveDiaryKey("old password", createTestConfig())
+    const encrypted = await encryptText(key, "written with the old password")
+
+    const config = await wrapDiaryKey("new password", key)
+    expect(config.wrappedKey).toBeDefined()
+    const unwrapped = await deriveDiaryKey("new password", config)
+    expect(await decryptText(unwrapped, encrypted)).toBe("written with the old password")
+  })
+
+  it("does not unwrap with the wrong password", async () => {
+    const key = await deriveDiaryKey("old password", createTestConfig())
+    const config = await wrapDiaryKey("new password", key)
+    await expect(deriveDiaryKey("old password", config)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,221 @@
+// Encryption of note content and media with a key derived from the user's password.
+// The key is only ever held in memory; anything written before encryption was enabled
+// stays readable as plaintext until it is saved again or re-encrypted.
+
+const PBKDF2_ITERATIONS = 310000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// Encrypted text is this prefix followed by base64 of the IV and ciphertext
+const TEXT_PREFIX = "mydiary-enc:v1:"
+// Encrypted blobs start with these bytes, followed by the IV and ciphertext
+const BLOB_MAGIC = new TextEncoder().encode("MYDIARYENC1")
+
+export interface EncryptionConfig {
+  salt: string
+  iterations: number
+  // Set once the diary key no longer comes from the password (after a password reset with
+  // the recovery key): the key itself, wrapped with the password-derived key
+  wrappedKey?: string
+}
+
+// A copy of the config is kept in the root of the diary folder, so the notes there can still be
+// opened with the password after the browser's data is cleared or on another machine
+export const ENCRYPTION_CONFIG_FILE = "mydiary-encryption.json"
+const ENCRYPTION_CONFIG_VERSION = 1
+
+const sessionKeys = new Map<string, CryptoKey>()
+
+const configKey = (username: string) => `mydiary_encryption_${username}`
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function getEncryptionConfig(username: string): EncryptionConfig | null {
+  const raw = localStorage.getItem(configKey(username))
+  return raw ? JSON.parse(raw) : null
+}
+
+export function saveEncryptionConfig(username: string, config: EncryptionConfig): void {
+  localStorage.setItem(configKey(username), JSON.stringify(config))
+}
+
+export function removeEncryptionConfig(username: string): void {
+  localStorage.removeItem(configKey(username))
+}
+
+export function createEncryptionConfigFile(config: EncryptionConfig): Blob {
+  const data = { version: ENCRYPTION_CONFIG_VERSION, ...config }
+  return new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+}
+
+// Parse the copy kept in a diary folder, ignoring anything that does not look like one
+export async function readEncryptionConfigFile(blob: Blob | null): Promise<EncryptionConfig | null> {
+  if (!blob) return null
+
+  try {
+    const data = JSON.parse(await blob.text())
+    if (typeof data?.salt !== "string" || typeof data?.iterations !== "number") return null
+    return {
+      salt: data.salt,
+      iterations: data.iterations,
+      ...(typeof data.wrappedKey === "string" ? { wrappedKey: data.wrappedKey } : {}),
+    }
+  } catch {
+    return null
+  }
+}
+
+export function isSameEncryptionConfig(a: EncryptionConfig, b: EncryptionConfig): boolean {
+  return a.salt === b.salt && a.iterations === b.iterations && a.wrappedKey === b.wrappedKey
+}
+
+// A fresh salt, used when encryption is first enabled and whenever the password changes
+export function createEncryptionConfig(): EncryptionConfig {
+  return {
+    salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+    iterations: PBKDF2_ITERATIONS,
+  }
+}
+
+async function derivePasswordKey(password: string, config: EncryptionConfig, usages: KeyUsage[]): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  // Extractable so the recovery key can keep a wrapped copy of the diary key
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(config.salt), iterations: config.iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    usages,
+  )
+}
+
+export async function deriveDiaryKey(password: string, config: EncryptionConfig): Promise<CryptoKey> {
+  if (!config.wrappedKey) return derivePasswordKey(password, config, ["encrypt", "decrypt"])
+
+  const wrappingKey = await derivePasswordKey(password, config, ["wrapKey", "unwrapKey"])
+  const payload = fromBase64(config.wrappedKey)
+  return crypto.subtle.unwrapKey(
+    "raw",
+    payload.subarray(IV_BYTES),
+    wrappingKey,
+    { name: "AES-GCM", iv: payload.subarray(0, IV_BYTES) },
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"],
+  )
+}
+
+// Protect an existing diary key with a new password, without re-encrypting any notes
+export async function wrapDiaryKey(password: string, key: CryptoKey): Promise<EncryptionConfig> {
+  const config = createEncryptionConfig()
+  const wrappingKey = await derivePasswordKey(password, config, ["wrapKey", "unwrapKey"])
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const wrapped = new Uint8Array(await crypto.subtle.wrapKey("raw", key, wrappingKey, { name: "AES-GCM", iv }))
+
+  const payload = new Uint8Array(IV_BYTES + wrapped.length)
+  payload.set(iv)
+  payload.set(wrapped, IV_BYTES)
+  return { ...config, wrappedKey: toBase64(payload) }
+}
+
+export function getSessionKey(username: string): CryptoKey | null {
+  return sessionKeys.get(username) ?? null
+}
+
+export function setSessionKey(username: string, key: CryptoKey): void {
+  sessionKeys.set(username, key)
+}
+
+export function clearSessionKey(username: string): void {
+  sessionKeys.delete(username)
+}
+
+export function isDiaryUnlocked(username: string): boolean {
+  return sessionKeys.has(username)
+}
+
+// Derive the session key from the login password. Returns true when encryption was
+// enabled just now, so content written before needs encrypting.
+export async function unlockDiary(username: string, password: string): Promise<boolean> {
+  const existing = getEncryptionConfig(username)
+  const config = existing ?? createEncryptionConfig()
+  setSessionKey(username, await deriveDiaryKey(password, config))
+
+  if (!existing) saveEncryptionConfig(username, config)
+  return !existing
+}
+
+export function isEncryptedText(value: string): boolean {
+  return value.startsWith(TEXT_PREFIX)
+}
+
+export async function isEncryptedBlob(blob: Blob): Promise<boolean> {
+  if (blob.size < BLOB_MAGIC.length + IV_BYTES) return false
+
+  const header = new Uint8Array(await blob.slice(0, BLOB_MAGIC.length).arrayBuffer())
+  return header.every((byte, index) => byte === BLOB_MAGIC[index])
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text)),
+  )
+
+  const payload = new Uint8Array(IV_BYTES + ciphertext.length)
+  payload.set(iv)
+  payload.set(ciphertext, IV_BYTES)
+  return TEXT_PREFIX + toBase64(payload)
+}
+
+// Plaintext passes through unchanged; encrypted text needs the key it was written with
+export async function decryptText(key: CryptoKey | null, value: string): Promise<string> {
+  if (!isEncryptedText(value)) return value
+  if (!key) throw new Error("Diary is locked")
+
+  const payload = fromBase64(value.slice(TEXT_PREFIX.length))
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: payload.subarray(0, IV_BYTES) },
+    key,
+    payload.subarray(IV_BYTES),
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+// The encrypted blob keeps the original MIME type so backends still store it under the right kind
+export async function encryptBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, await blob.arrayBuffer())
+  return new Blob([BLOB_MAGIC, iv, ciphertext], { type: blob.type })
+}
+
+export async function decryptBlob(key: CryptoKey | null, blob: Blob): Promise<Blob> {
+  if (!(await isEncryptedBlob(blob))) return blob
+  if (!key) throw new Error("Diary is locked")
+
+  const data = new Uint8Array(await blob.arrayBuffer())
+  const ivEnd = BLOB_MAGIC.length + IV_BYTES
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: data.subarray(BLOB_MAGIC.length, ivEnd) },
+    key,
+    data.subarray(ivEnd),
+  )
+  return new Blob([plaintext], { type: blob.type })
+}
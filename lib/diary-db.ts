@@ -0,0 +1,136 @@
+// Per-user IndexedDB database shared by the note repository and storage helpers
+
+const DB_VERSION = 5
+
+export const NOTES_STORE = "notes"
+export const BLOBS_STORE = "blobs"
+export const FILES_STORE = "files"
+export const HANDLES_STORE = "handles"
+export const REVISIONS_STORE = "revisions"
+export const DRAFTS_STORE = "drafts"
+
+const connections = new Map<string, Promise<IDBDatabase>>()
+
+// Check if IndexedDB is available in this environment
+export function isIndexedDbSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window
+}
+
+// Open (and create or upgrade) the diary database for a user
+export function openDiaryDatabase(username: string): Promise<IDBDatabase> {
+  const existing = connections.get(username)
+  if (existing) return existing
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`mydiary_${username}`, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+
+      if (event.oldVersion < 1) {
+        const notes = db.createObjectStore(NOTES_STORE, { keyPath: "id" })
+        notes.createIndex("date", "date")
+        notes.createIndex("type", "type")
+        notes.createIndex("tags", "tags", { multiEntry: true })
+        notes.createIndex("mood", "mood")
+
+        const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: "key" })
+        blobs.createIndex("noteId", "noteId")
+      }
+
+      if (event.oldVersion < 2) {
+        db.createObjectStore(FILES_STORE, { keyPath: "path" })
+      }
+
+      if (event.oldVersion < 3) {
+        db.createObjectStore(HANDLES_STORE)
+      }
+
+      if (event.oldVersion < 4) {
+        const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: "id" })
+        revisions.createIndex("noteId", "noteId")
+      }
+
+      if (event.oldVersion < 5) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: "id" })
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        connections.delete(username)
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => {
+      connections.delete(username)
+      reject(request.error)
+    }
+  })
+
+  connections.set(username, connection)
+  return connection
+}
+
+// Delete the whole diary database for a user
+export async function deleteDiaryDatabase(username: string): Promise<void> {
+  const existing = connections.get(username)
+  if (existing) {
+    const db = await existing
+    db.close()
+    connections.delete(username)
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(`mydiary_${username}`)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Copy every store of a user's database to another user name, then delete the original
+export async function renameDiaryDatabase(from: string, to: string): Promise<void> {
+  const source = await openDiaryDatabase(from)
+  const target = await openDiaryDatabase(to)
+
+  for (const name of Array.from(source.objectStoreNames)) {
+    const store = source.transaction(name, "readonly").objectStore(name)
+    const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())])
+
+    const transaction = target.transaction(name, "readwrite")
+    const targetStore = transaction.objectStore(name)
+    targetStore.clear()
+    values.forEach((value, index) => {
+      // Stores without a key path (directory handles) need their keys passed explicitly
+      if (targetStore.keyPath === null) {
+        targetStore.put(value, keys[index])
+      } else {
+        targetStore.put(value)
+      }
+    })
+    await transactionDone(transaction)
+  }
+
+  await deleteDiaryDatabase(from)
+}
+
+// Resolve an IDBRequest as a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolve once a transaction has committed
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,26 @@
+import { HANDLES_STORE, openDiaryDatabase, requestToPromise, transactionDone } from "@/lib/diary-db"
+
+// FileSystemDirectoryHandle is structured-cloneable, so IndexedDB can keep it across sessions
+const DIRECTORY_KEY = "diary-directory"
+
+export type DirectoryAccessState = "none" | "granted" | "prompt" | "denied"
+
+export async function saveDirectoryHandle(username: string, handle: FileSystemDirectoryHandle): Promise<void> {
+  const db = await openDiaryDatabase(username)
+  const transaction = db.transaction(HANDLES_STORE, "readwrite")
+  transaction.objectStore(HANDLES_STORE).put(handle, DIRECTORY_KEY)
+  await transactionDone(transaction)
+}
+
+export async function loadDirectoryHandle(username: string): Promise<FileSystemDirectoryHandle | null> {
+  const db = await openDiaryDatabase(username)
+  const store = db.transaction(HANDLES_STORE, "readonly").objectStore(HANDLES_STORE)
+  return (await requestToPromise(store.get(DIRECTORY_KEY))) ?? null
+}
+
+export async function clearDirectoryHandle(username: string): Promise<void> {
+  const db = await openDiaryDatabase(username)
+  const transaction = db.transaction(HANDLES_STORE, "readwrite")
+  transaction.objectStore(HANDLES_STORE).delete(DIRECTORY_KEY)
+  await transactionDone(transaction)
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { parseExifDate, readPhotoDate } from "@/lib/exif"
+
+// A JPEG holding only an EXIF segment: IFD0 points to an EXIF IFD with the given date tag
+function createJpeg(date: string, { littleEndian = false, tag = 0x9003 } = {}): Blob {
+  const tiff = new DataView(new ArrayBuffer(64))
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d)
+  tiff.setUint16(2, 42, littleEndian)
+  tiff.setUint32(4, 8, littleEndian)
+  // IFD0 at 8: one entry, the pointer to the EXIF IFD at 26
+  tiff.setUint16(8, 1, littleEndian)
+  tiff.setUint16(10, 0x8769, littleEndian)
+  tiff.setUint16(12, 4, littleEndian)
+  tiff.setUint32(14, 1, littleEndian)
+  tiff.setUint32(18, 26, littleEndian)
+  // EXIF IFD at 26: one ASCII entry whose value is at 44
+  tiff.setUint16(26, 1, littleEndian)
+  tiff.setUint16(28, tag, littleEndian)
+  tiff.setUint16(30, 2, littleEndian)
+  tiff.setUint32(32, date.length + 1, littleEndian)
+  tiff.setUint32(36, 44, littleEndian)
+  new Uint8Array(tiff.buffer).set(new TextEncoder().encode(date), 44)
+
+  const header = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, 0, ...new TextEncoder().encode("Exif"), 0, 0])
+  new DataView(header.buffer).setUint16(4, 2 + 6 + tiff.byteLength)
+  return new Blob([header, tiff.buffer, new Uint8Array([0xff, 0xda, 0, 2])], { type: "image/jpeg" })
+}
+
+describe("readPhotoDate", () => {
+  it("reads DateTimeOriginal in the camera's local time", async () => {
+    expect(await readPhotoDate(createJpeg("2024:06:01 18:30:05"))).toEqual(new Date(2024, 5, 1, 18, 30, 5))
+  })
+
+  it("reads little-endian files", async () => {
+    const date = await readPhotoDate(createJpeg("2023:12:24 09:00:00", { littleEndian: true }))
+    expect(date).toEqual(new Date(2023, 11, 24, 9, 0, 0))
+  })
+
+  it("falls back to DateTimeDigitized", async () => {
+    const date = await readPhotoDate(createJpeg("2022:01:02 03:04:05", { tag: 0x9004 }))
+    expect(date).toEqual(new Date(2022, 0, 2, 3, 4, 5))
+  })
+
+  it("returns null without a usable date", async () => {
+    expect(await readPhotoDate(createJpeg("0000:00:00 00:00:00"))).toBeNull()
+    expect(await readPhotoDate(new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: "image/png" }))).toBeNull()
+    expect(await readPhotoDate(new Blob([]))).toBeNull()
+  })
+})
+
+describe("parseExifDate", () => {
+  it("parses the EXIF date format", () => {
+    expect(parseExifDate("2024:06:01 18:30:05")).toEqual(new Date(2024, 5, 1, 18, 30, 5))
+  })
+
+  it("rejects anything else", () => {
+    expect(parseExifDate("2024-06-01")).toBeNull()
+    expect(parseExifDate("    :  :     :  :  ")).toBeNull()
+  })
+})
@@ -0,0 +1,101 @@
+// Reads when a photo was taken from the EXIF data of a JPEG. Only the date is needed, so this walks
+// the TIFF directories for DateTimeOriginal instead of pulling in a full EXIF library.
+
+const JPEG_START = 0xffd8
+const APP1_MARKER = 0xffe1
+const START_OF_SCAN = 0xffda
+// Cameras put EXIF first, so the beginning of the file is enough
+const HEADER_BYTES = 256 * 1024
+
+const EXIF_IFD_POINTER = 0x8769
+const DATE_TIME_ORIGINAL = 0x9003
+const DATE_TIME_DIGITIZED = 0x9004
+const DATE_TIME = 0x0132
+
+// "2024:06:01 18:30:05", in the camera's local time
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/
+
+// The date a photo was taken, or null when the file has no usable EXIF date
+export async function readPhotoDate(file: Blob): Promise<Date | null> {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer())
+    const tiffStart = findExifData(view)
+    return tiffStart === null ? null : readDateFromTiff(view, tiffStart)
+  } catch (error) {
+    console.log("[v0] Could not read the photo's EXIF data:", error)
+    return null
+  }
+}
+
+// Offset of the TIFF header inside the APP1 "Exif" segment
+function findExifData(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_START) return null
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === START_OF_SCAN) return null
+
+    const length = view.getUint16(offset + 2)
+    if (marker === APP1_MARKER && offset + 10 <= view.byteLength && readAscii(view, offset + 4, 4) === "Exif") {
+      return offset + 10
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+function readDateFromTiff(view: DataView, start: number): Date | null {
+  const order = view.getUint16(start)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const littleEndian = order === 0x4949
+
+  const firstDirectory = start + view.getUint32(start + 4, littleEndian)
+  const main = readDirectory(view, firstDirectory, littleEndian)
+  const exifPointer = main.get(EXIF_IFD_POINTER)
+  const exif =
+    exifPointer !== undefined ? readDirectory(view, start + exifPointer, littleEndian) : new Map<number, number>()
+
+  for (const [directory, tag] of [
+    [exif, DATE_TIME_ORIGINAL],
+    [exif, DATE_TIME_DIGITIZED],
+    [main, DATE_TIME],
+  ] as const) {
+    const valueOffset = directory.get(tag)
+    if (valueOffset === undefined) continue
+    const date = parseExifDate(readAscii(view, start + valueOffset, 19))
+    if (date) return date
+  }
+  return null
+}
+
+// Tag -> value of the entries in one image file directory; values that are offsets count from the TIFF header
+function readDirectory(view: DataView, offset: number, littleEndian: boolean): Map<number, number> {
+  const entries = new Map<number, number>()
+  if (offset + 2 > view.byteLength) return entries
+
+  const count = view.getUint16(offset, littleEndian)
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12
+    if (entry + 12 > view.byteLength) break
+    entries.set(view.getUint16(entry, littleEndian), view.getUint32(entry + 8, littleEndian))
+  }
+  return entries
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = ""
+  for (let index = offset; index < Math.min(offset + length, view.byteLength); index++) {
+    text += String.fromCharCode(view.getUint8(index))
+  }
+  return text
+}
+
+export function parseExifDate(value: string): Date | null {
+  const match = value.match(EXIF_DATE_PATTERN)
+  if (!match) return null
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes, seconds)
+  return year > 1900 && !Number.isNaN(date.getTime()) ? date : null
+}
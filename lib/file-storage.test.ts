@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import "fake-indexeddb/auto"
+import { Blob as NodeBlob } from "node:buffer"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import {
+  clearSessionKey,
+  createEncryptionConfig,
+  deriveDiaryKey,
+  encryptBlob,
+  ENCRYPTION_CONFIG_FILE,
+  getEncryptionConfig,
+  readEncryptionConfigFile,
+  saveEncryptionConfig,
+  setSessionKey,
+  unlockDiary,
+} from "@/lib/diary-crypto"
+import { FileStorageManager } from "@/lib/file-storage"
+import { getNoteRepository } from "@/lib/note-repository"
+import { IndexedDbBackend } from "@/lib/storage-backends"
+
+// Fewer iterations than the real config, to keep the tests fast
+const createTestConfig = () => ({ ...createEncryptionConfig(), iterations: 1000 })
+
+// jsdom's Blob cannot be read back as an ArrayBuffer, which encryption needs
+beforeAll(() => {
+  vi.stubGlobal("Blob", NodeBlob)
+})
+
+describe("scanDirectory", () => {
+  it("imports the readable files when one of them cannot be read", async () => {
+    const username = "scan-failure"
+    const key = await deriveDiaryKey("secret", createTestConfig())
+    const otherKey = await deriveDiaryKey("another diary", createTestConfig())
+    setSessionKey(username, key)
+
+    const backend = new IndexedDbBackend(username)
+    await backend.save("Text/Plain note.txt", new Blob(["Written outside the app"], { type: "text/plain" }))
+    await backend.save("Text/Sealed note.txt", await encryptBlob(key, new Blob(["Sealed"], { type: "text/plain" })))
+    await backend.save("Text/Broken note.txt", await encryptBlob(otherKey, new Blob(["?"], { type: "text/plain" })))
+
+    const storage = new FileStorageManager({ username, diaryPath: "", backend: "indexeddb", filenamePattern: "" })
+    const result = await storage.scanDirectory()
+
+    expect(result?.failed).toEqual(["Text/Broken note.txt"])
+    expect(result?.imported.map((note) => note.content).sort()).toEqual(["Sealed", "Written outside the app"])
+  })
+})
+
+describe("encryption config in the diary folder", () => {
+  it("rebuilds the index from the folder after the browser's data is cleared", async () => {
+    const username = "cleared-browser"
+    const config = createTestConfig()
+    saveEncryptionConfig(username, config)
+    await unlockDiary(username, "secret")
+
+    // The browser database stands in for the diary folder, since only the index is cleared below
+    const before = new FileStorageManager({ username, diaryPath: "", backend: "indexeddb", filenamePattern: "" })
+    const saved = await before.saveNoteToFile({
+      id: "1700000000000-abc123",
+      title: "Before",
+      type: "text",
+      content: "Kept in the folder",
+      date: "2024-05-01T09:00:00.000Z",
+      tags: ["kept"],
+    })
+    expect(saved).toBe(true)
+    const backend = new IndexedDbBackend(username)
+    expect(await readEncryptionConfigFile(await backend.load(ENCRYPTION_CONFIG_FILE))).toEqual(config)
+
+    localStorage.clear()
+    clearSessionKey(username)
+    await getNoteRepository(username).clear()
+
+    // Signing up again creates a new key, which cannot read the folder until the folder's key is adopted
+    saveEncryptionConfig(username, createTestConfig())
+    await unlockDiary(username, "secret")
+    const after = new FileStorageManager({ username, diaryPath: "", backend: "indexeddb", filenamePattern: "" })
+    expect(await after.isFolderReadable()).toBe(false)
+    expect(await after.adoptFolderEncryption("wrong password")).toBe(false)
+    expect(await after.adoptFolderEncryption("secret")).toBe(true)
+    expect(getEncryptionConfig(username)).toEqual(config)
+    expect(await after.isFolderReadable()).toBe(true)
+
+    const result = await after.scanDirectory()
+    expect(result?.failed).toEqual([])
+    expect(result?.imported).toHaveLength(1)
+    expect(result?.imported[0]).toMatchObject({
+      id: "1700000000000-abc123",
+      title: "Before",
+      content: "Kept in the folder",
+      tags: ["kept"],
+    })
+  })
+
+  it("replaces the folder's copy after a password change", async () => {
+    const username = "changed-password"
+    saveEncryptionConfig(username, createTestConfig())
+    await unlockDiary(username, "secret")
+    const storage = new FileStorageManager({ username, diaryPath: "", backend: "indexeddb", filenamePattern: "" })
+    const note = { id: "1", title: "Note", type: "text" as const, content: "Text", date: "2024-05-01", tags: [] }
+    expect(await storage.saveNoteToFile(note)).toBe(true)
+
+    // A password change keeps the session key and only replaces the config
+    const changed = { ...createTestConfig(), wrappedKey: "wrapped" }
+    saveEncryptionConfig(username, changed)
+    expect(await storage.isFolderReadable()).toBe(true)
+
+    const backend = new IndexedDbBackend(username)
+    expect(await readEncryptionConfigFile(await backend.load(ENCRYPTION_CONFIG_FILE))).toEqual(changed)
+  })
+})
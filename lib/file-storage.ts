@@ -1,27 +1,166 @@
+import {
+  createEncryptionConfigFile,
+  decryptBlob,
+  deriveDiaryKey,
+  encryptBlob,
+  ENCRYPTION_CONFIG_FILE,
+  getEncryptionConfig,
+  getSessionKey,
+  isEncryptedBlob,
+  isSameEncryptionConfig,
+  readEncryptionConfigFile,
+  saveEncryptionConfig,
+  setSessionKey,
+} from "@/lib/diary-crypto"
+import {
+  clearDirectoryHandle,
+  loadDirectoryHandle,
+  saveDirectoryHandle,
+  type DirectoryAccessState,
+} from "@/lib/directory-handles"
+import {
+  DEFAULT_FILENAME_PATTERN,
+  formatFilename,
+  parseFilename,
+  validateFilenamePattern,
+  withIdSuffix,
+} from "@/lib/note-filenames"
+import { ATTACHMENTS_DIRECTORY, getAttachmentPath, type NoteAttachment, type NoteClip } from "@/lib/note-attachments"
+import { isLockedText } from "@/lib/note-lock"
+import { getNoteRepository, type NoteFormat, type NoteMedia, type NoteRecord } from "@/lib/note-repository"
+import { createSidecar, getSidecarPath, isSidecarPath, readSidecar, type NoteSidecar } from "@/lib/note-sidecar"
+import { updateRecoveryWrap } from "@/lib/recovery-key"
+import {
+  createStorageBackend,
+  DirectoryHandleBackend,
+  IndexedDbBackend,
+  type StorageBackend,
+  type StorageBackendKind,
+  type StoredFileInfo,
+} from "@/lib/storage-backends"
+
+export type NoteType = "text" | "audio" | "video" | "photo"
+
 export interface FileStorageConfig {
   diaryPath: string
   username: string
+  backend: StorageBackendKind
+  filenamePattern: string
+}
+
+export const NOTE_TYPES: NoteType[] = ["text", "audio", "video", "photo"]
+
+// Folder each note type is stored under
+const NOTE_DIRECTORIES: Record<NoteType, string> = {
+  text: "Text",
+  audio: "Audio",
+  video: "Video",
+  photo: "Images",
+}
+
+// Deleted notes keep their Text/Audio/Video/Images path below this folder until purged
+export const TRASH_DIRECTORY = "Trash"
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export interface ScanResult {
+  imported: NoteRecord[]
+  updated: NoteRecord[]
+  missing: NoteRecord[]
+  // Paths of files that could not be read or imported, e.g. corrupt or encrypted with another key
+  failed: string[]
+}
+
+// Text files added from outside the app are Markdown when their extension says so
+function isMarkdownFilename(filename: string): boolean {
+  return /\.(md|markdown)$/i.test(filename)
 }
 
 export interface NoteFile {
   id: string
   title: string
-  type: "text" | "audio" | "video"
-  filename: string
+  type: NoteType
+  filename?: string
   content?: string
   blob?: Blob
+  thumbnail?: Blob
   date: string
   tags: string[]
   mood?: string
   duration?: number
+  // Content or blob and thumbnail are already locked, see note-lock. A photo's caption is its content.
+  locked?: boolean
+  format?: NoteFormat
+  // Files added to a text note since it was last saved, locked like its content
+  attachments?: NoteAttachment[]
+  // Every clip recorded into a text note, see NoteRecord
+  clips?: NoteClip[]
+}
+
+// Names of everything stored for a note: what it had before and what it gets now. Attachments taken
+// out of the text stay, so earlier revisions still show them; they go when the note is purged.
+function mergeAttachmentNames(previous: string[] = [], added: NoteAttachment[] = []): string[] | undefined {
+  const names = Array.from(new Set([...previous, ...added.map((attachment) => attachment.name)]))
+  return names.length > 0 ? names : undefined
 }
 
 export class FileStorageManager {
   private config: FileStorageConfig
-  private directoryHandle: FileSystemDirectoryHandle | null = null
+  private directoryBackend = new DirectoryHandleBackend()
+  // Handle restored from a previous session that still needs the user to re-grant access
+  private pendingDirectoryHandle: FileSystemDirectoryHandle | null = null
+  private fallbackBackend: IndexedDbBackend
+  // One instance per kind, so switching back and forth keeps what a memory backend holds
+  private otherBackends = new Map<StorageBackendKind, StorageBackend>()
+  private backend: StorageBackend
+  // Encryption config last written to or found in each backend, see storeEncryptionConfig
+  private storedEncryptionConfigs = new Map<StorageBackend, string>()
 
   constructor(config: FileStorageConfig) {
     this.config = config
+    this.fallbackBackend = new IndexedDbBackend(config.username)
+    this.backend = this.getBackend(config.backend)
+    this.setFilenamePattern(config.filenamePattern)
+  }
+
+  // Switch the backend new notes are written to
+  useBackend(kind: StorageBackendKind): void {
+    this.config.backend = kind
+    this.backend = this.getBackend(kind)
+  }
+
+  getConfig(): Readonly<FileStorageConfig> {
+    return this.config
+  }
+
+  getBackendKind(): StorageBackendKind {
+    return this.config.backend
+  }
+
+  // Pattern new files are named with; invalid patterns fall back to the default
+  setFilenamePattern(pattern: string): void {
+    this.config.filenamePattern = validateFilenamePattern(pattern) ? DEFAULT_FILENAME_PATTERN : pattern
+  }
+
+  getFilenamePattern(): string {
+    return this.config.filenamePattern
+  }
+
+  private getBackend(kind: StorageBackendKind): StorageBackend {
+    if (kind === "directory") return this.directoryBackend
+    if (kind === "indexeddb") return this.fallbackBackend
+
+    let backend = this.otherBackends.get(kind)
+    if (!backend) {
+      backend = createStorageBackend(kind, this.config.username)
+      this.otherBackends.set(kind, backend)
+    }
+    return backend
+  }
+
+  // The configured backend, or the browser database when it cannot be used right now
+  private async resolveBackend(): Promise<StorageBackend> {
+    if (await this.backend.isAvailable()) return this.backend
+    return this.fallbackBackend
   }
 
   // Check if File System Access API is supported
@@ -33,21 +172,22 @@ export class FileStorageManager {
   async initializeDirectoryStructure(): Promise<boolean> {
     try {
       if (!this.isFileSystemAccessSupported()) {
-        console.log("[v0] File System Access API not supported, using localStorage fallback")
+        console.log("[v0] File System Access API not supported, using browser storage fallback")
         return false
       }
 
       // Request directory access from user
-      this.directoryHandle = await window.showDirectoryPicker({
+      const directoryHandle = await window.showDirectoryPicker({
         mode: "readwrite",
         startIn: "documents",
       })
+      this.directoryBackend.setHandle(directoryHandle)
 
       // Create subdirectories
-      await this.createSubdirectories()
+      await this.createSubdirectories(directoryHandle)
 
       // Store directory handle reference
-      this.storeDirectoryReference()
+      await this.storeDirectoryReference(directoryHandle)
 
       console.log("[v0] Directory structure initialized successfully")
       return true
@@ -57,15 +197,13 @@ export class FileStorageManager {
     }
   }
 
-  // Create Text, Audio, Video subdirectories
-  private async createSubdirectories(): Promise<void> {
-    if (!this.directoryHandle) return
-
-    const subdirs = ["Text", "Audio", "Video"]
+  // Create the Text, Audio, Video, Images and Attachments subdirectories
+  private async createSubdirectories(directoryHandle: FileSystemDirectoryHandle): Promise<void> {
+    const subdirs = [...NOTE_TYPES.map((type) => NOTE_DIRECTORIES[type]), ATTACHMENTS_DIRECTORY]
 
     for (const subdir of subdirs) {
       try {
-        await this.directoryHandle.getDirectoryHandle(subdir, { create: true })
+        await directoryHandle.getDirectoryHandle(subdir, { create: true })
         console.log(`[v0] Created/verified ${subdir} directory`)
       } catch (error) {
         console.log(`[v0] Error creating ${subdir} directory:`, error)
@@ -73,126 +211,687 @@ export class FileStorageManager {
     }
   }
 
-  // Store directory handle reference (limited browser support)
-  private storeDirectoryReference(): void {
+  // Store directory handle in IndexedDB so it survives reloads
+  private async storeDirectoryReference(directoryHandle: FileSystemDirectoryHandle): Promise<void> {
     try {
-      // Store path preference in localStorage
       localStorage.setItem(`mydiary_directory_initialized_${this.config.username}`, "true")
+      await saveDirectoryHandle(this.config.username, directoryHandle)
+      this.pendingDirectoryHandle = null
     } catch (error) {
       console.log("[v0] Could not store directory reference:", error)
     }
   }
 
-  // Generate filename with timestamp and custom title
-  generateFilename(title: string, type: "text" | "audio" | "video", date: Date = new Date()): string {
-    const timestamp = date.toISOString().split("T")[0] // YYYY-MM-DD format
-    const sanitizedTitle = title.replace(/[^a-zA-Z0-9\s]/g, "").replace(/\s+/g, "_")
+  // Restore the directory chosen in an earlier session, if its permission is still granted
+  async restoreDirectoryHandle(): Promise<DirectoryAccessState> {
+    if (this.directoryBackend.getHandle()) return "granted"
+    if (!this.isDirectoryInitialized()) return "none"
 
-    const extensions = {
-      text: ".txt",
-      audio: ".mp3",
-      video: ".mp4",
+    try {
+      const directoryHandle = await loadDirectoryHandle(this.config.username)
+      if (!directoryHandle) return "none"
+
+      const permission = await directoryHandle.queryPermission({ mode: "readwrite" })
+      if (permission === "granted") {
+        this.directoryBackend.setHandle(directoryHandle)
+        this.pendingDirectoryHandle = null
+        console.log("[v0] Restored diary directory from previous session")
+      } else {
+        this.pendingDirectoryHandle = directoryHandle
+      }
+      return permission
+    } catch (error) {
+      console.log("[v0] Could not restore directory handle:", error)
+      return "none"
     }
+  }
+
+  // Ask the user to re-grant access to the stored directory; must run from a user gesture
+  async reconnectDirectory(): Promise<boolean> {
+    const directoryHandle = this.pendingDirectoryHandle
+    if (!directoryHandle) return this.directoryBackend.getHandle() !== null
 
-    return `${timestamp}_${sanitizedTitle}${extensions[type]}`
+    try {
+      const permission = await directoryHandle.requestPermission({ mode: "readwrite" })
+      if (permission !== "granted") return false
+
+      this.directoryBackend.setHandle(directoryHandle)
+      this.pendingDirectoryHandle = null
+      await this.createSubdirectories(directoryHandle)
+      return true
+    } catch (error) {
+      console.log("[v0] Could not reconnect directory:", error)
+      return false
+    }
   }
 
-  // Save note to file system
+  // Generate a filename from the configured pattern; may contain "/" for nested folders
+  generateFilename(note: Pick<NoteFile, "id" | "title" | "type" | "date" | "blob">): string {
+    return formatFilename(this.config.filenamePattern, { ...note, mimeType: note.blob?.type })
+  }
+
+  // Never overwrite another note's file: add the note id when the generated name is taken
+  private async findAvailableFilename(backend: StorageBackend, note: NoteFile): Promise<string> {
+    const filename = this.generateFilename(note)
+    const path = this.getNotePath(note.type, filename)
+    if (!(await backend.stat(path))) return filename
+
+    const sidecar = await readSidecar(await backend.load(getSidecarPath(path)))
+    if (sidecar?.id === note.id) return filename
+
+    console.log(`[v0] ${filename} already exists, adding note id to the filename`)
+    return withIdSuffix(filename, note.id)
+  }
+
+  // Folder a note type is stored under, e.g. "Text", or "Images" for photos
+  getSubdirectoryName(type: NoteType): string {
+    return NOTE_DIRECTORIES[type]
+  }
+
+  // Note files are encrypted with the session key on every backend; sidecars stay readable
+  // so the folder can be re-indexed. Files added from outside the app are read as plaintext.
+  private async sealFile(backend: StorageBackend, data: Blob): Promise<Blob> {
+    const key = getSessionKey(this.config.username)
+    if (!key) throw new Error("Diary is locked")
+    if (!(await this.storeEncryptionConfig(backend))) throw new Error("Diary folder is encrypted with another key")
+    return encryptBlob(key, data)
+  }
+
+  // Keep a copy of the encryption config next to the notes, see ENCRYPTION_CONFIG_FILE. A different
+  // copy is only replaced when it protects the same key, e.g. after a password change; returns false
+  // when the folder was encrypted with another key.
+  private async storeEncryptionConfig(backend: StorageBackend): Promise<boolean> {
+    const config = getEncryptionConfig(this.config.username)
+    if (!config) return true
+
+    const data = JSON.stringify(config)
+    if (this.storedEncryptionConfigs.get(backend) === data) return true
+
+    const stored = await readEncryptionConfigFile(await backend.load(ENCRYPTION_CONFIG_FILE))
+    if (!stored || !isSameEncryptionConfig(stored, config)) {
+      if (stored && !(await this.canDecryptFiles(backend, getSessionKey(this.config.username)))) return false
+      await backend.save(ENCRYPTION_CONFIG_FILE, createEncryptionConfigFile(config))
+    }
+    this.storedEncryptionConfigs.set(backend, data)
+    return true
+  }
+
+  // Whether the first encrypted note file opens with the key; a folder without any does
+  private async canDecryptFiles(backend: StorageBackend, key: CryptoKey | null): Promise<boolean> {
+    for (const type of NOTE_TYPES) {
+      for (const file of await backend.list(this.getSubdirectoryName(type))) {
+        if (isSidecarPath(file.path)) continue
+
+        const data = await backend.load(file.path)
+        if (!data || !(await isEncryptedBlob(data))) continue
+        try {
+          await decryptBlob(key, data)
+          return true
+        } catch {
+          return false
+        }
+      }
+    }
+    return true
+  }
+
+  // False when the notes in the configured folder were encrypted with another key, e.g. on another
+  // machine or before this browser's data was cleared; adoptFolderEncryption can open them
+  async isFolderReadable(): Promise<boolean> {
+    if (!(await this.backend.isAvailable())) return true
+    return this.storeEncryptionConfig(this.backend)
+  }
+
+  // Switch the diary over to the key of the configured folder, re-encrypting what the browser holds.
+  // The folder's config becomes the diary's own, so the password must be the account's.
+  async adoptFolderEncryption(password: string): Promise<boolean> {
+    const backend = this.backend
+    const config = await readEncryptionConfigFile(await backend.load(ENCRYPTION_CONFIG_FILE))
+    if (!config) return false
+
+    let key: CryptoKey
+    try {
+      key = await deriveDiaryKey(password, config)
+    } catch {
+      return false
+    }
+    if (!(await this.canDecryptFiles(backend, key))) return false
+
+    const username = this.config.username
+    const previous = getSessionKey(username)
+    await getNoteRepository(username).reencrypt(previous, key)
+    for (const other of [this.fallbackBackend, ...this.otherBackends.values()]) {
+      if (other !== backend && (await other.isAvailable())) await this.reencryptFiles(other, previous, key)
+    }
+
+    saveEncryptionConfig(username, config)
+    setSessionKey(username, key)
+    await updateRecoveryWrap(username, key)
+    console.log("[v0] Switched diary to the encryption key of the diary folder")
+    return true
+  }
+
+  private async reencryptFiles(backend: StorageBackend, from: CryptoKey | null, to: CryptoKey): Promise<void> {
+    for (const file of await backend.list("")) {
+      const data = await backend.load(file.path)
+      if (!data || !(await isEncryptedBlob(data))) continue
+      await backend.save(file.path, await encryptBlob(to, await decryptBlob(from, data)))
+    }
+  }
+
+  private async readFile(backend: StorageBackend, path: string): Promise<Blob | null> {
+    const data = await backend.load(path)
+    return data ? decryptBlob(getSessionKey(this.config.username), data) : null
+  }
+
+  // Text notes are written as .txt, or as .md when they are Markdown
+  private toTextBlob(note: Pick<NoteFile, "content" | "format">): Blob {
+    return new Blob([note.content || ""], { type: note.format === "markdown" ? "text/markdown" : "text/plain" })
+  }
+
+  getNotePath(type: NoteType, filename: string): string {
+    return `${this.getSubdirectoryName(type)}/${filename}`
+  }
+
+  // Attachments are encrypted like the note files themselves
+  private async saveAttachments(backend: StorageBackend, attachments: NoteAttachment[] = []): Promise<void> {
+    for (const attachment of attachments) {
+      await backend.save(getAttachmentPath(attachment.name), await this.sealFile(backend, attachment.blob))
+    }
+  }
+
+  // Save note to the configured storage backend
   async saveNoteToFile(note: NoteFile): Promise<boolean> {
     try {
-      if (!this.directoryHandle) {
-        console.log("[v0] No directory handle available, falling back to localStorage")
-        return this.saveToLocalStorage(note)
+      const backend = await this.resolveBackend()
+      if (backend !== this.backend) {
+        console.log(`[v0] ${this.backend.kind} storage unavailable, falling back to browser storage`)
       }
 
-      const subdirName = note.type.charAt(0).toUpperCase() + note.type.slice(1) // Text, Audio, Video
-      const subdirHandle = await this.directoryHandle.getDirectoryHandle(subdirName)
+      const data = note.type === "text" ? this.toTextBlob(note) : note.blob
 
-      const filename = this.generateFilename(note.title, note.type, new Date(note.date))
-      const fileHandle = await subdirHandle.getFileHandle(filename, { create: true })
-      const writable = await fileHandle.createWritable()
-
-      if (note.type === "text") {
-        // Save text content
-        await writable.write(note.content || "")
-      } else {
-        // Save binary data (audio/video)
-        if (note.blob) {
-          await writable.write(note.blob)
-        }
+      if (!data) {
+        throw new Error("Note has no content to save")
       }
 
-      await writable.close()
+      const filename = await this.findAvailableFilename(backend, { ...note, blob: data })
+
+      const path = this.getNotePath(note.type, filename)
+      await this.saveAttachments(backend, note.attachments)
+      await backend.save(path, await this.sealFile(backend, data))
+      const savedFile = await backend.stat(path)
+
+      // Also save metadata to the note repository for quick access
+      const record = await this.saveMetadataToRepository(note, filename, backend.kind, savedFile?.lastModified)
 
-      // Also save metadata to localStorage for quick access
-      this.saveMetadataToLocalStorage(note, filename)
+      // ...and next to the file, so the folder can rebuild the index on another machine
+      await backend.save(getSidecarPath(path), createSidecar(record))
 
-      console.log(`[v0] Successfully saved ${note.type} note: ${filename}`)
+      console.log(`[v0] Successfully saved ${note.type} note to ${backend.kind}: ${filename}`)
       return true
     } catch (error) {
       console.log("[v0] Error saving note to file:", error)
-      return this.saveToLocalStorage(note)
+      return this.saveToRepository(note)
     }
   }
 
-  // Save metadata to localStorage for quick access and search
-  private saveMetadataToLocalStorage(note: NoteFile, filename: string): void {
-    const metadata = {
-      id: note.id,
-      title: note.title,
-      type: note.type,
+  // Write an edited note back over the stored one, renaming its file when the title changed.
+  // Media notes without a new blob keep their existing recording.
+  async updateNoteFile(previous: NoteRecord, note: NoteFile): Promise<boolean> {
+    const kind = previous.storage ?? (previous.savedToFile ? "directory" : undefined)
+    if (!kind || !previous.filename) return this.updateRepositoryNote(previous, note)
+
+    try {
+      const backend = this.getBackend(kind)
+      if (!(await backend.isAvailable())) {
+        console.log(`[v0] ${kind} storage unavailable, cannot update ${previous.filename}`)
+        return false
+      }
+
+      const previousPath = this.getNotePath(previous.type, previous.filename)
+      const data =
+        note.type === "text"
+          ? this.toTextBlob(note)
+          : note.blob || (await this.readFile(backend, previousPath))
+
+      if (!data) {
+        throw new Error("Note has no content to save")
+      }
+
+      // Only a new title, a new recording or a switch to or from Markdown changes the name;
+      // everything else is written in place
+      const formatChanged = (note.format ?? "html") !== (previous.format ?? "html")
+      const filename =
+        note.title !== previous.title || note.blob || formatChanged
+          ? await this.findAvailableFilename(backend, { ...note, blob: data })
+          : previous.filename
+      const path = this.getNotePath(note.type, filename)
+
+      await this.saveAttachments(backend, note.attachments)
+      await backend.save(path, await this.sealFile(backend, data))
+      if (path !== previousPath) {
+        await backend.delete(previousPath)
+        await backend.delete(getSidecarPath(previousPath))
+        console.log(`[v0] Renamed ${previousPath} to ${path}`)
+      }
+      const savedFile = await backend.stat(path)
+
+      const record: NoteRecord = {
+        ...previous,
+        ...this.toNoteRecord(note),
+        filename,
+        storage: kind,
+        fileModified: savedFile?.lastModified,
+        missing: false,
+        savedToFile: kind === "directory",
+        size: data.size + (note.thumbnail?.size || 0),
+        attachments: mergeAttachmentNames(previous.attachments, note.attachments),
+      }
+      await this.storeRecord(record, { thumbnail: note.thumbnail })
+      await backend.save(getSidecarPath(path), createSidecar(record))
+
+      console.log(`[v0] Successfully updated ${note.type} note in ${kind}: ${filename}`)
+      return true
+    } catch (error) {
+      console.log("[v0] Error updating note file:", error)
+      return false
+    }
+  }
+
+  // Update a note that only lives in the note repository
+  private async updateRepositoryNote(previous: NoteRecord, note: NoteFile): Promise<boolean> {
+    try {
+      const record: NoteRecord = {
+        ...previous,
+        ...this.toNoteRecord(note),
+        attachments: mergeAttachmentNames(previous.attachments, note.attachments),
+      }
+      if (note.type !== "text" && !note.blob) record.size = previous.size
+
+      await this.saveRepositoryAttachments(note)
+      await this.storeRecord(record, {
+        blob: note.type !== "text" ? note.blob : undefined,
+        thumbnail: note.thumbnail,
+      })
+      return true
+    } catch (error) {
+      console.log("[v0] Error updating note in browser storage:", error)
+      return false
+    }
+  }
+
+  // Where a note's file currently lives, inside Trash/ while the note is deleted
+  private getStoredPath(note: NoteRecord): string {
+    const path = this.getNotePath(note.type, note.filename || "")
+    return note.deletedAt ? `${TRASH_DIRECTORY}/${path}` : path
+  }
+
+  // The backend holding a note's file, or null when the note only lives in the repository
+  private getNoteBackend(note: NoteRecord): StorageBackend | null {
+    const kind = note.storage ?? (note.savedToFile ? "directory" : undefined)
+    return kind && note.filename ? this.getBackend(kind) : null
+  }
+
+  // Move a file together with its sidecar
+  private async moveFile(backend: StorageBackend, from: string, to: string): Promise<void> {
+    for (const [source, target] of [
+      [from, to],
+      [getSidecarPath(from), getSidecarPath(to)],
+    ]) {
+      const data = await backend.load(source)
+      if (data) {
+        await backend.save(target, data)
+        await backend.delete(source)
+      }
+    }
+  }
+
+  // Move notes and their files to the trash; returns how many were moved
+  async moveToTrash(notes: NoteRecord[]): Promise<number> {
+    const repository = getNoteRepository(this.config.username)
+    let moved = 0
+
+    for (const note of notes) {
+      if (note.deletedAt) continue
+      try {
+        const trashed: NoteRecord = { ...note, deletedAt: new Date().toISOString() }
+        const backend = this.getNoteBackend(note)
+        if (backend && !note.missing) {
+          if (!(await backend.isAvailable())) throw new Error(`${backend.kind} storage is not available`)
+          await this.moveFile(backend, this.getStoredPath(note), this.getStoredPath(trashed))
+        }
+        await repository.saveNote(trashed)
+        moved++
+      } catch (error) {
+        console.log(`[v0] Could not move "${note.title}" to trash:`, error)
+      }
+    }
+
+    console.log(`[v0] Moved ${moved} of ${notes.length} notes to trash`)
+    return moved
+  }
+
+  // Put trashed notes back where they were; returns how many were restored
+  async restoreFromTrash(notes: NoteRecord[]): Promise<number> {
+    const repository = getNoteRepository(this.config.username)
+    let restored = 0
+
+    for (const note of notes) {
+      if (!note.deletedAt) continue
+      try {
+        let record: NoteRecord = { ...note, deletedAt: undefined }
+        const backend = this.getNoteBackend(note)
+        if (backend && !note.missing) {
+          if (!(await backend.isAvailable())) throw new Error(`${backend.kind} storage is not available`)
+
+          // Another note may have taken the old name in the meantime
+          if (await backend.stat(this.getStoredPath(record))) {
+            record = { ...record, filename: withIdSuffix(note.filename!, note.id) }
+          }
+          await this.moveFile(backend, this.getStoredPath(note), this.getStoredPath(record))
+          record.fileModified = (await backend.stat(this.getStoredPath(record)))?.lastModified
+        }
+        await repository.saveNote(record)
+        restored++
+      } catch (error) {
+        console.log(`[v0] Could not restore "${note.title}" from trash:`, error)
+      }
+    }
+
+    return restored
+  }
+
+  // Permanently delete trashed notes and their files; notes whose storage is not
+  // reachable right now are kept so their files are not orphaned
+  async purgeNotes(notes: NoteRecord[]): Promise<number> {
+    const repository = getNoteRepository(this.config.username)
+    let purged = 0
+
+    for (const note of notes) {
+      if (!note.deletedAt) continue
+      try {
+        const backend = this.getNoteBackend(note)
+        if (backend) {
+          if (!(await backend.isAvailable())) throw new Error(`${backend.kind} storage is not available`)
+          const path = this.getStoredPath(note)
+          await backend.delete(path)
+          await backend.delete(getSidecarPath(path))
+          for (const name of note.attachments ?? []) {
+            await backend.delete(getAttachmentPath(name))
+          }
+        }
+        await repository.deleteNote(note.id)
+        purged++
+      } catch (error) {
+        console.log(`[v0] Could not purge "${note.title}":`, error)
+      }
+    }
+
+    return purged
+  }
+
+  // Purge notes that have been in the trash longer than the retention period (0 keeps them forever)
+  async purgeExpiredTrash(retentionDays: number): Promise<number> {
+    if (!retentionDays || retentionDays <= 0) return 0
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    const trashed = await getNoteRepository(this.config.username).listNotes({ trashed: true })
+    const expired = trashed.filter((note) => new Date(note.deletedAt!).getTime() < cutoff)
+    if (expired.length === 0) return 0
+
+    const purged = await this.purgeNotes(expired)
+    console.log(`[v0] Purged ${purged} notes from trash after ${retentionDays} days`)
+    return purged
+  }
+
+  // Read a note's file back from whichever backend it was saved to
+  async loadNoteFile(note: NoteRecord): Promise<Blob | null> {
+    const backend = this.getNoteBackend(note)
+    if (backend && (await backend.isAvailable())) {
+      return this.readFile(backend, this.getStoredPath(note))
+    }
+
+    if (note.type === "text") {
+      return note.content !== undefined ? this.toTextBlob(note) : null
+    }
+    return getNoteRepository(this.config.username).getMedia(note.id)
+  }
+
+  // Read an attachment of a note from the note's storage, or from the browser database it fell back to
+  async loadAttachment(note: NoteRecord, name: string): Promise<Blob | null> {
+    try {
+      const backend = this.getNoteBackend(note)
+      if (backend && (await backend.isAvailable())) {
+        const stored = await this.readFile(backend, getAttachmentPath(name))
+        if (stored) return stored
+      }
+      return await getNoteRepository(this.config.username).getAttachment(note.id, name)
+    } catch (error) {
+      console.log(`[v0] Error loading attachment ${name}:`, error)
+      return null
+    }
+  }
+
+  // Reconcile the Text/Audio/Video/Images folders of the configured backend with the note index:
+  // unknown files are imported, vanished files flagged and externally edited files re-read
+  async scanDirectory(): Promise<ScanResult | null> {
+    const backend = this.backend
+    if (!(await backend.isAvailable())) return null
+
+    const repository = getNoteRepository(this.config.username)
+    const result: ScanResult = { imported: [], updated: [], missing: [], failed: [] }
+
+    try {
+      // Folders written before the encryption config was kept in them get their copy here
+      if (!(await this.storeEncryptionConfig(backend))) {
+        console.log("[v0] Diary folder is encrypted with another key, its notes cannot be read")
+      }
+
+      const notes = await repository.listNotes()
+      const notesById = new Map(notes.map((note) => [note.id, note]))
+      const indexed = new Map<string, NoteRecord>()
+      for (const note of notes) {
+        const storage = note.storage ?? (note.savedToFile ? "directory" : undefined)
+        if (storage === backend.kind && note.filename) {
+          indexed.set(this.getNotePath(note.type, note.filename), note)
+        }
+      }
+
+      const seen = new Set<string>()
+      for (const type of NOTE_TYPES) {
+        const subdir = this.getSubdirectoryName(type)
+        const files = await backend.list(subdir)
+        const sidecars = new Set(files.filter((file) => isSidecarPath(file.path)).map((file) => file.path))
+
+        for (const file of files) {
+          if (isSidecarPath(file.path)) continue
+
+          seen.add(file.path)
+          // One unreadable file should not keep the others from being imported
+          try {
+            const filename = file.path.slice(subdir.length + 1)
+            const note = indexed.get(file.path)
+
+            if (!note) {
+              const sidecarPath = getSidecarPath(file.path)
+              const sidecar = sidecars.has(sidecarPath) ? await readSidecar(await backend.load(sidecarPath)) : null
+              const known = sidecar ? notesById.get(sidecar.id) : undefined
+
+              if (known) {
+                // A note we already know about, stored somewhere else until now
+                const relinked: NoteRecord = {
+                  ...known,
+                  filename,
+                  storage: backend.kind,
+                  fileModified: file.lastModified,
+                  missing: false,
+                  savedToFile: backend.kind === "directory",
+                }
+                await repository.saveNote(relinked)
+                result.updated.push(relinked)
+              } else {
+                const imported = await this.importFile(backend, type, filename, file, sidecar)
+                await repository.saveNote(imported)
+                notesById.set(imported.id, imported)
+                result.imported.push(imported)
+              }
+            } else if (note.missing || note.fileModified !== file.lastModified) {
+              const updated: NoteRecord = { ...note, missing: false, fileModified: file.lastModified, size: file.size }
+              if (type === "text") {
+                const blob = await this.readFile(backend, file.path)
+                updated.content = blob ? await blob.text() : ""
+                updated.locked = isLockedText(updated.content) || undefined
+                if (isMarkdownFilename(filename)) updated.format = "markdown"
+              }
+              // Edits made outside the app become revisions too
+              await this.storeRecord(updated)
+              result.updated.push(updated)
+            }
+          } catch (error) {
+            console.log(`[v0] Could not scan ${file.path}:`, error)
+            result.failed.push(file.path)
+          }
+        }
+      }
+
+      for (const [path, note] of indexed) {
+        if (!seen.has(path) && !note.missing) {
+          const missing = { ...note, missing: true }
+          await repository.saveNote(missing)
+          result.missing.push(missing)
+        }
+      }
+
+      console.log(
+        `[v0] Directory scan: ${result.imported.length} imported, ${result.updated.length} updated, ` +
+          `${result.missing.length} missing, ${result.failed.length} failed`,
+      )
+    } catch (error) {
+      console.log("[v0] Error scanning diary directory:", error)
+    }
+
+    return result
+  }
+
+  // Build an index entry for a file the index does not know, preferring its sidecar metadata
+  private async importFile(
+    backend: StorageBackend,
+    type: NoteType,
+    filename: string,
+    file: StoredFileInfo,
+    sidecar: NoteSidecar | null,
+  ): Promise<NoteRecord> {
+    // Without a sidecar, read what we can from a name written by generateFilename
+    const parsed = parseFilename(filename, this.config.filenamePattern)
+    const baseName = filename.split("/").pop()!.replace(/\.[^.]+$/, "")
+    const title = parsed?.title || baseName.replace(/_/g, " ").trim() || "Untitled"
+
+    const modified = new Date(file.lastModified)
+    const date =
+      parsed?.date && parsed.date.toDateString() !== modified.toDateString()
+        ? parsed.date.toISOString()
+        : modified.toISOString()
+
+    const blob = type === "text" ? await this.readFile(backend, file.path) : null
+    const content = blob ? await blob.text() : undefined
+
+    return {
+      id: sidecar?.id ?? `${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+      title: sidecar?.title ?? title,
+      type,
       filename,
-      date: note.date,
-      tags: note.tags,
-      mood: note.mood,
-      duration: note.duration,
-      savedToFile: true,
+      storage: backend.kind,
+      fileModified: file.lastModified,
+      content,
+      date: sidecar?.date ?? date,
+      tags: sidecar?.tags ?? [],
+      mood: sidecar?.mood,
+      duration: sidecar?.duration,
+      locked: sidecar?.locked || isLockedText(content) || undefined,
+      format: sidecar?.format ?? (type === "text" && isMarkdownFilename(filename) ? "markdown" : undefined),
+      attachments: sidecar?.attachments,
+      clips: type === "text" ? sidecar?.clips : undefined,
+      savedToFile: backend.kind === "directory",
+      size: file.size,
+      updatedAt: new Date().toISOString(),
     }
+  }
 
-    const existingMetadata = JSON.parse(localStorage.getItem(`mydiary_notes_${this.config.username}`) || "[]")
-    existingMetadata.push(metadata)
-    localStorage.setItem(`mydiary_notes_${this.config.username}`, JSON.stringify(existingMetadata))
+  // Save metadata to the note repository for quick access and search
+  private async saveMetadataToRepository(
+    note: NoteFile,
+    filename: string,
+    storage: StorageBackendKind,
+    fileModified?: number,
+  ): Promise<NoteRecord> {
+    const record: NoteRecord = {
+      ...this.toNoteRecord(note),
+      filename,
+      storage,
+      fileModified,
+      savedToFile: storage === "directory",
+      attachments: mergeAttachmentNames([], note.attachments),
+    }
+    await this.storeRecord(record, { thumbnail: note.thumbnail })
+    return record
   }
 
-  // Fallback to localStorage when file system access is not available
-  private saveToLocalStorage(note: NoteFile): boolean {
+  // Last-resort fallback when the storage backend itself fails
+  private async saveToRepository(note: NoteFile): Promise<boolean> {
     try {
-      const existingNotes = JSON.parse(localStorage.getItem(`mydiary_notes_${this.config.username}`) || "[]")
-
-      const noteData = {
-        id: note.id,
-        title: note.title,
-        type: note.type,
-        content: note.content,
-        audioData: note.type === "audio" ? note.blob : undefined,
-        videoData: note.type === "video" ? note.blob : undefined,
-        date: note.date,
-        tags: note.tags,
-        mood: note.mood,
-        duration: note.duration,
-        savedToFile: false,
-      }
-
-      existingNotes.push(noteData)
-      localStorage.setItem(`mydiary_notes_${this.config.username}`, JSON.stringify(existingNotes))
-
-      console.log("[v0] Saved note to localStorage as fallback")
+      await this.saveRepositoryAttachments(note)
+      const record = { ...this.toNoteRecord(note), attachments: mergeAttachmentNames([], note.attachments) }
+      await this.storeRecord(record, {
+        blob: note.type !== "text" ? note.blob : undefined,
+        thumbnail: note.thumbnail,
+      })
+
+      console.log("[v0] Saved note to browser storage as fallback")
       return true
     } catch (error) {
-      console.log("[v0] Error saving to localStorage:", error)
+      console.log("[v0] Error saving to browser storage:", error)
       return false
     }
   }
 
+  private async saveRepositoryAttachments(note: NoteFile): Promise<void> {
+    const repository = getNoteRepository(this.config.username)
+    for (const attachment of note.attachments ?? []) {
+      await repository.saveAttachment(note.id, attachment.name, attachment.blob)
+    }
+  }
+
+  // Save a note to the repository, keeping a revision whenever a text note's content changed
+  private async storeRecord(record: NoteRecord, media: NoteMedia = {}): Promise<void> {
+    const repository = getNoteRepository(this.config.username)
+    await repository.saveNote(record, media)
+    await repository.addRevision(record)
+  }
+
+  private toNoteRecord(note: NoteFile): NoteRecord {
+    return {
+      id: note.id,
+      title: note.title,
+      type: note.type,
+      content: note.type === "text" || note.type === "photo" ? note.content : undefined,
+      date: note.date,
+      tags: note.tags,
+      mood: note.mood,
+      duration: note.duration,
+      locked: note.locked || undefined,
+      format: note.type === "text" ? note.format : undefined,
+      clips: note.type === "text" ? note.clips : undefined,
+      savedToFile: false,
+      size: (note.type === "text" ? note.content?.length || 0 : note.blob?.size || 0) + (note.thumbnail?.size || 0),
+      updatedAt: new Date().toISOString(),
+    }
+  }
+
   // Download file as fallback when file system access fails
   downloadFile(note: NoteFile): void {
-    const filename = this.generateFilename(note.title, note.type, new Date(note.date))
-
-    if (note.type === "text") {
-      const blob = new Blob([note.content || ""], { type: "text/plain" })
-      this.triggerDownload(blob, filename)
-    } else if (note.blob) {
-      this.triggerDownload(note.blob, filename)
+    const blob = note.type === "text" ? this.toTextBlob(note) : note.blob
+    if (blob) {
+      this.triggerDownload(blob, this.generateFilename({ ...note, blob }).split("/").pop()!)
     }
   }
 
@@ -213,18 +912,28 @@ export class FileStorageManager {
   }
 
   // Reset directory initialization (for settings)
-  resetDirectoryInitialization(): void {
+  async resetDirectoryInitialization(): Promise<void> {
     localStorage.removeItem(`mydiary_directory_initialized_${this.config.username}`)
-    this.directoryHandle = null
+    this.directoryBackend.setHandle(null)
+    this.pendingDirectoryHandle = null
+    await clearDirectoryHandle(this.config.username)
   }
 }
 
 // Global file storage instance
 let fileStorageInstance: FileStorageManager | null = null
 
-export function getFileStorageManager(username: string, diaryPath: string): FileStorageManager {
-  if (!fileStorageInstance || fileStorageInstance["config"].username !== username) {
-    fileStorageInstance = new FileStorageManager({ username, diaryPath })
+export function getFileStorageManager(
+  username: string,
+  diaryPath: string,
+  backend: StorageBackendKind = "directory",
+  filenamePattern: string = DEFAULT_FILENAME_PATTERN,
+): FileStorageManager {
+  if (!fileStorageInstance || fileStorageInstance.getConfig().username !== username) {
+    fileStorageInstance = new FileStorageManager({ username, diaryPath, backend, filenamePattern })
+  } else {
+    if (fileStorageInstance.getBackendKind() !== backend) fileStorageInstance.useBackend(backend)
+    fileStorageInstance.setFilenamePattern(filenamePattern)
   }
   return fileStorageInstance
 }
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { embedHtml, escapeHtml, isSafeUrl, sanitizeHtml, sanitizeNoteContent } from "@/lib/html-sanitizer"
+
+describe("sanitizeHtml", () => {
+  it("keeps the formatting the editor produces", () => {
+    const html = '<h2>Day</h2><p align="center"><strong>bold</strong> <em>and</em> <u>more</u></p><ul><li>one</li></ul>'
+    expect(sanitizeHtml(html)).toBe(html)
+  })
+
+  it("removes scripts, styles and event handlers", () => {
+    expect(sanitizeHtml('<p onclick="alert(1)">hi<script>alert(1)</script></p><style>p{}</style>')).toBe("<p>hi</p>")
+    expect(sanitizeHtml('<img src="x" onerror="alert(1)">')).toBe("")
+  })
+
+  it("only keeps links with safe schemes", () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe("<a>x</a>")
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>')).toBe(
+      '<a href="https://example.com" rel="noopener noreferrer">x</a>',
+    )
+  })
+
+  it("keeps attachments but drops media loaded from elsewhere", () => {
+    expect(sanitizeHtml('<img src="attachment:a.png" alt="A" width="10">')).toBe('<img src="attachment:a.png" alt="A">')
+    expect(sanitizeHtml('<img src="https://example.com/track.gif">')).toBe("")
+    expect(sanitizeHtml('<audio src="attachment:clip.weba" autoplay></audio>')).toBe(
+      '<audio src="attachment:clip.weba" title="" controls=""></audio>',
+    )
+  })
+
+  it("unwraps unknown elements and drops dangerous ones with their content", () => {
+    expect(sanitizeHtml("<section><p>kept</p></section>")).toBe("<p>kept</p>")
+    expect(sanitizeHtml("<p>a<iframe>frame</iframe><svg><text>b</text></svg></p>")).toBe("<p>a</p>")
+  })
+
+  it("drops comments", () => {
+    expect(sanitizeHtml("<p>a<!-- hidden --></p>")).toBe("<p>a</p>")
+  })
+})
+
+describe("sanitizeNoteContent", () => {
+  it("leaves plain text exactly as it is", () => {
+    expect(sanitizeNoteContent("3 < 4 & \"quoted\"")).toBe("3 < 4 & \"quoted\"")
+  })
+
+  it("cleans content with markup", () => {
+    expect(sanitizeNoteContent("<p>hi</p><script>x</script>")).toBe("<p>hi</p>")
+  })
+})
+
+describe("isSafeUrl", () => {
+  it("accepts web, mail, attachment and in-page links", () => {
+    expect(isSafeUrl("https://example.com")).toBe(true)
+    expect(isSafeUrl("mailto:me@example.com")).toBe(true)
+    expect(isSafeUrl("attachment:a.png")).toBe(true)
+    expect(isSafeUrl("#top")).toBe(true)
+  })
+
+  it("rejects scripts and relative paths", () => {
+    expect(isSafeUrl("javascript:alert(1)")).toBe(false)
+    expect(isSafeUrl(" JavaScript:alert(1)")).toBe(false)
+    expect(isSafeUrl("data:text/html,hi")).toBe(false)
+    expect(isSafeUrl("notes/today")).toBe(false)
+  })
+})
+
+describe("escapeHtml and embedHtml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml('<a href="x">&</a>')).toBe("&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;")
+  })
+
+  it("embeds attachments by their extension", () => {
+    expect(embedHtml("attachment:a.jpg", 'My "photo"')).toBe('<img src="attachment:a.jpg" alt="My &quot;photo&quot;">')
+    expect(embedHtml("attachment:b.mp4", "Clip")).toBe('<video src="attachment:b.mp4" title="Clip" controls></video>')
+  })
+})
@@ -0,0 +1,175 @@
+// Allow-list sanitizer for the rich text of notes. Whatever the editor can produce is kept;
+// scripts, event handlers, styles and unknown elements from pasted or imported HTML are not.
+
+import { getEmbedTag, isAttachmentUrl } from "@/lib/note-attachments"
+
+const ALLOWED_TAGS = new Set([
+  "a",
+  "audio",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "del",
+  "div",
+  "em",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "img",
+  "li",
+  "mark",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "span",
+  "strike",
+  "strong",
+  "sub",
+  "sup",
+  "u",
+  "ul",
+  "video",
+])
+
+// Elements that show an attachment in place, see getEmbedTag
+const EMBED_TAGS = ["img", "audio", "video"]
+
+// Removed together with their content; other unknown elements are replaced by their children
+const DROPPED_TAGS = new Set([
+  "base",
+  "button",
+  "embed",
+  "form",
+  "frame",
+  "frameset",
+  "head",
+  "iframe",
+  "input",
+  "link",
+  "math",
+  "meta",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+])
+
+// attachment: links open a file stored with the note, see note-attachments
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:", "attachment:"]
+const TEXT_ALIGNMENTS = ["left", "center", "right", "justify"]
+
+// Anything that looks like a tag; content without one is plain text from the simple textarea
+const MARKUP_PATTERN = /<\/?[a-z][^>]*>/i
+
+export function isSafeUrl(url: string): boolean {
+  const trimmed = url.trim()
+  if (trimmed.startsWith("#")) return true
+
+  try {
+    return LINK_PROTOCOLS.includes(new URL(trimmed).protocol)
+  } catch {
+    return false
+  }
+}
+
+// Keep only what the editor's own formatting needs: links, attached images and recordings, and the alignment
+// set by justify*
+function cleanAttributes(element: Element, tag: string): void {
+  const href = element.getAttribute("href")
+  // The editor shows attachments from object URLs and keeps their attachment: source in data-src
+  const src = [element.getAttribute("src"), element.getAttribute("data-src")].find(
+    (url) => url && isAttachmentUrl(url),
+  )
+  const alt = element.getAttribute("alt")
+  const title = element.getAttribute("title")
+  const align = (element.getAttribute("align") || "").toLowerCase()
+  const textAlign = (element as HTMLElement).style?.textAlign
+
+  for (const attribute of Array.from(element.attributes)) {
+    element.removeAttribute(attribute.name)
+  }
+
+  if (tag === "a" && href && isSafeUrl(href)) {
+    element.setAttribute("href", href.trim())
+    element.setAttribute("rel", "noopener noreferrer")
+  }
+  if (tag === "img" && src) {
+    element.setAttribute("src", src.trim())
+    element.setAttribute("alt", alt || "")
+  }
+  if ((tag === "audio" || tag === "video") && src) {
+    element.setAttribute("src", src.trim())
+    element.setAttribute("title", title || "")
+    element.setAttribute("controls", "")
+  }
+  if (TEXT_ALIGNMENTS.includes(align)) {
+    element.setAttribute("align", align)
+  }
+  if (textAlign && TEXT_ALIGNMENTS.includes(textAlign)) {
+    element.setAttribute("style", `text-align: ${textAlign};`)
+  }
+}
+
+function cleanChildren(parent: Node): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue
+
+    // Comments, processing instructions and the like
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.parentNode?.removeChild(child)
+      continue
+    }
+
+    const element = child as Element
+    const tag = element.tagName.toLowerCase()
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove()
+      continue
+    }
+
+    cleanChildren(element)
+    if (ALLOWED_TAGS.has(tag)) {
+      cleanAttributes(element, tag)
+      // Images and media from elsewhere would be loaded from the web whenever the note is shown
+      if (EMBED_TAGS.includes(tag) && !element.hasAttribute("src")) element.remove()
+    } else {
+      element.replaceWith(...Array.from(element.childNodes))
+    }
+  }
+}
+
+// The HTML is parsed into an inert document, so nothing in it runs or loads while it is cleaned
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  cleanChildren(doc.body)
+  return doc.body.innerHTML
+}
+
+// Note content may be plain text or HTML; plain text is left exactly as it is
+export function sanitizeNoteContent(content: string): string {
+  return MARKUP_PATTERN.test(content) ? sanitizeHtml(content) : content
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// An attachment shown in the text: a picture, or a player for audio clips and videos
+export function embedHtml(src: string, label: string): string {
+  const tag = getEmbedTag(src)
+  return tag === "img"
+    ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(label)}">`
+    : `<${tag} src="${escapeHtml(src)}" title="${escapeHtml(label)}" controls></${tag}>`
+}
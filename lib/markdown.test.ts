@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { renderMarkdown } from "@/lib/markdown"
+
+describe("renderMarkdown", () => {
+  it("renders headings, emphasis and paragraphs", () => {
+    expect(renderMarkdown("# Today\n\nA **good** _day_ with ~~rain~~ `code`")).toBe(
+      "<h1>Today</h1><p>A <strong>good</strong> <em>day</em> with <del>rain</del> <code>code</code></p>",
+    )
+  })
+
+  it("keeps single line breaks", () => {
+    expect(renderMarkdown("first\nsecond")).toBe("<p>first<br>second</p>")
+  })
+
+  it("renders nested lists", () => {
+    expect(renderMarkdown("- one\n  - inner\n- two")).toContain("<ul><li>one")
+    expect(renderMarkdown("1. first\n2. second")).toBe("<ol><li>first</li><li>second</li></ol>")
+  })
+
+  it("leaves underscores inside words alone", () => {
+    expect(renderMarkdown("snake_case_name")).toBe("<p>snake_case_name</p>")
+  })
+
+  it("escapes HTML written in the source", () => {
+    expect(renderMarkdown('<script>alert(1)</script><img src=x onerror="alert(1)">')).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt;&lt;img src=x onerror=\"alert(1)\"&gt;</p>",
+    )
+  })
+
+  it("drops links with unsafe schemes", () => {
+    expect(renderMarkdown("[click](javascript:alert(1))")).not.toContain("javascript:")
+    expect(renderMarkdown("[site](https://example.com)")).toBe(
+      '<p><a href="https://example.com" rel="noopener noreferrer">site</a></p>',
+    )
+  })
+
+  it("keeps balanced parentheses in link URLs", () => {
+    expect(renderMarkdown("[Rome](https://en.wikipedia.org/wiki/Rome_(disambiguation))")).toBe(
+      '<p><a href="https://en.wikipedia.org/wiki/Rome_(disambiguation)" rel="noopener noreferrer">Rome</a></p>',
+    )
+    expect(renderMarkdown("(see [site](https://example.com/a))")).toBe(
+      '<p>(see <a href="https://example.com/a" rel="noopener noreferrer">site</a>)</p>',
+    )
+    expect(renderMarkdown("![Beach](attachment:beach_(1).jpg)")).toBe(
+      '<p><img src="attachment:beach_(1).jpg" alt="Beach"></p>',
+    )
+  })
+
+  it("embeds attachments and drops images from the web", () => {
+    expect(renderMarkdown("![Beach](attachment:beach.jpg)")).toBe('<p><img src="attachment:beach.jpg" alt="Beach"></p>')
+    expect(renderMarkdown("![Voice](attachment:voice.weba)")).toBe(
+      '<p><audio src="attachment:voice.weba" title="Voice" controls=""></audio></p>',
+    )
+    expect(renderMarkdown("![Pixel](https://example.com/p.gif)")).toBe("<p></p>")
+  })
+
+  it("does not break out of attributes", () => {
+    const container = document.createElement("div")
+    container.innerHTML = renderMarkdown('![x" onerror="alert(1)](attachment:a.png)')
+    const image = container.querySelector("img")
+    expect(image?.getAttribute("alt")).toBe('x" onerror="alert(1)')
+    expect(image?.hasAttribute("onerror")).toBe(false)
+  })
+})
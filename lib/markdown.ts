@@ -0,0 +1,128 @@
+// A small Markdown dialect for notes: headings, emphasis, strikethrough, inline code, code blocks,
+// links, images, lists, block quotes and rules. Single line breaks are kept, as in the quick textarea.
+
+import { embedHtml, escapeHtml, sanitizeHtml } from "@/lib/html-sanitizer"
+
+const FENCE_PATTERN = /^\s*```/
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/
+const QUOTE_PATTERN = /^\s*>\s?/
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/
+// `[text](url)` and `![alt](url)`; a URL may hold one level of balanced parentheses, as in Wikipedia links
+const LINK_PATTERN = /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g
+
+function renderInline(text: string): string {
+  // Code spans, images and escaped characters are set aside so no other rule touches them. Image syntax
+  // for an audio or video attachment shows it with a player.
+  const held: string[] = []
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`
+
+  let html = text
+    // A backslash keeps formatting characters and list or heading markers literal
+    .replace(/\\([\\`*_~[\]#>+.)-])/g, (_, char: string) => hold(escapeHtml(char)))
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${escapeHtml(code)}</code>`))
+    .replace(IMAGE_PATTERN, (_, alt: string, src: string) => hold(embedHtml(src, alt)))
+  html = escapeHtml(html)
+
+  html = html
+    .replace(LINK_PATTERN, '<a href="$2">$1</a>')
+    .replace(/\*\*(\S(?:.*?\S)?)\*\*/g, "<strong>$1</strong>")
+    // Underscores inside words, as in snake_case, are not emphasis
+    .replace(/(^|\W)__(\S(?:.*?\S)?)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(\S(?:.*?\S)?)\*/g, "<em>$1</em>")
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(\S(?:.*?\S)?)~~/g, "<del>$1</del>")
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => held[Number(index)])
+}
+
+function renderList(lines: string[], start: number): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!
+  const indent = first[1].length
+  const ordered = /\d/.test(first[2])
+  const items: { text: string; children: string[] }[] = []
+
+  let i = start
+  while (i < lines.length) {
+    const line = lines[i]
+    const item = line.match(LIST_ITEM_PATTERN)
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push({ text: item[3], children: [] })
+    } else if (items.length > 0 && line.trim() && line.search(/\S/) > indent) {
+      // Deeper lines belong to the item above: nested lists or continued text
+      items[items.length - 1].children.push(line.slice(indent + 2))
+    } else {
+      break
+    }
+    i++
+  }
+
+  const tag = ordered ? "ol" : "ul"
+  const body = items
+    .map((item) => {
+      const nested = item.children.some((line) => LIST_ITEM_PATTERN.test(line))
+      const children = nested
+        ? renderBlocks(item.children)
+        : item.children.map((line) => `<br>${renderInline(line.trim())}`).join("")
+      return `<li>${renderInline(item.text)}${children}</li>`
+    })
+    .join("")
+  return { html: `<${tag}>${body}</${tag}>`, next: i }
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line)
+  )
+}
+
+function renderBlocks(lines: string[]): string {
+  const blocks: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+    } else if (FENCE_PATTERN.test(line)) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) code.push(lines[i++])
+      i++
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`)
+    } else if (HEADING_PATTERN.test(line)) {
+      const [, hashes, text] = line.match(HEADING_PATTERN)!
+      blocks.push(`<h${hashes.length}>${renderInline(text)}</h${hashes.length}>`)
+      i++
+    } else if (RULE_PATTERN.test(line)) {
+      blocks.push("<hr>")
+      i++
+    } else if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) quoted.push(lines[i++].replace(QUOTE_PATTERN, ""))
+      blocks.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`)
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      const list = renderList(lines, i)
+      blocks.push(list.html)
+      i = list.next
+    } else {
+      const paragraph: string[] = []
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++].trim())
+      blocks.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`)
+    }
+  }
+
+  return blocks.join("")
+}
+
+// Markdown to HTML that is safe to show: links with other schemes and images that are not attachments
+// are dropped by the sanitizer
+export function renderMarkdown(markdown: string): string {
+  return sanitizeHtml(renderBlocks(markdown.replace(/\r\n?/g, "\n").split("\n")))
+}
@@ -0,0 +1,113 @@
+import type { NoteType } from "@/lib/file-storage"
+
+export type RecordingKind = "audio" | "video"
+
+// Containers in order of preference: MP4/AAC plays almost everywhere, WebM/Ogg are the fallbacks
+const recorderMimeTypes: Record<RecordingKind, string[]> = {
+  audio: ["audio/mp4;codecs=mp4a.40.2", "audio/mp4", "audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm"],
+  video: [
+    "video/mp4;codecs=avc1.42E01E,mp4a.40.2",
+    "video/mp4",
+    "video/webm;codecs=vp9,opus",
+    "video/webm;codecs=vp8,opus",
+    "video/webm",
+  ],
+}
+
+const mimeTypeExtensions: Record<string, string> = {
+  "text/plain": ".txt",
+  "text/markdown": ".md",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/wave": ".wav",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/aac": ".aac",
+  "audio/ogg": ".ogg",
+  "audio/webm": ".webm",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/ogg": ".ogv",
+  "video/quicktime": ".mov",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "application/pdf": ".pdf",
+}
+
+// Used when a blob does not say what it is; MediaRecorder produces WebM unless told otherwise
+const defaultExtensions: Record<NoteType, string> = {
+  text: ".txt",
+  audio: ".webm",
+  video: ".webm",
+  photo: ".jpg",
+}
+
+// Pick the best container this browser's MediaRecorder can produce, or undefined for its default
+export function pickRecorderMimeType(kind: RecordingKind): string | undefined {
+  if (typeof MediaRecorder === "undefined" || typeof MediaRecorder.isTypeSupported !== "function") {
+    return undefined
+  }
+  return recorderMimeTypes[kind].find((mimeType) => MediaRecorder.isTypeSupported(mimeType))
+}
+
+// "video/webm;codecs=vp8,opus" -> "video/webm"
+export function getBaseMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase()
+}
+
+// Extension of a known MIME type, or undefined, e.g. for attachments of any kind
+export function findExtensionForMimeType(mimeType: string | undefined): string | undefined {
+  return mimeType ? mimeTypeExtensions[getBaseMimeType(mimeType)] : undefined
+}
+
+// File extension matching what is actually inside the file, e.g. ".m4a" for an MP4 audio recording
+export function getExtensionForMimeType(mimeType: string | undefined, type: NoteType): string {
+  return findExtensionForMimeType(mimeType) || defaultExtensions[type]
+}
+
+// Re-encode any audio the browser can decode as 16-bit PCM WAV, which every player understands
+export async function encodeWav(blob: Blob): Promise<Blob> {
+  const context = new AudioContext()
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer())
+    const channels = Array.from({ length: audio.numberOfChannels }, (_, index) => audio.getChannelData(index))
+    const bytesPerSample = 2
+    const blockAlign = channels.length * bytesPerSample
+    const dataSize = audio.length * blockAlign
+    const view = new DataView(new ArrayBuffer(44 + dataSize))
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+    }
+
+    writeString(0, "RIFF")
+    view.setUint32(4, 36 + dataSize, true)
+    writeString(8, "WAVE")
+    writeString(12, "fmt ")
+    view.setUint32(16, 16, true) // fmt chunk size
+    view.setUint16(20, 1, true) // PCM
+    view.setUint16(22, channels.length, true)
+    view.setUint32(24, audio.sampleRate, true)
+    view.setUint32(28, audio.sampleRate * blockAlign, true)
+    view.setUint16(32, blockAlign, true)
+    view.setUint16(34, bytesPerSample * 8, true)
+    writeString(36, "data")
+    view.setUint32(40, dataSize, true)
+
+    let offset = 44
+    for (let i = 0; i < audio.length; i++) {
+      for (const channel of channels) {
+        const sample = Math.max(-1, Math.min(1, channel[i]))
+        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+        offset += bytesPerSample
+      }
+    }
+
+    return new Blob([view], { type: "audio/wav" })
+  } finally {
+    await context.close()
+  }
+}
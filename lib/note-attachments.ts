@@ -0,0 +1,102 @@
+// Images, recordings and other files kept with a text note. The note refers to them as "attachment:<name>",
+// as the source of an embedded picture or player or as a link, and their files live under Attachments/ next
+// to the Text/Audio/Video/Images folders. A text note with clips recorded into it is a mixed-media entry.
+
+import { findExtensionForMimeType, getExtensionForMimeType, type RecordingKind } from "@/lib/media-formats"
+import { slugifyTitle } from "@/lib/note-filenames"
+
+export const ATTACHMENT_SCHEME = "attachment:"
+export const ATTACHMENTS_DIRECTORY = "Attachments"
+
+const ATTACHMENT_URL_PATTERN = /attachment:([^\s"'()<>]+)/g
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|avif)$/i
+const AUDIO_EXTENSION_PATTERN = /\.(m4a|mp3|aac|wav|ogg|oga|opus|weba)$/i
+const VIDEO_EXTENSION_PATTERN = /\.(mp4|webm|ogv|mov)$/i
+
+// How an attachment is shown inside the text: as a picture, with a player, or not at all
+export type EmbedTag = "img" | "audio" | "video"
+
+// A file that still has to be stored with its note
+export interface NoteAttachment {
+  name: string
+  blob: Blob
+}
+
+// An audio clip or video recorded into a text note; its file is the attachment of that name
+export interface NoteClip {
+  name: string
+  kind: RecordingKind
+  // In seconds
+  duration: number
+}
+
+export function isAttachmentUrl(url: string): boolean {
+  return url.trim().startsWith(ATTACHMENT_SCHEME)
+}
+
+export function toAttachmentUrl(name: string): string {
+  return `${ATTACHMENT_SCHEME}${name}`
+}
+
+export function getAttachmentName(url: string): string | null {
+  return isAttachmentUrl(url) ? url.trim().slice(ATTACHMENT_SCHEME.length) : null
+}
+
+export function getAttachmentPath(name: string): string {
+  return `${ATTACHMENTS_DIRECTORY}/${name}`
+}
+
+export function isImageFile(file: Blob): boolean {
+  return file.type.startsWith("image/")
+}
+
+export function isImageAttachment(name: string): boolean {
+  return IMAGE_EXTENSION_PATTERN.test(name)
+}
+
+// Files that are shown in place rather than linked
+export function isEmbeddableFile(file: Blob): boolean {
+  return isImageFile(file) || file.type.startsWith("audio/") || file.type.startsWith("video/")
+}
+
+// Decided by the file's extension, since that is all the text keeps of it
+export function getEmbedTag(src: string): EmbedTag {
+  if (AUDIO_EXTENSION_PATTERN.test(src)) return "audio"
+  if (VIDEO_EXTENSION_PATTERN.test(src)) return "video"
+  return "img"
+}
+
+// WebM holds both sound and pictures; audio-only clips get .weba so they are shown with an audio player
+export function getRecordingExtension(mimeType: string, kind: RecordingKind): string {
+  const extension = getExtensionForMimeType(mimeType, kind)
+  return kind === "audio" && extension === ".webm" ? ".weba" : extension
+}
+
+// A unique, readable name that keeps the file's extension, e.g. "m1x2k3f9_Beach_sunset.jpg"
+export function createAttachmentName(file: File): string {
+  const ownExtension = file.name.match(/\.[^./]+$/)?.[0] ?? ""
+  const extension = ownExtension || findExtensionForMimeType(file.type) || ""
+  const baseName = file.name.slice(0, file.name.length - ownExtension.length)
+  const stamp = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 4)}`
+  return `${stamp}_${slugifyTitle(baseName || "file")}${extension.toLowerCase().replace(/[^.\w]/g, "")}`
+}
+
+// Every attachment a note's content refers to, in order
+export function extractAttachmentNames(content: string): string[] {
+  const names = new Set<string>()
+  for (const match of Array.from(content.matchAll(ATTACHMENT_URL_PATTERN))) {
+    names.add(match[1])
+  }
+  return Array.from(names)
+}
+
+// Keep the clips of loosely-typed data (sidecars, imports) that look like ours
+export function normalizeClips(value: unknown): NoteClip[] | undefined {
+  if (!Array.isArray(value)) return undefined
+
+  const clips = value.flatMap((clip): NoteClip[] => {
+    if (!clip || typeof clip.name !== "string" || (clip.kind !== "audio" && clip.kind !== "video")) return []
+    return [{ name: clip.name, kind: clip.kind, duration: typeof clip.duration === "number" ? clip.duration : 0 }]
+  })
+  return clips.length > 0 ? clips : undefined
+}
@@ -0,0 +1,180 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import {
+  documentToHtml,
+  documentToMarkdown,
+  EditHistory,
+  insertFragment,
+  insertText,
+  parseHtml,
+  textToDocument,
+  toggleMark,
+  type DocumentPosition,
+  type EditorState,
+  type NoteDocument,
+} from "@/lib/note-document"
+
+const select = (doc: NoteDocument, anchor: DocumentPosition, focus = anchor): EditorState => ({
+  doc,
+  selection: { anchor, focus },
+})
+
+describe("HTML round-trips", () => {
+  it.each([
+    "<p>Plain text</p>",
+    "<h2>Title</h2><p>A <strong>bold</strong> and <em>italic</em> word</p>",
+    '<p>A <a href="https://example.com" rel="noopener noreferrer"><strong>bold link</strong></a> and <u>under</u>' +
+      "<s>struck</s> <code>x</code></p>",
+    "<ul><li>one<ul><li>inner</li></ul></li><li>two</li></ul><ol><li>first</li></ol>",
+    "<blockquote><p>Quoted</p><p>twice</p></blockquote><hr><pre>const a = 1<br>const b = 2</pre>",
+    '<p style="text-align: center;">Centered</p>',
+    '<p>Photo <img src="attachment:beach.jpg" alt="Beach"> here</p>',
+  ])("keeps %s", (html) => {
+    expect(documentToHtml(parseHtml(html))).toBe(html)
+  })
+
+  it("normalizes equivalent markup", () => {
+    expect(documentToHtml(parseHtml("<div><b>Bold</b> <i>it</i></div><div>next</div>"))).toBe(
+      "<p><strong>Bold</strong> <em>it</em></p><p>next</p>",
+    )
+  })
+
+  it("drops unsafe markup on the way in", () => {
+    expect(documentToHtml(parseHtml('<p onclick="alert(1)">Hi<script>alert(1)</script></p>'))).toBe("<p>Hi</p>")
+  })
+
+  it("writes the same document as Markdown", () => {
+    const doc = parseHtml("<h1>Day</h1><p>A <strong>good</strong> day</p><ul><li>one</li></ul>")
+    expect(documentToMarkdown(doc)).toBe("# Day\n\nA **good** day\n\n- one")
+  })
+})
+
+describe("toggleMark", () => {
+  it("adds a mark across runs that only partly have it", () => {
+    const doc = parseHtml("<p>one <strong>two</strong> three</p>")
+    const state = toggleMark(select(doc, { block: 0, offset: 0 }, { block: 0, offset: 13 }), "bold")
+    expect(documentToHtml(state.doc)).toBe("<p><strong>one two three</strong></p>")
+  })
+
+  it("removes a mark the whole selection has", () => {
+    const doc = parseHtml("<p><strong>one <em>two</em></strong> three</p>")
+    const state = toggleMark(select(doc, { block: 0, offset: 7 }, { block: 0, offset: 0 }), "bold")
+    expect(documentToHtml(state.doc)).toBe("<p>one <em>two</em> three</p>")
+    expect(state.selection).toEqual({ anchor: { block: 0, offset: 7 }, focus: { block: 0, offset: 0 } })
+  })
+
+  it("marks across blocks", () => {
+    const doc = parseHtml("<p>first</p><p>second</p>")
+    const state = toggleMark(select(doc, { block: 0, offset: 2 }, { block: 1, offset: 3 }), "italic")
+    expect(documentToHtml(state.doc)).toBe("<p>fi<em>rst</em></p><p><em>sec</em>ond</p>")
+  })
+
+  it("marks the word around a caret, and nothing between words", () => {
+    const doc = parseHtml("<p>one two</p>")
+    expect(documentToHtml(toggleMark(select(doc, { block: 0, offset: 5 }), "bold").doc)).toBe(
+      "<p>one <strong>two</strong></p>",
+    )
+    const between = textToDocument("one  two")
+    const state = select(between, { block: 0, offset: 4 })
+    expect(toggleMark(state, "bold")).toBe(state)
+  })
+
+  it("leaves code blocks alone", () => {
+    const doc = parseHtml("<pre>code</pre>")
+    expect(documentToHtml(toggleMark(select(doc, { block: 0, offset: 0 }, { block: 0, offset: 4 }), "bold").doc)).toBe(
+      "<pre>code</pre>",
+    )
+  })
+})
+
+describe("insertFragment", () => {
+  const doc = parseHtml("<p>Hello world</p><p>Bye</p>")
+
+  it("joins a single block into the text at the caret", () => {
+    const fragment: NoteDocument = {
+      blocks: [{ type: "paragraph", level: 0, runs: [{ text: "big ", marks: [{ type: "italic" }] }] }],
+    }
+    const state = insertFragment(select(doc, { block: 0, offset: 6 }), fragment)
+    expect(documentToHtml(state.doc)).toBe("<p>Hello <em>big </em>world</p><p>Bye</p>")
+    expect(state.selection.focus).toEqual({ block: 0, offset: 10 })
+  })
+
+  it("splits the block around several blocks", () => {
+    const fragment = parseHtml("<p>, dear</p><h2>Heading</h2><p>and</p>")
+    const state = insertFragment(select(doc, { block: 0, offset: 5 }), fragment)
+    expect(documentToHtml(state.doc)).toBe("<p>Hello, dear</p><h2>Heading</h2><p>and world</p><p>Bye</p>")
+    expect(state.selection.focus).toEqual({ block: 2, offset: 3 })
+  })
+
+  it("inserts at the start and end of blocks", () => {
+    const fragment = parseHtml("<p>one</p><p>two</p>")
+    expect(documentToHtml(insertFragment(select(doc, { block: 1, offset: 0 }), fragment).doc)).toBe(
+      "<p>Hello world</p><p>one</p><p>twoBye</p>",
+    )
+    const atEnd = insertFragment(select(doc, { block: 1, offset: 3 }), fragment)
+    expect(documentToHtml(atEnd.doc)).toBe("<p>Hello world</p><p>Byeone</p><p>two</p>")
+    expect(atEnd.selection.focus).toEqual({ block: 2, offset: 3 })
+  })
+
+  it("replaces a selection across blocks", () => {
+    const state = insertFragment(select(doc, { block: 1, offset: 1 }, { block: 0, offset: 5 }), parseHtml("<p>!</p>"))
+    expect(documentToHtml(state.doc)).toBe("<p>Hello!ye</p>")
+    expect(state.selection.focus).toEqual({ block: 0, offset: 6 })
+  })
+
+  it("types text with the marks of the character before the caret", () => {
+    const marked = parseHtml("<p><strong>Bold</strong> plain</p>")
+    expect(documentToHtml(insertText(select(marked, { block: 0, offset: 4 }), "er").doc)).toBe(
+      "<p><strong>Bolder</strong> plain</p>",
+    )
+    expect(documentToHtml(insertText(select(marked, { block: 0, offset: 0 }), "Very ").doc)).toBe(
+      "<p>Very <strong>Bold</strong> plain</p>",
+    )
+  })
+})
+
+describe("EditHistory", () => {
+  it("undoes and redoes in order", () => {
+    const history = new EditHistory<string>()
+    history.record("a")
+    history.record("b")
+
+    expect(history.undo("c")).toBe("b")
+    expect(history.undo("b")).toBe("a")
+    expect(history.undo("a")).toBeNull()
+    expect(history.redo("a")).toBe("b")
+    expect(history.redo("b")).toBe("c")
+    expect(history.redo("c")).toBeNull()
+  })
+
+  it("forgets the redo steps once something new is recorded", () => {
+    const history = new EditHistory<string>()
+    history.record("a")
+    expect(history.undo("b")).toBe("a")
+    history.record("a")
+    expect(history.redo("x")).toBeNull()
+  })
+
+  it("keeps the last hundred steps", () => {
+    const history = new EditHistory<number>()
+    for (let step = 0; step < 150; step++) history.record(step)
+
+    let current = 150
+    let undone = 0
+    for (let previous = history.undo(current); previous !== null; previous = history.undo(current)) {
+      current = previous
+      undone++
+    }
+    expect(undone).toBe(100)
+    expect(current).toBe(50)
+  })
+
+  it("starts over when cleared", () => {
+    const history = new EditHistory()
+    const state = select(textToDocument("text"), { block: 0, offset: 0 })
+    history.record(state)
+    history.clear()
+    expect(history.undo(state)).toBeNull()
+    expect(history.redo(state)).toBeNull()
+  })
+})
@@ -0,0 +1,864 @@
+// Document model behind the rich text editor: a list of blocks, each holding runs of text with marks.
+// Commands, undo history, paste handling and serialization all work on the model instead of on
+// the browser's contentEditable DOM, so the same edit always produces the same HTML.
+
+import { embedHtml, escapeHtml, isSafeUrl, sanitizeHtml } from "@/lib/html-sanitizer"
+
+export type MarkType = "link" | "bold" | "italic" | "underline" | "strike" | "code"
+
+export interface Mark {
+  type: MarkType
+  // Only set on links
+  href?: string
+}
+
+// An image within the text, e.g. an attached photo, or an audio clip or video shown with a player
+export interface InlineImage {
+  src: string
+  // Alt text of an image, the title of a recording
+  alt: string
+}
+
+export interface TextRun {
+  text: string
+  marks: Mark[]
+  // Image runs hold a single IMAGE_TEXT character, so an image takes one position like a letter
+  image?: InlineImage
+}
+
+export type BlockType = "paragraph" | "heading" | "bullet" | "ordered" | "quote" | "code" | "rule"
+
+export type Alignment = "left" | "center" | "right" | "justify"
+
+export interface Block {
+  type: BlockType
+  // Heading level 1-6, or the nesting depth of a list item starting at 0
+  level: number
+  align?: Alignment
+  // Line breaks within a block are "\n"
+  runs: TextRun[]
+}
+
+export interface NoteDocument {
+  blocks: Block[]
+}
+
+// A character offset into the text of one block
+export interface DocumentPosition {
+  block: number
+  offset: number
+}
+
+export interface DocumentSelection {
+  anchor: DocumentPosition
+  focus: DocumentPosition
+}
+
+export interface EditorState {
+  doc: NoteDocument
+  selection: DocumentSelection
+}
+
+// Marks always nest in this order, outermost first
+const MARK_ORDER: MarkType[] = ["link", "bold", "italic", "underline", "strike", "code"]
+
+const MARK_TAGS: Record<string, Mark> = {
+  b: { type: "bold" },
+  strong: { type: "bold" },
+  i: { type: "italic" },
+  em: { type: "italic" },
+  u: { type: "underline" },
+  s: { type: "strike" },
+  strike: { type: "strike" },
+  del: { type: "strike" },
+  code: { type: "code" },
+}
+
+const HTML_MARK_TAGS: Record<MarkType, string> = {
+  link: "a",
+  bold: "strong",
+  italic: "em",
+  underline: "u",
+  strike: "s",
+  code: "code",
+}
+
+// Underline has no Markdown and is written as plain text
+const MARKDOWN_MARKS: Record<MarkType, [string, string]> = {
+  link: ["[", "]"],
+  bold: ["**", "**"],
+  italic: ["_", "_"],
+  underline: ["", ""],
+  strike: ["~~", "~~"],
+  code: ["`", "`"],
+}
+
+const BLOCK_TAGS = new Set(["p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "li", "pre", "ul", "ol", "blockquote"])
+// Tags that only group other blocks and never become a block themselves
+const CONTAINER_TAGS = new Set(["ul", "ol", "blockquote"])
+const ALIGNMENTS: Alignment[] = ["left", "center", "right", "justify"]
+
+const IMAGE_TEXT = "\ufffc"
+
+// Formatting characters, except in [[wiki links]] which stay as they are
+const MARKDOWN_ESCAPABLE = /(\[\[[^[\]\n]+?\]\])|([\\`*_~[\]])/g
+// Paragraph text that would read as a heading, list item or quote in Markdown
+const MARKDOWN_LINE_START = /^(#{1,6}\s|[-*+]\s|\d+[.)]\s|>)/
+
+function sameMark(a: Mark, b: Mark): boolean {
+  return a.type === b.type && a.href === b.href
+}
+
+function sameMarks(a: Mark[], b: Mark[]): boolean {
+  return a.length === b.length && a.every((mark, index) => sameMark(mark, b[index]))
+}
+
+function addMark(marks: Mark[], mark: Mark): Mark[] {
+  return [...marks.filter((existing) => existing.type !== mark.type), mark].sort(
+    (a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type),
+  )
+}
+
+function removeMark(marks: Mark[], type: MarkType): Mark[] {
+  return marks.filter((mark) => mark.type !== type)
+}
+
+function isListBlock(block: Block): boolean {
+  return block.type === "bullet" || block.type === "ordered"
+}
+
+function blockText(block: Block): string {
+  return block.runs.map((run) => run.text).join("")
+}
+
+function blockLength(block: Block): number {
+  return block.runs.reduce((length, run) => length + run.text.length, 0)
+}
+
+// Merge neighbouring runs with the same marks and drop empty ones
+function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const result: TextRun[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const last = result[result.length - 1]
+    if (last && !last.image && !run.image && sameMarks(last.marks, run.marks)) {
+      result[result.length - 1] = { text: last.text + run.text, marks: last.marks }
+    } else {
+      result.push(run)
+    }
+  }
+  return result
+}
+
+function sliceRuns(runs: TextRun[], from: number, to = Infinity): TextRun[] {
+  const result: TextRun[] = []
+  let position = 0
+  for (const run of runs) {
+    const start = position
+    position += run.text.length
+    if (position <= from || start >= to) continue
+    result.push({ ...run, text: run.text.slice(Math.max(from - start, 0), Math.min(to, position) - start) })
+  }
+  return result
+}
+
+function paragraph(runs: TextRun[] = []): Block {
+  return { type: "paragraph", level: 0, runs }
+}
+
+function comparePositions(a: DocumentPosition, b: DocumentPosition): number {
+  return a.block - b.block || a.offset - b.offset
+}
+
+function orderedRange(selection: DocumentSelection): [DocumentPosition, DocumentPosition] {
+  const { anchor, focus } = selection
+  return comparePositions(anchor, focus) <= 0 ? [anchor, focus] : [focus, anchor]
+}
+
+function caretAt(position: DocumentPosition): DocumentSelection {
+  return { anchor: position, focus: position }
+}
+
+function endOf(doc: NoteDocument): DocumentPosition {
+  const block = doc.blocks.length - 1
+  return { block, offset: blockLength(doc.blocks[block]) }
+}
+
+// The word around a collapsed caret, so marks can be applied without selecting first
+function wordAt(doc: NoteDocument, position: DocumentPosition): [DocumentPosition, DocumentPosition] | null {
+  const text = blockText(doc.blocks[position.block])
+  let from = position.offset
+  let to = position.offset
+  while (from > 0 && /\S/.test(text[from - 1])) from--
+  while (to < text.length && /\S/.test(text[to])) to++
+  return from < to ? [{ ...position, offset: from }, { ...position, offset: to }] : null
+}
+
+function updateMarks(
+  doc: NoteDocument,
+  start: DocumentPosition,
+  end: DocumentPosition,
+  update: (marks: Mark[]) => Mark[],
+): NoteDocument {
+  const blocks = doc.blocks.map((block, index) => {
+    if (index < start.block || index > end.block || block.type === "code" || block.type === "rule") return block
+
+    const from = index === start.block ? start.offset : 0
+    const to = index === end.block ? end.offset : Infinity
+    const marked = sliceRuns(block.runs, from, to).map((run) => ({ ...run, marks: update(run.marks) }))
+    const runs = [...sliceRuns(block.runs, 0, from), ...marked, ...sliceRuns(block.runs, to)]
+    return { ...block, runs: normalizeRuns(runs) }
+  })
+  return { blocks }
+}
+
+function selectedRuns(doc: NoteDocument, start: DocumentPosition, end: DocumentPosition): TextRun[] {
+  return doc.blocks.slice(start.block, end.block + 1).flatMap((block, index) => {
+    if (block.type === "code" || block.type === "rule") return []
+    const from = index === 0 ? start.offset : 0
+    const to = start.block + index === end.block ? end.offset : Infinity
+    return sliceRuns(block.runs, from, to)
+  })
+}
+
+// Bold, italic and so on: removed when all of the selection already has the mark, added otherwise
+export function toggleMark(state: EditorState, type: Exclude<MarkType, "link">): EditorState {
+  let [start, end] = orderedRange(state.selection)
+  if (comparePositions(start, end) === 0) {
+    const word = wordAt(state.doc, start)
+    if (!word) return state
+    ;[start, end] = word
+  }
+
+  const runs = selectedRuns(state.doc, start, end)
+  const covered = runs.length > 0 && runs.every((run) => run.marks.some((mark) => mark.type === type))
+  const doc = updateMarks(state.doc, start, end, (marks) =>
+    covered ? removeMark(marks, type) : addMark(marks, { type }),
+  )
+  return { doc, selection: state.selection }
+}
+
+// Link the selection, or insert the address itself as a link when nothing is selected
+export function setLink(state: EditorState, href: string): EditorState {
+  if (!isSafeUrl(href)) return state
+
+  const link: Mark = { type: "link", href: href.trim() }
+  const [start, end] = orderedRange(state.selection)
+  if (comparePositions(start, end) === 0) {
+    return insertFragment(state, { blocks: [paragraph([{ text: link.href!, marks: [link] }])] })
+  }
+  return { doc: updateMarks(state.doc, start, end, (marks) => addMark(marks, link)), selection: state.selection }
+}
+
+function updateSelectedBlocks(state: EditorState, update: (block: Block) => Block): EditorState {
+  const [start, end] = orderedRange(state.selection)
+  const blocks = state.doc.blocks.map((block, index) =>
+    index >= start.block && index <= end.block && block.type !== "rule" ? update(block) : block,
+  )
+  return { doc: { blocks }, selection: state.selection }
+}
+
+function selectedBlocks(state: EditorState): Block[] {
+  const [start, end] = orderedRange(state.selection)
+  return state.doc.blocks.slice(start.block, end.block + 1)
+}
+
+// Headings and other block types; choosing the type the blocks already have turns them back into paragraphs
+export function setBlockType(state: EditorState, type: Exclude<BlockType, "rule">, level = 0): EditorState {
+  const unchanged = selectedBlocks(state).every((block) => block.type === type && block.level === level)
+  return updateSelectedBlocks(state, (block) =>
+    unchanged ? { ...block, type: "paragraph", level: 0 } : { ...block, type, level },
+  )
+}
+
+// Lists keep the depth of items that already were list items
+export function toggleList(state: EditorState, ordered: boolean): EditorState {
+  const type = ordered ? "ordered" : "bullet"
+  const unchanged = selectedBlocks(state).every((block) => block.type === type)
+  return updateSelectedBlocks(state, (block) =>
+    unchanged
+      ? { ...block, type: "paragraph", level: 0 }
+      : { ...block, type, level: isListBlock(block) ? block.level : 0 },
+  )
+}
+
+export function setAlignment(state: EditorState, align: Alignment): EditorState {
+  return updateSelectedBlocks(state, (block) => ({ ...block, align: align === "left" ? undefined : align }))
+}
+
+function deleteRange(doc: NoteDocument, start: DocumentPosition, end: DocumentPosition): NoteDocument {
+  if (comparePositions(start, end) === 0) return doc
+
+  const first = doc.blocks[start.block]
+  const last = doc.blocks[end.block]
+  const runs = [...sliceRuns(first.runs, 0, start.offset), ...sliceRuns(last.runs, end.offset)]
+  const merged = { ...first, runs: normalizeRuns(runs) }
+  return { blocks: [...doc.blocks.slice(0, start.block), merged, ...doc.blocks.slice(end.block + 1)] }
+}
+
+// Put a fragment, e.g. pasted content, in place of the selection. A single block joins the text around
+// the caret; with more blocks the first and last join the text before and after it.
+export function insertFragment(state: EditorState, fragment: NoteDocument): EditorState {
+  const [start, end] = orderedRange(state.selection)
+  const doc = deleteRange(state.doc, start, end)
+  const pieces = fragment.blocks
+  if (pieces.length === 0) return { doc, selection: caretAt(start) }
+
+  const target = doc.blocks[start.block]
+  const type = target.type === "rule" ? "paragraph" : target.type
+  const before = sliceRuns(target.runs, 0, start.offset)
+  const after = sliceRuns(target.runs, start.offset)
+  const last = pieces[pieces.length - 1]
+
+  const inserted: Block[] =
+    pieces.length === 1
+      ? [{ ...target, type, runs: normalizeRuns([...before, ...last.runs, ...after]) }]
+      : [
+          { ...target, type, runs: normalizeRuns([...before, ...pieces[0].runs]) },
+          ...pieces.slice(1, -1),
+          { ...last, runs: normalizeRuns([...last.runs, ...after]) },
+        ]
+  const caret = {
+    block: start.block + pieces.length - 1,
+    offset: (pieces.length === 1 ? start.offset : 0) + blockLength(last),
+  }
+
+  return {
+    doc: { blocks: [...doc.blocks.slice(0, start.block), ...inserted, ...doc.blocks.slice(start.block + 1)] },
+    selection: caretAt(caret),
+  }
+}
+
+// Typed or inserted text takes the marks of the character before the caret
+export function insertText(state: EditorState, text: string): EditorState {
+  const [start] = orderedRange(state.selection)
+  const before = sliceRuns(state.doc.blocks[start.block].runs, start.offset - 1, start.offset)[0]
+  const marks = before && start.offset > 0 ? before.marks : []
+  return insertFragment(state, { blocks: text.split("\n").map((line) => paragraph([{ text: line, marks }])) })
+}
+
+export function insertImage(state: EditorState, image: InlineImage): EditorState {
+  return insertFragment(state, { blocks: [paragraph([{ text: IMAGE_TEXT, marks: [], image }])] })
+}
+
+interface ReadContext {
+  type: BlockType
+  level: number
+  align?: Alignment
+  marks: Mark[]
+  // -1 outside of lists
+  listDepth: number
+  listType: "bullet" | "ordered"
+  // Text inside <pre>, and everything in the editor, whose white-space is pre-wrap
+  preserveWhitespace: boolean
+}
+
+interface DomPoint {
+  node: Node
+  offset: number
+}
+
+// Walks a DOM tree into blocks. Remembers which element and text nodes each block came from, so
+// selections can be mapped from the DOM to the model and back.
+class DocumentReader {
+  readonly blocks: Block[] = []
+  readonly positions: (DocumentPosition | null)[]
+  private blockNodes: Node[] = []
+  // Text nodes, and the <img>, <audio> and <video> elements of images, with where their text starts in their block
+  private textNodes: { node: Node; block: number; start: number }[] = []
+  private current: Block | null = null
+
+  constructor(
+    private preserveWhitespace: boolean,
+    private points: DomPoint[] = [],
+  ) {
+    this.positions = points.map(() => null)
+  }
+
+  read(root: Node): NoteDocument {
+    this.visitChildren(root, {
+      type: "paragraph",
+      level: 0,
+      marks: [],
+      listDepth: -1,
+      listType: "bullet",
+      preserveWhitespace: this.preserveWhitespace,
+    })
+    this.finishBlock()
+
+    if (this.blocks.length === 0) {
+      this.blocks.push(paragraph())
+      this.blockNodes.push(root)
+    }
+    const end = endOf({ blocks: this.blocks })
+    this.positions.forEach((position, index) => {
+      if (!position || position.block >= this.blocks.length) {
+        this.positions[index] = position ? end : null
+      } else {
+        position.offset = Math.min(position.offset, blockLength(this.blocks[position.block]))
+      }
+    })
+    return { blocks: this.blocks }
+  }
+
+  // Where a model position is in the DOM that was read
+  domPoint(position: DocumentPosition): DomPoint {
+    const texts = this.textNodes.filter((text) => text.block === position.block)
+    for (const text of texts) {
+      const isImage = text.node.nodeType === Node.ELEMENT_NODE
+      const length = isImage ? IMAGE_TEXT.length : text.node.textContent?.length || 0
+      if (position.offset < text.start || position.offset > text.start + length) continue
+      if (!isImage) return { node: text.node, offset: position.offset - text.start }
+
+      // Before or after the image, in the element around it
+      const parent = text.node.parentNode!
+      const index = Array.from(parent.childNodes).indexOf(text.node as ChildNode)
+      return { node: parent, offset: index + position.offset - text.start }
+    }
+    // Empty blocks, or after a closing line break: before the last <br> of the block
+    const element = this.blockNodes[position.block] ?? this.blockNodes[this.blockNodes.length - 1]
+    return { node: element, offset: Math.max(element.childNodes.length - 1, 0) }
+  }
+
+  private here(): DocumentPosition {
+    return this.current
+      ? { block: this.blocks.length - 1, offset: blockLength(this.current) }
+      : { block: this.blocks.length, offset: 0 }
+  }
+
+  private checkPoints(node: Node, offset: number, position: () => DocumentPosition): void {
+    this.points.forEach((point, index) => {
+      if (point.node === node && point.offset === offset) this.positions[index] = position()
+    })
+  }
+
+  private startBlock(context: ReadContext, node: Node): Block {
+    this.finishBlock()
+    const block: Block = { type: context.type, level: context.level, runs: [] }
+    if (context.align) block.align = context.align
+    this.blocks.push(block)
+    this.blockNodes.push(node)
+    this.current = block
+    return block
+  }
+
+  private finishBlock(): void {
+    const block = this.current
+    if (!block) return
+
+    // A trailing <br> only keeps an empty line open in the browser
+    const last = block.runs[block.runs.length - 1]
+    if (last?.text.endsWith("\n")) last.text = last.text.slice(0, -1)
+    if (!this.preserveWhitespace && block.type !== "code" && last) last.text = last.text.replace(/ +$/, "")
+    block.runs = normalizeRuns(block.runs)
+    this.current = null
+  }
+
+  private appendText(text: string, context: ReadContext, node: Node): void {
+    if (!text) return
+    if (!this.current) {
+      if (!context.preserveWhitespace && !text.trim()) return
+      this.startBlock(context, node.parentNode ?? node)
+    }
+
+    const block = this.current!
+    const marks = block.type === "code" ? [] : context.marks
+    const last = block.runs[block.runs.length - 1]
+    if (last && !last.image && sameMarks(last.marks, marks)) {
+      last.text += text
+    } else {
+      block.runs.push({ text, marks })
+    }
+  }
+
+  private appendImage(element: HTMLElement, context: ReadContext): void {
+    // Images shown from an object URL keep their stored source in data-src
+    const src = element.getAttribute("data-src") || element.getAttribute("src")
+    if (!src) return
+
+    if (!this.current) this.startBlock(context, element.parentNode ?? element)
+    const block = this.current!
+    const alt = element.getAttribute("alt") || element.getAttribute("title") || ""
+    this.textNodes.push({ node: element, block: this.blocks.length - 1, start: blockLength(block) })
+    block.runs.push({ text: IMAGE_TEXT, marks: context.marks, image: { src, alt } })
+  }
+
+  private visitText(node: Node, context: ReadContext): void {
+    let text = (node.textContent || "").replace(/\u00a0/g, " ")
+    if (!context.preserveWhitespace) {
+      text = text.replace(/[ \t\n\r\f]+/g, " ")
+      const previous = this.current ? blockText(this.current) : ""
+      if (!previous || /[ \n]$/.test(previous)) text = text.replace(/^ /, "")
+    }
+
+    const start = this.here()
+    this.points.forEach((point, index) => {
+      if (point.node === node) this.positions[index] = { block: start.block, offset: start.offset + point.offset }
+    })
+
+    this.appendText(text, context, node)
+    if (this.current && text) {
+      this.textNodes.push({ node, block: this.blocks.length - 1, start: blockLength(this.current) - text.length })
+    }
+  }
+
+  private visitChildren(node: Node, context: ReadContext): void {
+    const children = Array.from(node.childNodes)
+    children.forEach((child, index) => {
+      this.checkPoints(node, index, () => this.here())
+      this.visit(child, context)
+    })
+    this.checkPoints(node, children.length, () => this.here())
+  }
+
+  private visit(node: Node, context: ReadContext): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.visitText(node, context)
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const element = node as HTMLElement
+    const tag = element.tagName.toLowerCase()
+
+    if (tag === "br") {
+      if (!this.current) this.startBlock(context, node.parentNode ?? node)
+      this.appendText("\n", context, node)
+      return
+    }
+
+    if (tag === "img" || tag === "audio" || tag === "video") {
+      this.appendImage(element, context)
+      return
+    }
+
+    if (tag === "hr") {
+      this.startBlock({ ...context, type: "rule", level: 0 }, element)
+      this.finishBlock()
+      return
+    }
+
+    if (!BLOCK_TAGS.has(tag)) {
+      const mark = tag === "a" ? linkMark(element) : MARK_TAGS[tag]
+      this.visitChildren(element, mark ? { ...context, marks: addMark(context.marks, mark) } : context)
+      return
+    }
+
+    this.finishBlock()
+    const inner = blockContext(element, tag, context)
+    const blockCount = this.blocks.length
+    this.visitChildren(element, inner)
+    // Empty paragraphs and list items are kept as empty lines
+    if (!CONTAINER_TAGS.has(tag) && this.blocks.length === blockCount && !this.current) {
+      this.startBlock(inner, element)
+    }
+    this.finishBlock()
+  }
+}
+
+function linkMark(element: Element): Mark | null {
+  const href = element.getAttribute("href")
+  return href && isSafeUrl(href) ? { type: "link", href: href.trim() } : null
+}
+
+function readAlignment(element: HTMLElement): Alignment | undefined {
+  const align = (element.getAttribute("align") || element.style.textAlign || "").toLowerCase() as Alignment
+  return ALIGNMENTS.includes(align) ? align : undefined
+}
+
+function blockContext(element: HTMLElement, tag: string, context: ReadContext): ReadContext {
+  const align = readAlignment(element) ?? context.align
+  const inner = { ...context, align: align === "left" ? undefined : align }
+
+  switch (tag) {
+    case "ul":
+    case "ol":
+      return { ...inner, listDepth: context.listDepth + 1, listType: tag === "ol" ? "ordered" : "bullet" }
+    case "li":
+      return { ...inner, type: context.listType, level: Math.max(context.listDepth, 0) }
+    case "blockquote":
+      return { ...inner, type: "quote", level: 0 }
+    case "pre":
+      return { ...inner, type: "code", level: 0, marks: [], preserveWhitespace: true }
+    case "p":
+    case "div":
+      return inner
+    default:
+      return { ...inner, type: "heading", level: Number(tag[1]) }
+  }
+}
+
+// Parse HTML from anywhere (stored notes, the clipboard) into a document
+export function parseHtml(html: string): NoteDocument {
+  const body = new DOMParser().parseFromString(sanitizeHtml(html), "text/html").body
+  return new DocumentReader(false).read(body)
+}
+
+export function textToDocument(text: string): NoteDocument {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n")
+  return { blocks: lines.map((line) => paragraph(line ? [{ text: line, marks: [] }] : [])) }
+}
+
+// Read the editor's content together with the browser selection, when it is inside the editor
+export function readEditorState(root: HTMLElement): EditorState {
+  const selection = window.getSelection()
+  const inside =
+    !!selection &&
+    selection.rangeCount > 0 &&
+    root.contains(selection.anchorNode) &&
+    root.contains(selection.focusNode)
+  const points = inside
+    ? [
+        { node: selection.anchorNode!, offset: selection.anchorOffset },
+        { node: selection.focusNode!, offset: selection.focusOffset },
+      ]
+    : []
+
+  const reader = new DocumentReader(true, points)
+  const doc = reader.read(root)
+  const [anchor, focus] = reader.positions
+  const end = endOf(doc)
+  return { doc, selection: { anchor: anchor ?? end, focus: focus ?? anchor ?? end } }
+}
+
+export function readEditorDocument(root: HTMLElement): NoteDocument {
+  return new DocumentReader(true).read(root)
+}
+
+// Render a state into the editor and select what the state has selected
+export function renderEditorState(root: HTMLElement, state: EditorState): void {
+  root.innerHTML = documentToHtml(state.doc)
+
+  const reader = new DocumentReader(true)
+  reader.read(root)
+  const anchor = reader.domPoint(state.selection.anchor)
+  const focus = reader.domPoint(state.selection.focus)
+  root.focus({ preventScroll: true })
+  window.getSelection()?.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset)
+}
+
+// Open and close marks around runs so that marks shared by neighbouring runs are written once
+function serializeRuns(
+  runs: TextRun[],
+  text: (run: TextRun) => string,
+  open: (mark: Mark) => string,
+  close: (mark: Mark) => string,
+): string {
+  let output = ""
+  const stack: Mark[] = []
+  for (const run of runs) {
+    let shared = 0
+    while (shared < stack.length && shared < run.marks.length && sameMark(stack[shared], run.marks[shared])) shared++
+    while (stack.length > shared) output += close(stack.pop()!)
+    for (const mark of run.marks.slice(shared)) {
+      output += open(mark)
+      stack.push(mark)
+    }
+    output += text(run)
+  }
+  while (stack.length > 0) output += close(stack.pop()!)
+  return output
+}
+
+function runsToHtml(runs: TextRun[]): string {
+  const text = runs.map((run) => run.text).join("")
+  if (!text) return "<br>"
+
+  const html = serializeRuns(
+    runs,
+    (run) =>
+      run.image ? embedHtml(run.image.src, run.image.alt) : escapeHtml(run.text).replace(/\n/g, "<br>"),
+    (mark) =>
+      mark.type === "link"
+        ? `<a href="${escapeHtml(mark.href || "")}" rel="noopener noreferrer">`
+        : `<${HTML_MARK_TAGS[mark.type]}>`,
+    (mark) => `</${HTML_MARK_TAGS[mark.type]}>`,
+  )
+  // A line break at the very end only shows with a second one after it
+  return text.endsWith("\n") ? `${html}<br>` : html
+}
+
+export function documentToHtml(doc: NoteDocument): string {
+  let html = ""
+  // Lists that are open, each with an open <li>
+  const lists: { tag: string; depth: number }[] = []
+  let inQuote = false
+
+  const closeList = () => {
+    html += `</li></${lists.pop()!.tag}>`
+  }
+
+  for (const block of doc.blocks) {
+    if (!isListBlock(block)) {
+      while (lists.length > 0) closeList()
+    }
+    if (inQuote && block.type !== "quote") {
+      html += "</blockquote>"
+      inQuote = false
+    }
+    const style = block.align ? ` style="text-align: ${block.align};"` : ""
+
+    switch (block.type) {
+      case "bullet":
+      case "ordered": {
+        const tag = block.type === "bullet" ? "ul" : "ol"
+        const top = () => lists[lists.length - 1]
+        while (lists.length > 0 && (top().depth > block.level || (top().depth === block.level && top().tag !== tag))) {
+          closeList()
+        }
+        if (lists.length > 0 && top().depth === block.level) {
+          html += "</li>"
+        } else {
+          html += `<${tag}>`
+          lists.push({ tag, depth: block.level })
+        }
+        html += `<li${style}>${runsToHtml(block.runs)}`
+        break
+      }
+      case "quote":
+        if (!inQuote) html += "<blockquote>"
+        inQuote = true
+        html += `<p${style}>${runsToHtml(block.runs)}</p>`
+        break
+      case "heading":
+        html += `<h${block.level}${style}>${runsToHtml(block.runs)}</h${block.level}>`
+        break
+      case "code":
+        html += `<pre>${runsToHtml(block.runs.map((run) => ({ ...run, marks: [] })))}</pre>`
+        break
+      case "rule":
+        html += "<hr>"
+        break
+      default:
+        html += `<p${style}>${runsToHtml(block.runs)}</p>`
+    }
+  }
+
+  while (lists.length > 0) closeList()
+  if (inQuote) html += "</blockquote>"
+  return html
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_ESCAPABLE, (_, link: string | undefined, char: string) => link ?? `\\${char}`)
+}
+
+function runsToMarkdown(runs: TextRun[]): string {
+  return serializeRuns(
+    runs,
+    (run) =>
+      run.image
+        ? `![${run.image.alt.replace(/[[\]]/g, "")}](${run.image.src})`
+        : run.marks.some((mark) => mark.type === "code")
+          ? run.text
+          : escapeMarkdown(run.text),
+    (mark) => MARKDOWN_MARKS[mark.type][0],
+    (mark) => (mark.type === "link" ? `](${mark.href})` : MARKDOWN_MARKS[mark.type][1]),
+  )
+}
+
+export function documentToMarkdown(doc: NoteDocument): string {
+  let markdown = ""
+  let previous: Block | null = null
+  // Numbers of the ordered list items at each depth
+  let counters: number[] = []
+
+  for (const block of doc.blocks) {
+    const text = runsToMarkdown(block.runs)
+    let line: string
+
+    switch (block.type) {
+      case "heading":
+        line = `${"#".repeat(block.level)} ${text.replace(/\n/g, " ")}`
+        break
+      case "bullet":
+      case "ordered": {
+        counters = counters.slice(0, block.level + 1)
+        counters[block.level] = block.type === "ordered" ? (counters[block.level] || 0) + 1 : 0
+        const marker = block.type === "ordered" ? `${counters[block.level]}.` : "-"
+        line = `${"  ".repeat(block.level)}${marker} ${text.replace(/\n/g, " ")}`
+        break
+      }
+      case "quote":
+        line = text
+          .split("\n")
+          .map((quoted) => `> ${quoted}`.trimEnd())
+          .join("\n")
+        break
+      case "code":
+        line = `\`\`\`\n${blockText(block).replace(/\ufffc/g, "")}\n\`\`\``
+        break
+      case "rule":
+        line = "---"
+        break
+      default:
+        line = text
+          .split("\n")
+          .map((part) => (MARKDOWN_LINE_START.test(part) ? part.replace(/^(\d*)(.)/, "$1\\$2") : part))
+          .join("\n")
+    }
+    if (!isListBlock(block)) counters = []
+
+    if (previous) {
+      const bothLists = isListBlock(previous) && isListBlock(block)
+      const bothQuotes = previous.type === "quote" && block.type === "quote"
+      markdown += bothLists ? "\n" : bothQuotes ? "\n>\n" : "\n\n"
+    }
+    markdown += line
+    previous = block
+  }
+
+  return markdown.replace(/\n{3,}/g, "\n\n").trim()
+}
+
+export function documentToText(doc: NoteDocument): string {
+  let counters: number[] = []
+  return doc.blocks
+    .map((block) => {
+      const text = blockText(block).replace(/\ufffc/g, "")
+      if (!isListBlock(block)) {
+        counters = []
+        return block.type === "rule" ? "---" : text
+      }
+
+      counters = counters.slice(0, block.level + 1)
+      counters[block.level] = block.type === "ordered" ? (counters[block.level] || 0) + 1 : 0
+      const marker = block.type === "ordered" ? `${counters[block.level]}.` : "-"
+      return `${"  ".repeat(block.level)}${marker} ${text}`
+    })
+    .join("\n")
+}
+
+const HISTORY_LIMIT = 100
+
+// Undo and redo stacks of editor states, or of the Markdown source in Markdown mode
+export class EditHistory<State = EditorState> {
+  private undoStack: State[] = []
+  private redoStack: State[] = []
+
+  // Call with the state from before a change
+  record(state: State): void {
+    this.undoStack.push(state)
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift()
+    this.redoStack = []
+  }
+
+  undo(current: State): State | null {
+    const previous = this.undoStack.pop()
+    if (!previous) return null
+    this.redoStack.push(current)
+    return previous
+  }
+
+  redo(current: State): State | null {
+    const next = this.redoStack.pop()
+    if (!next) return null
+    this.undoStack.push(current)
+    return next
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_FILENAME_PATTERN,
+  formatFilename,
+  parseFilename,
+  slugifyTitle,
+  validateFilenamePattern,
+  withIdSuffix,
+} from "@/lib/note-filenames"
+
+// Local time, so the formatted date does not depend on the machine's time zone
+const date = new Date(2025, 0, 15, 9, 30).toISOString()
+const note = { id: "1736947200123", title: "My Note", type: "text" as const, date }
+
+describe("slugifyTitle", () => {
+  it("turns spaces into underscores and drops symbols", () => {
+    expect(slugifyTitle("  My  first note!? ")).toBe("My_first_note")
+    expect(slugifyTitle("a/b\\c:d")).toBe("abcd")
+  })
+
+  it("keeps letters of any script", () => {
+    expect(slugifyTitle("Café 日記")).toBe("Café_日記")
+    expect(slugifyTitle("Café")).toBe("Café")
+  })
+
+  it("falls back to Untitled when nothing is left", () => {
+    expect(slugifyTitle("")).toBe("Untitled")
+    expect(slugifyTitle("?!*")).toBe("Untitled")
+    expect(slugifyTitle("__--__")).toBe("Untitled")
+  })
+
+  it("cuts long titles without splitting characters", () => {
+    // Letters outside the Basic Multilingual Plane take two UTF-16 code units each
+    expect(slugifyTitle("𝒜".repeat(100))).toBe("𝒜".repeat(60))
+    expect(slugifyTitle(`${"a".repeat(59)} b`)).toBe("a".repeat(59))
+  })
+})
+
+describe("validateFilenamePattern", () => {
+  it("accepts patterns with a title or id", () => {
+    expect(validateFilenamePattern(DEFAULT_FILENAME_PATTERN)).toBeNull()
+    expect(validateFilenamePattern("{yyyy}/{MM}/{title}")).toBeNull()
+  })
+
+  it("rejects empty, unknown and unsafe patterns", () => {
+    expect(validateFilenamePattern("  ")).toBe("Pattern cannot be empty")
+    expect(validateFilenamePattern("{title}_{weekday}")).toBe("Unknown token {weekday}")
+    expect(validateFilenamePattern("{yyyy}-{MM}")).toBe("Pattern must contain {title} or {id}")
+    expect(validateFilenamePattern("{title}:{id}")).not.toBeNull()
+    expect(validateFilenamePattern("../{title}")).not.toBeNull()
+    expect(validateFilenamePattern("{yyyy}//{title}")).not.toBeNull()
+  })
+})
+
+describe("formatFilename", () => {
+  it("fills in every token", () => {
+    expect(formatFilename(DEFAULT_FILENAME_PATTERN, note)).toBe("2025-01-15_0930_My_Note_200123.txt")
+    expect(formatFilename("{type}/{yyyy}/{MM}/{dd}-{HH}{mm}-{title}-{id}", note)).toBe(
+      "text/2025/01/15-0930-My_Note-200123.txt",
+    )
+  })
+
+  it("picks the extension from the MIME type", () => {
+    expect(formatFilename("{title}", { ...note, mimeType: "text/markdown" })).toBe("My_Note.md")
+    expect(formatFilename("{title}", { ...note, type: "photo" })).toBe("My_Note.jpg")
+  })
+
+  it("uses the default pattern when the pattern is invalid", () => {
+    expect(formatFilename("{title}_{weekday}", note)).toBe(formatFilename(DEFAULT_FILENAME_PATTERN, note))
+    expect(formatFilename("", note)).toBe("2025-01-15_0930_My_Note_200123.txt")
+  })
+
+  it("names notes without a title", () => {
+    expect(formatFilename("{title}", { ...note, title: "" })).toBe("Untitled.txt")
+  })
+})
+
+describe("withIdSuffix", () => {
+  it("adds the short id before the extension", () => {
+    expect(withIdSuffix("My_Note.txt", "1736947400123")).toBe("My_Note(400123).txt")
+    expect(withIdSuffix("2025/01/My_Note.tar.gz", "abc-def")).toBe("2025/01/My_Note.tar(abcdef).gz")
+  })
+
+  it("handles names without an extension", () => {
+    expect(withIdSuffix("2025.01/My_Note", "42")).toBe("2025.01/My_Note(42)")
+  })
+})
+
+describe("parseFilename", () => {
+  it("reads back what formatFilename wrote", () => {
+    const parsed = parseFilename(formatFilename(DEFAULT_FILENAME_PATTERN, note), DEFAULT_FILENAME_PATTERN)
+    expect(parsed?.title).toBe("My Note")
+    expect(parsed?.date?.toISOString()).toBe(date)
+  })
+
+  it("reads names with a collision suffix", () => {
+    const filename = withIdSuffix(formatFilename("{yyyy}-{MM}-{dd}_{title}", note), "1736947400123")
+    expect(filename).toBe("2025-01-15_My_Note(400123).txt")
+    expect(parseFilename(filename, "{yyyy}-{MM}-{dd}_{title}")?.title).toBe("My Note")
+  })
+
+  it("reads names written by older versions", () => {
+    const parsed = parseFilename("2024-03-02_Old_Entry.txt", "{title}-{id}")
+    expect(parsed?.title).toBe("Old Entry")
+    expect(parsed?.date).toEqual(new Date(2024, 2, 2, 12, 0))
+  })
+
+  it("falls back to the default pattern when the pattern is invalid", () => {
+    expect(parseFilename("2025-01-15_0930_My_Note_200123.txt", "{unknown}")?.title).toBe("My Note")
+  })
+
+  it("returns null for names that match no pattern", () => {
+    expect(parseFilename("holiday.txt", DEFAULT_FILENAME_PATTERN)).toBeNull()
+    expect(parseFilename("", DEFAULT_FILENAME_PATTERN)).toBeNull()
+  })
+})
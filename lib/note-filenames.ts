@@ -0,0 +1,141 @@
+import type { NoteType } from "@/lib/file-storage"
+import { getExtensionForMimeType } from "@/lib/media-formats"
+
+// Tokens a filename pattern can use; "/" in a pattern creates subfolders below Text/Audio/Video/Images
+export const FILENAME_TOKENS = ["yyyy", "MM", "dd", "HH", "mm", "title", "id", "type"] as const
+export type FilenameToken = (typeof FILENAME_TOKENS)[number]
+
+export const DEFAULT_FILENAME_PATTERN = "{yyyy}-{MM}-{dd}_{HH}{mm}_{title}_{id}"
+
+const MAX_TITLE_LENGTH = 60
+const TOKEN_PATTERN = /\{(\w+)\}/g
+
+// Keep letters and digits of any script, so "日記" or "Café" survive; spaces become "_", other symbols are dropped
+export function slugifyTitle(title: string): string {
+  const slug = title
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/[\s_]+/g, "_")
+
+  // Cut by code point so surrogate pairs are never split
+  return Array.from(slug).slice(0, MAX_TITLE_LENGTH).join("").replace(/^[_-]+|[_-]+$/g, "") || "Untitled"
+}
+
+// Short, filename-safe form of a note id, e.g. "1736947200123" -> "200123"
+export function shortNoteId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9]/g, "").slice(-6) || "note"
+}
+
+// Check a user supplied pattern; returns an error message, or null when it is usable
+export function validateFilenamePattern(pattern: string): string | null {
+  if (!pattern.trim()) return "Pattern cannot be empty"
+  if (/[\\:*?"<>|]/.test(pattern)) return 'Pattern cannot contain \\ : * ? " < > |'
+  if (pattern.startsWith("/") || pattern.endsWith("/") || pattern.includes("//")) {
+    return "Folders in a pattern cannot be empty"
+  }
+  if (pattern.split("/").some((segment) => segment === "." || segment === "..")) {
+    return 'Folders cannot be named "." or ".."'
+  }
+
+  for (const [, token] of pattern.matchAll(TOKEN_PATTERN)) {
+    if (!FILENAME_TOKENS.includes(token as FilenameToken)) return `Unknown token {${token}}`
+  }
+  if (!pattern.includes("{title}") && !pattern.includes("{id}")) {
+    return "Pattern must contain {title} or {id}"
+  }
+  return null
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0")
+
+// Build the path of a note relative to its type folder, e.g. "2025-01-15_0930_My_Note_200123.txt";
+// the extension follows the MIME type of the saved data
+export function formatFilename(
+  pattern: string,
+  note: { id: string; title: string; type: NoteType; date: string; mimeType?: string },
+): string {
+  const date = new Date(note.date)
+  const values: Record<FilenameToken, string> = {
+    yyyy: date.getFullYear().toString(),
+    MM: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    title: slugifyTitle(note.title),
+    id: shortNoteId(note.id),
+    type: note.type,
+  }
+
+  const validPattern = validateFilenamePattern(pattern) ? DEFAULT_FILENAME_PATTERN : pattern
+  const name = validPattern.replace(TOKEN_PATTERN, (_, token: FilenameToken) => values[token])
+  return `${name}${getExtensionForMimeType(note.mimeType, note.type)}`
+}
+
+// Add the note id before the extension, e.g. "My_Note(400123).txt", for when the formatted name is already taken
+export function withIdSuffix(filename: string, id: string): string {
+  const extension = filename.match(/\.[^./]+$/)?.[0] ?? ""
+  return `${filename.slice(0, filename.length - extension.length)}(${shortNoteId(id)})${extension}`
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+const tokenExpressions: Record<FilenameToken, string> = {
+  yyyy: "(\\d{4})",
+  MM: "(\\d{2})",
+  dd: "(\\d{2})",
+  HH: "(\\d{2})",
+  mm: "(\\d{2})",
+  title: "(.+?)",
+  id: "([a-zA-Z0-9]+)",
+  type: "([a-z]+)",
+}
+
+export interface ParsedFilename {
+  title?: string
+  date?: Date
+}
+
+// Recover what a filename says about its note, trying the configured pattern and then the
+// `YYYY-MM-DD_Title.ext` names older versions wrote
+export function parseFilename(filename: string, pattern: string): ParsedFilename | null {
+  const patterns = [validateFilenamePattern(pattern) ? DEFAULT_FILENAME_PATTERN : pattern, "{yyyy}-{MM}-{dd}_{title}"]
+
+  for (const candidate of patterns) {
+    const tokens: FilenameToken[] = []
+    let source = ""
+    let lastIndex = 0
+    for (const match of candidate.matchAll(TOKEN_PATTERN)) {
+      source += escapeRegExp(candidate.slice(lastIndex, match.index))
+      source += tokenExpressions[match[1] as FilenameToken]
+      tokens.push(match[1] as FilenameToken)
+      lastIndex = (match.index ?? 0) + match[0].length
+    }
+    source += escapeRegExp(candidate.slice(lastIndex))
+
+    // Allow the collision suffix added by withIdSuffix
+    const match = filename.match(new RegExp(`^${source}(?:\\([a-zA-Z0-9]+\\))?\\.[^./]+$`, "u"))
+    if (!match) continue
+
+    const values: Partial<Record<FilenameToken, string>> = {}
+    tokens.forEach((token, index) => {
+      values[token] = match[index + 1]
+    })
+
+    const parsed: ParsedFilename = {}
+    if (values.title) parsed.title = values.title.replace(/_/g, " ").trim()
+    if (values.yyyy && values.MM && values.dd) {
+      const date = new Date(
+        Number(values.yyyy),
+        Number(values.MM) - 1,
+        Number(values.dd),
+        values.HH ? Number(values.HH) : 12,
+        values.mm ? Number(values.mm) : 0,
+      )
+      if (!isNaN(date.getTime())) parsed.date = date
+    }
+    return parsed
+  }
+
+  return null
+}
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { extractWikiLinks, getLinkQuery, linkWikiTitles, wikiLinkAt } from "@/lib/note-links"
+
+describe("linkWikiTitles", () => {
+  it("turns links in rendered text into anchors", () => {
+    expect(linkWikiTitles("<p>See [[Trip to Rome]]</p>")).toBe(
+      '<p>See <a href="#" data-wiki-link="Trip to Rome" class="text-primary underline decoration-dotted">' +
+        "[[Trip to Rome]]</a></p>",
+    )
+  })
+
+  it("escapes quotes so the target cannot add attributes", () => {
+    const html = linkWikiTitles('<p>[[x" onmouseover="alert(1)]]</p>')
+    expect(html).toContain('data-wiki-link="x&quot; onmouseover=&quot;alert(1)"')
+    expect(html.match(/<a [^>]*>/)?.[0]).not.toContain('onmouseover="')
+  })
+
+  it("leaves links around markup as text", () => {
+    expect(linkWikiTitles("<p>[[a <em>b</em>]]</p>")).toBe("<p>[[a <em>b</em>]]</p>")
+  })
+
+  it("only links text, not attribute values, existing links or code", () => {
+    const html =
+      '<p><a href="https://x/[[a]]">[[b]]</a> <img alt="[[c]]" src="attachment:c.png"> <code>[[d]]</code></p>'
+    expect(linkWikiTitles(html)).toBe(html)
+  })
+
+  it("links several targets in one text", () => {
+    const container = document.createElement("div")
+    container.innerHTML = linkWikiTitles("<p>[[Anna]] &amp; [[2024-06-01]], then home</p>")
+    const links = Array.from(container.querySelectorAll("a"), (link) => link.dataset.wikiLink)
+    expect(links).toEqual(["Anna", "2024-06-01"])
+    expect(container.textContent).toBe("[[Anna]] & [[2024-06-01]], then home")
+  })
+})
+
+describe("wiki link parsing", () => {
+  it("extracts the targets of a text", () => {
+    expect(extractWikiLinks("Met [[Anna]] after [[2024-06-01]] and [[Anna]] again")).toEqual(["Anna", "2024-06-01"])
+  })
+
+  it("finds the link being typed and the link under the caret", () => {
+    expect(getLinkQuery("Went to [[Ro")).toBe("Ro")
+    expect(getLinkQuery("Went to [[Rome]] ")).toBeNull()
+    expect(wikiLinkAt("see [[Rome]] later", 7)).toBe("Rome")
+    expect(wikiLinkAt("see [[Rome]] later", 1)).toBeNull()
+  })
+})
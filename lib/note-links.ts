@@ -0,0 +1,135 @@
+// [[Wiki links]] between notes. A link names another note's title, or a day as [[2024-05-01]].
+// Links are kept as plain text in the note, so they survive renames of the file and every format.
+
+import type { NoteRecord } from "@/lib/note-repository"
+
+export const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g
+// An unfinished link right before the caret, e.g. "[[Trip to"
+const OPEN_LINK_PATTERN = /\[\[([^[\]\n]*)$/
+const DATE_LINK_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const MAX_SUGGESTIONS = 8
+
+export interface LinkSuggestion {
+  // What goes between the brackets
+  target: string
+  note: NoteRecord
+}
+
+// The day of a note as used in date links, in local time
+export function toDateKey(date: string | Date): string {
+  const day = new Date(date)
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`
+}
+
+// The readable text of a note; rich text is stripped of its markup first
+export function getNoteText(note: Pick<NoteRecord, "content" | "format">): string {
+  const content = note.content || ""
+  if (note.format === "markdown" || !/<\/?[a-z][^>]*>/i.test(content)) return content
+  return new DOMParser().parseFromString(content, "text/html").body.textContent || ""
+}
+
+export function extractWikiLinks(text: string): string[] {
+  const targets = new Set<string>()
+  for (const match of Array.from(text.matchAll(WIKI_LINK_PATTERN))) {
+    targets.add(match[1].trim())
+  }
+  return Array.from(targets)
+}
+
+// Titles win over dates; of several notes with the same title or day, the most recent one is used
+export function resolveWikiLink(target: string, notes: NoteRecord[]): NoteRecord | null {
+  const title = target.trim().toLowerCase()
+  const byDate = [...notes].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+  const titled = byDate.find((note) => note.title.trim().toLowerCase() === title)
+  if (titled) return titled
+  if (DATE_LINK_PATTERN.test(title)) {
+    return byDate.find((note) => toDateKey(note.date) === title) ?? null
+  }
+  return null
+}
+
+// Every note with a link that resolves to this one. Locked notes can't be read and never show up.
+export function findBacklinks(note: NoteRecord, notes: NoteRecord[]): NoteRecord[] {
+  return notes.filter(
+    (other) =>
+      other.id !== note.id &&
+      other.type === "text" &&
+      !other.locked &&
+      extractWikiLinks(getNoteText(other)).some((target) => resolveWikiLink(target, notes)?.id === note.id),
+  )
+}
+
+// The text typed after "[[" so far, or null when the caret isn't inside an unfinished link
+export function getLinkQuery(textBeforeCaret: string): string | null {
+  const match = textBeforeCaret.match(OPEN_LINK_PATTERN)
+  return match ? match[1] : null
+}
+
+export function suggestLinkTargets(query: string, notes: NoteRecord[], excludeId?: string): LinkSuggestion[] {
+  const search = query.trim().toLowerCase()
+  const candidates = notes
+    .filter((note) => note.id !== excludeId)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+  const suggestions: LinkSuggestion[] = candidates
+    .filter((note) => note.title.toLowerCase().includes(search))
+    .map((note) => ({ target: note.title, note }))
+
+  // Typing a date offers the days that have notes
+  if (/^\d/.test(search)) {
+    const days = new Set<string>()
+    for (const note of candidates) {
+      const day = toDateKey(note.date)
+      if (day.startsWith(search) && !days.has(day)) {
+        days.add(day)
+        suggestions.push({ target: day, note })
+      }
+    }
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS)
+}
+
+// The link target at an offset in a piece of text, for following a link that was clicked
+export function wikiLinkAt(text: string, offset: number): string | null {
+  for (const match of Array.from(text.matchAll(WIKI_LINK_PATTERN))) {
+    const start = match.index ?? 0
+    if (offset >= start && offset <= start + match[0].length) return match[1].trim()
+  }
+  return null
+}
+
+// Make the links in rendered HTML clickable, see the data-wiki-link click handler. Only text is linked:
+// brackets in attribute values, inside existing links or code, and around markup stay as they are.
+export function linkWikiTitles(html: string): string {
+  const parsed = new DOMParser().parseFromString(html, "text/html")
+  const walker = parsed.createTreeWalker(parsed.body, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text)
+
+  for (const node of textNodes) {
+    if (node.parentElement?.closest("a, code, pre")) continue
+    const text = node.data
+    const matches = Array.from(text.matchAll(WIKI_LINK_PATTERN))
+    if (matches.length === 0) continue
+
+    const fragment = parsed.createDocumentFragment()
+    let lastIndex = 0
+    for (const match of matches) {
+      const start = match.index ?? 0
+      const link = parsed.createElement("a")
+      link.setAttribute("href", "#")
+      link.setAttribute("data-wiki-link", match[1].trim())
+      link.className = "text-primary underline decoration-dotted"
+      link.textContent = match[0]
+      fragment.append(text.slice(lastIndex, start), link)
+      lastIndex = start + match[0].length
+    }
+    fragment.append(text.slice(lastIndex))
+    node.replaceWith(fragment)
+  }
+  return parsed.body.innerHTML
+}
@@ -0,0 +1,137 @@
+// Locked notes: content and media encrypted a second time with a passphrase of their own,
+// so they stay closed even while the diary is unlocked. The salt travels with the data,
+// which keeps a locked note readable wherever its file ends up.
+
+import { fromBase64, toBase64 } from "@/lib/diary-crypto"
+
+const LOCK_ITERATIONS = 310000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// Locked text is this prefix followed by base64 of the salt, IV and ciphertext
+const TEXT_PREFIX = "mydiary-lock:v1:"
+// Locked blobs start with these bytes, followed by the salt, IV and ciphertext
+const BLOB_MAGIC = new TextEncoder().encode("MYDIARYLOCK1")
+
+interface NoteLockKey {
+  salt: Uint8Array
+  key: CryptoKey
+}
+
+// Keys of the notes unlocked in this tab, until they are locked again or the diary locks
+const unlockedNotes = new Map<string, NoteLockKey>()
+
+async function deriveLockKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: LOCK_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+export function isLockedText(value: string | undefined): boolean {
+  return !!value && value.startsWith(TEXT_PREFIX)
+}
+
+export async function isLockedBlob(blob: Blob): Promise<boolean> {
+  if (blob.size < BLOB_MAGIC.length + SALT_BYTES + IV_BYTES) return false
+
+  const header = new Uint8Array(await blob.slice(0, BLOB_MAGIC.length).arrayBuffer())
+  return header.every((byte, index) => byte === BLOB_MAGIC[index])
+}
+
+// Salt and IV + ciphertext of locked text or a locked blob
+async function splitLocked(value: string | Blob): Promise<{ salt: Uint8Array; payload: Uint8Array }> {
+  const data =
+    typeof value === "string"
+      ? fromBase64(value.slice(TEXT_PREFIX.length))
+      : new Uint8Array(await value.arrayBuffer()).subarray(BLOB_MAGIC.length)
+  return { salt: data.subarray(0, SALT_BYTES), payload: data.subarray(SALT_BYTES) }
+}
+
+async function decryptPayload(key: CryptoKey, payload: Uint8Array): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: "AES-GCM", iv: payload.subarray(0, IV_BYTES) }, key, payload.subarray(IV_BYTES))
+}
+
+async function encryptData(lock: NoteLockKey, data: BufferSource): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, lock.key, data))
+
+  const payload = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length)
+  payload.set(lock.salt)
+  payload.set(iv, SALT_BYTES)
+  payload.set(ciphertext, SALT_BYTES + IV_BYTES)
+  return payload
+}
+
+function getLock(noteId: string): NoteLockKey {
+  const lock = unlockedNotes.get(noteId)
+  if (!lock) throw new Error("Note is locked")
+  return lock
+}
+
+export function isNoteUnlocked(noteId: string): boolean {
+  return unlockedNotes.has(noteId)
+}
+
+// Start protecting a note with a new passphrase; it stays unlocked in this tab
+export async function createNoteLock(noteId: string, passphrase: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  unlockedNotes.set(noteId, { salt, key: await deriveLockKey(passphrase, salt) })
+}
+
+// Check a passphrase against some of the note's locked text or media, keeping the key when it fits
+export async function unlockNote(noteId: string, passphrase: string, sample: string | Blob): Promise<boolean> {
+  const { salt, payload } = await splitLocked(sample)
+  const key = await deriveLockKey(passphrase, salt)
+
+  try {
+    await decryptPayload(key, payload)
+  } catch {
+    return false
+  }
+  unlockedNotes.set(noteId, { salt: new Uint8Array(salt), key })
+  return true
+}
+
+export function relockNote(noteId: string): void {
+  unlockedNotes.delete(noteId)
+}
+
+export function relockAllNotes(): void {
+  unlockedNotes.clear()
+}
+
+export async function lockText(noteId: string, text: string): Promise<string> {
+  return TEXT_PREFIX + toBase64(await encryptData(getLock(noteId), new TextEncoder().encode(text)))
+}
+
+// The plaintext of a note's content, or null while the note is locked. Unlocked text passes through.
+export async function unlockText(noteId: string, value: string): Promise<string | null> {
+  if (!isLockedText(value)) return value
+
+  const lock = unlockedNotes.get(noteId)
+  if (!lock) return null
+  const { payload } = await splitLocked(value)
+  return new TextDecoder().decode(await decryptPayload(lock.key, payload))
+}
+
+// Locked blobs keep the MIME type, so files are still named with the right extension
+export async function lockBlob(noteId: string, blob: Blob): Promise<Blob> {
+  const payload = await encryptData(getLock(noteId), await blob.arrayBuffer())
+  return new Blob([BLOB_MAGIC, payload], { type: blob.type })
+}
+
+export async function unlockBlob(noteId: string, blob: Blob): Promise<Blob | null> {
+  if (!(await isLockedBlob(blob))) return blob
+
+  const lock = unlockedNotes.get(noteId)
+  if (!lock) return null
+  const { payload } = await splitLocked(blob)
+  return new Blob([await decryptPayload(lock.key, payload)], { type: blob.type })
+}
@@ -0,0 +1,509 @@
+import type { NoteType } from "@/lib/file-storage"
+import {
+  decryptBlob,
+  decryptText,
+  encryptBlob,
+  encryptText,
+  getSessionKey,
+  isEncryptedText,
+} from "@/lib/diary-crypto"
+import { sanitizeNoteContent } from "@/lib/html-sanitizer"
+import { normalizeClips, type NoteClip } from "@/lib/note-attachments"
+import { isLockedText } from "@/lib/note-lock"
+import type { StorageBackendKind } from "@/lib/storage-backends"
+import {
+  BLOBS_STORE,
+  DRAFTS_STORE,
+  NOTES_STORE,
+  REVISIONS_STORE,
+  openDiaryDatabase,
+  requestToPromise,
+  transactionDone,
+} from "@/lib/diary-db"
+
+// How a text note's content is written; notes without a format hold HTML or plain text
+export type NoteFormat = "html" | "markdown"
+
+export interface NoteRecord {
+  id: string
+  title: string
+  type: NoteType
+  filename?: string
+  storage?: StorageBackendKind
+  // lastModified of the file when the index last read it; a newer file means it was edited outside the app
+  fileModified?: number
+  // The file was not found by the last directory scan
+  missing?: boolean
+  // Text of a text note, or the caption of a photo
+  content?: string
+  date: string
+  tags: string[]
+  mood?: string
+  duration?: number
+  savedToFile: boolean
+  hasMedia?: boolean
+  hasThumbnail?: boolean
+  size: number
+  updatedAt: string
+  // Set while the note sits in the trash; its file then lives under Trash/
+  deletedAt?: string
+  // Content and media are locked with a passphrase of their own, see note-lock
+  locked?: boolean
+  format?: NoteFormat
+  // Names of the files stored for this note under Attachments/, see note-attachments
+  attachments?: string[]
+  // Audio clips and videos recorded into a text note, in the order they were added
+  clips?: NoteClip[]
+}
+
+// A mixed-media entry: one text note whose body and recorded clips are shown as one card
+export type MixedMediaNote = NoteRecord & { type: "text"; clips: NoteClip[] }
+
+export function isMixedMediaNote(note: NoteRecord): note is MixedMediaNote {
+  return note.type === "text" && !!note.clips && note.clips.length > 0
+}
+
+export interface NoteQuery {
+  type?: NoteType
+  tag?: string
+  mood?: string
+  from?: Date
+  to?: Date
+  // List the notes in the trash instead of the live ones
+  trashed?: boolean
+}
+
+export interface NoteMedia {
+  blob?: Blob
+  thumbnail?: Blob
+}
+
+export type MediaKind = "media" | "thumbnail"
+
+// A saved state of a text note's title and content
+export interface NoteRevision {
+  id: string
+  noteId: string
+  title: string
+  content: string
+  format?: NoteFormat
+  savedAt: string
+}
+
+// Oldest revisions beyond this are dropped when a new one is added
+const MAX_REVISIONS_PER_NOTE = 50
+
+// Unsaved editor contents, kept so a closed tab or crash doesn't lose them
+export interface NoteDraft {
+  id: string
+  noteId?: string
+  title: string
+  content: string
+  format?: NoteFormat
+  updatedAt: string
+}
+
+interface BlobRecord {
+  key: string
+  noteId: string
+  kind: MediaKind | "attachment"
+  blob: Blob
+}
+
+const blobKey = (noteId: string, kind: MediaKind) => `${noteId}:${kind}`
+const attachmentKey = (noteId: string, name: string) => `${noteId}:attachment:${name}`
+
+// Drafts of notes that were never saved share this prefix in place of a note id
+const NEW_NOTE_DRAFT_PREFIX = "new"
+
+// Draft ids are per editing session, prefixed with the note they belong to
+export const createDraftId = (noteId?: string) => `${noteId ?? NEW_NOTE_DRAFT_PREFIX}:${Date.now()}`
+
+export class NoteRepository {
+  private username: string
+  private ready: Promise<void> | null = null
+
+  constructor(username: string) {
+    this.username = username
+  }
+
+  getUsername(): string {
+    return this.username
+  }
+
+  // Content, media, revisions and drafts are encrypted with the session key.
+  // Titles, dates, tags and moods stay readable so notes can be listed and filtered.
+  private sessionKey(): CryptoKey {
+    const key = getSessionKey(this.username)
+    if (!key) throw new Error("Diary is locked")
+    return key
+  }
+
+  private async sealText(text: string): Promise<string> {
+    return isEncryptedText(text) ? text : encryptText(this.sessionKey(), text)
+  }
+
+  private async openText(value: string): Promise<string> {
+    return decryptText(getSessionKey(this.username), value)
+  }
+
+  private async openNote(note: NoteRecord): Promise<NoteRecord> {
+    return note.content === undefined ? note : { ...note, content: await this.openText(note.content) }
+  }
+
+  private async db(): Promise<IDBDatabase> {
+    const db = await openDiaryDatabase(this.username)
+    if (!this.ready) {
+      this.ready = this.migrateLegacyNotes(db)
+    }
+    await this.ready
+    return db
+  }
+
+  // List notes, newest first, narrowed by the most selective index available
+  async listNotes(query: NoteQuery = {}): Promise<NoteRecord[]> {
+    const db = await this.db()
+    const store = db.transaction(NOTES_STORE, "readonly").objectStore(NOTES_STORE)
+
+    let notes: NoteRecord[]
+    if (query.type) {
+      notes = await requestToPromise(store.index("type").getAll(query.type))
+    } else if (query.tag) {
+      notes = await requestToPromise(store.index("tags").getAll(query.tag))
+    } else if (query.mood) {
+      notes = await requestToPromise(store.index("mood").getAll(query.mood))
+    } else if (query.from || query.to) {
+      const lower = query.from?.toISOString()
+      const upper = query.to?.toISOString()
+      const range =
+        lower && upper
+          ? IDBKeyRange.bound(lower, upper)
+          : lower
+            ? IDBKeyRange.lowerBound(lower)
+            : IDBKeyRange.upperBound(upper!)
+      notes = await requestToPromise(store.index("date").getAll(range))
+    } else {
+      notes = await requestToPromise(store.getAll())
+    }
+
+    const matching = notes
+      .filter((note) => {
+        if (Boolean(note.deletedAt) !== Boolean(query.trashed)) return false
+        if (query.type && note.type !== query.type) return false
+        if (query.tag && !note.tags.includes(query.tag)) return false
+        if (query.mood && note.mood !== query.mood) return false
+        if (query.from && new Date(note.date) < query.from) return false
+        if (query.to && new Date(note.date) > query.to) return false
+        return true
+      })
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    return Promise.all(matching.map((note) => this.openNote(note)))
+  }
+
+  async getNote(id: string): Promise<NoteRecord | null> {
+    const db = await this.db()
+    const store = db.transaction(NOTES_STORE, "readonly").objectStore(NOTES_STORE)
+    const note: NoteRecord | undefined = await requestToPromise(store.get(id))
+    return note ? this.openNote(note) : null
+  }
+
+  // Insert or replace a note together with its media blobs
+  async saveNote(note: NoteRecord, media: NoteMedia = {}): Promise<void> {
+    // Encrypt before opening the transaction, which would commit while awaiting
+    const record: NoteRecord = { ...note, updatedAt: new Date().toISOString() }
+    if (record.content !== undefined) record.content = await this.sealText(record.content)
+    const blob = media.blob && (await encryptBlob(this.sessionKey(), media.blob))
+    const thumbnail = media.thumbnail && (await encryptBlob(this.sessionKey(), media.thumbnail))
+
+    const db = await this.db()
+    const transaction = db.transaction([NOTES_STORE, BLOBS_STORE], "readwrite")
+    const blobs = transaction.objectStore(BLOBS_STORE)
+
+    if (blob) {
+      blobs.put({ key: blobKey(note.id, "media"), noteId: note.id, kind: "media", blob } as BlobRecord)
+      record.hasMedia = true
+    }
+    if (thumbnail) {
+      blobs.put({
+        key: blobKey(note.id, "thumbnail"),
+        noteId: note.id,
+        kind: "thumbnail",
+        blob: thumbnail,
+      } as BlobRecord)
+      record.hasThumbnail = true
+    }
+
+    transaction.objectStore(NOTES_STORE).put(record)
+    await transactionDone(transaction)
+  }
+
+  async getMedia(noteId: string, kind: MediaKind = "media"): Promise<Blob | null> {
+    const db = await this.db()
+    const store = db.transaction(BLOBS_STORE, "readonly").objectStore(BLOBS_STORE)
+    const record: BlobRecord | undefined = await requestToPromise(store.get(blobKey(noteId, kind)))
+    return record ? decryptBlob(getSessionKey(this.username), record.blob) : null
+  }
+
+  // Attachments of notes that are not stored in files, or whose storage could not be reached
+  async saveAttachment(noteId: string, name: string, blob: Blob): Promise<void> {
+    const sealed = await encryptBlob(this.sessionKey(), blob)
+    const db = await this.db()
+    const transaction = db.transaction(BLOBS_STORE, "readwrite")
+    transaction.objectStore(BLOBS_STORE).put({
+      key: attachmentKey(noteId, name),
+      noteId,
+      kind: "attachment",
+      blob: sealed,
+    } as BlobRecord)
+    await transactionDone(transaction)
+  }
+
+  async getAttachment(noteId: string, name: string): Promise<Blob | null> {
+    const db = await this.db()
+    const store = db.transaction(BLOBS_STORE, "readonly").objectStore(BLOBS_STORE)
+    const record: BlobRecord | undefined = await requestToPromise(store.get(attachmentKey(noteId, name)))
+    return record ? decryptBlob(getSessionKey(this.username), record.blob) : null
+  }
+
+  // Also removes the note's media and attachments, revisions and drafts
+  async deleteNote(id: string): Promise<void> {
+    const db = await this.db()
+    const transaction = db.transaction([NOTES_STORE, BLOBS_STORE, REVISIONS_STORE, DRAFTS_STORE], "readwrite")
+    transaction.objectStore(NOTES_STORE).delete(id)
+    transaction.objectStore(BLOBS_STORE).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`))
+    transaction.objectStore(REVISIONS_STORE).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`))
+    transaction.objectStore(DRAFTS_STORE).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`))
+    await transactionDone(transaction)
+  }
+
+  // Revisions of a note, newest first
+  async listRevisions(noteId: string): Promise<NoteRevision[]> {
+    const db = await this.db()
+    const store = db.transaction(REVISIONS_STORE, "readonly").objectStore(REVISIONS_STORE)
+    const revisions: NoteRevision[] = await requestToPromise(store.index("noteId").getAll(noteId))
+    const opened = await Promise.all(
+      revisions.map(async (revision) => ({ ...revision, content: await this.openText(revision.content) })),
+    )
+    return opened.sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+  }
+
+  // Record the current state of a text note, unless it matches the latest revision
+  // Locked notes keep no revisions, which would hold their content under the diary key only
+  async addRevision(note: NoteRecord): Promise<NoteRevision | null> {
+    if (note.type !== "text" || note.content === undefined || note.locked) return null
+
+    const revisions = await this.listRevisions(note.id)
+    const latest = revisions[0]
+    if (latest && latest.content === note.content && latest.title === note.title && latest.format === note.format) {
+      return null
+    }
+
+    const savedAt = new Date().toISOString()
+    const revision: NoteRevision = {
+      id: `${note.id}:${savedAt}`,
+      noteId: note.id,
+      title: note.title,
+      content: await this.sealText(note.content),
+      format: note.format,
+      savedAt,
+    }
+
+    const db = await this.db()
+    const transaction = db.transaction(REVISIONS_STORE, "readwrite")
+    const store = transaction.objectStore(REVISIONS_STORE)
+    store.put(revision)
+    for (const old of revisions.slice(MAX_REVISIONS_PER_NOTE - 1)) {
+      store.delete(old.id)
+    }
+    await transactionDone(transaction)
+    return revision
+  }
+
+  // Drop a note's revisions and drafts, e.g. once it gets locked
+  async deleteHistory(noteId: string): Promise<void> {
+    const db = await this.db()
+    const transaction = db.transaction([REVISIONS_STORE, DRAFTS_STORE], "readwrite")
+    transaction.objectStore(REVISIONS_STORE).delete(IDBKeyRange.bound(`${noteId}:`, `${noteId}:\uffff`))
+    transaction.objectStore(DRAFTS_STORE).delete(IDBKeyRange.bound(`${noteId}:`, `${noteId}:\uffff`))
+    await transactionDone(transaction)
+  }
+
+  // Drafts of a note, or of new notes when no id is given, newest first
+  async listDrafts(noteId?: string): Promise<NoteDraft[]> {
+    const prefix = noteId ?? NEW_NOTE_DRAFT_PREFIX
+    const db = await this.db()
+    const store = db.transaction(DRAFTS_STORE, "readonly").objectStore(DRAFTS_STORE)
+    const range = IDBKeyRange.bound(`${prefix}:`, `${prefix}:\uffff`)
+    const drafts: NoteDraft[] = await requestToPromise(store.getAll(range))
+    const opened = await Promise.all(
+      drafts.map(async (draft) => ({ ...draft, content: await this.openText(draft.content) })),
+    )
+    return opened.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  async saveDraft(draft: NoteDraft): Promise<void> {
+    const sealed: NoteDraft = { ...draft, content: await this.sealText(draft.content) }
+    const db = await this.db()
+    const transaction = db.transaction(DRAFTS_STORE, "readwrite")
+    transaction.objectStore(DRAFTS_STORE).put(sealed)
+    await transactionDone(transaction)
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const db = await this.db()
+    const transaction = db.transaction(DRAFTS_STORE, "readwrite")
+    transaction.objectStore(DRAFTS_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  // Bulk insert, e.g. from a backup file; existing notes with the same id are replaced
+  async importNotes(notes: Partial<NoteRecord>[]): Promise<number> {
+    const records: NoteRecord[] = []
+    for (const note of notes) {
+      const record = normalizeNoteRecord(note)
+      if (!record) continue
+      if (record.content !== undefined) record.content = await this.sealText(record.content)
+      records.push(record)
+    }
+
+    const db = await this.db()
+    const transaction = db.transaction(NOTES_STORE, "readwrite")
+    const store = transaction.objectStore(NOTES_STORE)
+    for (const record of records) {
+      store.put(record)
+    }
+
+    await transactionDone(transaction)
+    return records.length
+  }
+
+  // Re-encrypt everything stored with a new key, e.g. after a password change.
+  // Without an old key only plaintext can be read, which encrypts content from before encryption.
+  async reencrypt(oldKey: CryptoKey | null, newKey: CryptoKey): Promise<void> {
+    const reseal = async (value: string) => encryptText(newKey, await decryptText(oldKey, value))
+    const db = await this.db()
+
+    const read = db.transaction([NOTES_STORE, REVISIONS_STORE, DRAFTS_STORE, BLOBS_STORE], "readonly")
+    const [notes, revisions, drafts, blobKeys]: [NoteRecord[], NoteRevision[], NoteDraft[], IDBValidKey[]] =
+      await Promise.all([
+        requestToPromise(read.objectStore(NOTES_STORE).getAll()),
+        requestToPromise(read.objectStore(REVISIONS_STORE).getAll()),
+        requestToPromise(read.objectStore(DRAFTS_STORE).getAll()),
+        requestToPromise(read.objectStore(BLOBS_STORE).getAllKeys()),
+      ])
+
+    for (const note of notes) {
+      if (note.content !== undefined) note.content = await reseal(note.content)
+    }
+    for (const revision of revisions) {
+      revision.content = await reseal(revision.content)
+    }
+    for (const draft of drafts) {
+      draft.content = await reseal(draft.content)
+    }
+
+    const write = db.transaction([NOTES_STORE, REVISIONS_STORE, DRAFTS_STORE], "readwrite")
+    notes.forEach((note) => write.objectStore(NOTES_STORE).put(note))
+    revisions.forEach((revision) => write.objectStore(REVISIONS_STORE).put(revision))
+    drafts.forEach((draft) => write.objectStore(DRAFTS_STORE).put(draft))
+    await transactionDone(write)
+
+    // Media one blob at a time, so recordings are never all in memory at once
+    for (const key of blobKeys) {
+      const store = db.transaction(BLOBS_STORE, "readonly").objectStore(BLOBS_STORE)
+      const record: BlobRecord | undefined = await requestToPromise(store.get(key))
+      if (!record) continue
+
+      record.blob = await encryptBlob(newKey, await decryptBlob(oldKey, record.blob))
+      const transaction = db.transaction(BLOBS_STORE, "readwrite")
+      transaction.objectStore(BLOBS_STORE).put(record)
+      await transactionDone(transaction)
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db()
+    const transaction = db.transaction([NOTES_STORE, BLOBS_STORE, REVISIONS_STORE, DRAFTS_STORE], "readwrite")
+    transaction.objectStore(NOTES_STORE).clear()
+    transaction.objectStore(BLOBS_STORE).clear()
+    transaction.objectStore(REVISIONS_STORE).clear()
+    transaction.objectStore(DRAFTS_STORE).clear()
+    await transactionDone(transaction)
+  }
+
+  // One-time move of the old `mydiary_notes_*` localStorage array into IndexedDB
+  private async migrateLegacyNotes(db: IDBDatabase): Promise<void> {
+    const legacyKey = `mydiary_notes_${this.username}`
+    const raw = localStorage.getItem(legacyKey)
+    if (!raw) return
+
+    try {
+      const legacyNotes = JSON.parse(raw)
+      const transaction = db.transaction(NOTES_STORE, "readwrite")
+      const store = transaction.objectStore(NOTES_STORE)
+
+      for (const note of Array.isArray(legacyNotes) ? legacyNotes : []) {
+        const record = normalizeNoteRecord(note)
+        if (record) store.put(record)
+      }
+
+      await transactionDone(transaction)
+      localStorage.removeItem(legacyKey)
+      console.log("[v0] Migrated legacy notes from localStorage to IndexedDB")
+    } catch (error) {
+      console.log("[v0] Error migrating legacy notes:", error)
+    }
+  }
+}
+
+const RECORD_TYPES: NoteType[] = ["text", "audio", "video", "photo"]
+const STORAGE_KINDS: StorageBackendKind[] = ["directory", "indexeddb", "opfs", "memory"]
+
+const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined)
+
+// Coerce loosely-typed note data (legacy localStorage, imports) into a NoteRecord
+function normalizeNoteRecord(value: unknown): NoteRecord | null {
+  if (!value || typeof value !== "object") return null
+  const note = value as Record<string, unknown>
+  if (typeof note.id !== "string" || typeof note.title !== "string") return null
+  const type = RECORD_TYPES.find((candidate) => candidate === note.type)
+  if (!type) return null
+
+  // Backups can come from anywhere, so their HTML is cleaned before it reaches the editor.
+  // Markdown is only turned into HTML when shown, and cleaned then. Photo captions are plain text.
+  const format: NoteFormat | undefined = note.format === "markdown" ? "markdown" : undefined
+  const rawContent = optionalString(note.content)
+  const content = rawContent !== undefined && type === "text" && !format ? sanitizeNoteContent(rawContent) : rawContent
+  return {
+    id: note.id,
+    title: note.title,
+    type,
+    filename: optionalString(note.filename),
+    storage: STORAGE_KINDS.find((kind) => kind === note.storage),
+    content,
+    date: optionalString(note.date) || new Date().toISOString(),
+    tags: Array.isArray(note.tags) ? note.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    mood: optionalString(note.mood) || undefined,
+    duration: typeof note.duration === "number" ? note.duration : undefined,
+    savedToFile: Boolean(note.savedToFile),
+    size: content?.length || 0,
+    updatedAt: optionalString(note.updatedAt) || new Date().toISOString(),
+    deletedAt: optionalString(note.deletedAt),
+    locked: note.locked === true || isLockedText(content) || undefined,
+    format,
+    attachments: Array.isArray(note.attachments)
+      ? note.attachments.filter((name): name is string => typeof name === "string")
+      : undefined,
+    clips: type === "text" ? normalizeClips(note.clips) : undefined,
+  }
+}
+
+// Global repository instance
+let repositoryInstance: NoteRepository | null = null
+
+export function getNoteRepository(username: string): NoteRepository {
+  if (!repositoryInstance || repositoryInstance.getUsername() !== username) {
+    repositoryInstance = new NoteRepository(username)
+  }
+  return repositoryInstance
+}
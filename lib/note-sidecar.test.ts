@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { createSidecar, getSidecarPath, isSidecarPath, readSidecar } from "@/lib/note-sidecar"
+import type { NoteRecord } from "@/lib/note-repository"
+
+const note: NoteRecord = {
+  id: "1700000000000-abc123",
+  title: "Trip to Rome",
+  type: "text",
+  filename: "2024-05-01 Trip to Rome.md",
+  content: "Never written to the sidecar",
+  date: "2024-05-01T09:00:00.000Z",
+  tags: ["travel", "italy"],
+  mood: "happy",
+  savedToFile: true,
+  size: 42,
+  updatedAt: "2024-05-02T10:00:00.000Z",
+  format: "markdown",
+  attachments: ["photo.jpg"],
+  clips: [{ name: "voice.webm", kind: "audio", duration: 12 }],
+}
+
+const toBlob = (data: unknown) => new Blob([JSON.stringify(data)], { type: "application/json" })
+
+describe("sidecar paths", () => {
+  it("sits next to the note file", () => {
+    expect(getSidecarPath("Text/note.txt")).toBe("Text/note.txt.meta.json")
+    expect(isSidecarPath("Text/note.txt.meta.json")).toBe(true)
+    expect(isSidecarPath("Text/note.txt")).toBe(false)
+  })
+})
+
+describe("readSidecar", () => {
+  it("reads back what createSidecar wrote", async () => {
+    const sidecar = await readSidecar(createSidecar(note))
+    expect(sidecar).toEqual({
+      version: 1,
+      id: note.id,
+      title: note.title,
+      type: "text",
+      date: note.date,
+      tags: ["travel", "italy"],
+      mood: "happy",
+      format: "markdown",
+      attachments: ["photo.jpg"],
+      clips: [{ name: "voice.webm", kind: "audio", duration: 12 }],
+      updatedAt: note.updatedAt,
+    })
+    expect(JSON.stringify(sidecar)).not.toContain("Never written")
+  })
+
+  it("ignores files that are not sidecars", async () => {
+    expect(await readSidecar(null)).toBeNull()
+    expect(await readSidecar(new Blob(["not json"]))).toBeNull()
+    expect(await readSidecar(toBlob({ id: "1", title: "No date", type: "text" }))).toBeNull()
+    expect(await readSidecar(toBlob(["1", "Title", "2024-05-01"]))).toBeNull()
+  })
+
+  it("rejects unknown note types", async () => {
+    const base = { id: "1", title: "Title", date: "2024-05-01T09:00:00.000Z" }
+    expect(await readSidecar(toBlob({ ...base, type: "spreadsheet" }))).toBeNull()
+    expect(await readSidecar(toBlob(base))).toBeNull()
+    expect((await readSidecar(toBlob({ ...base, type: "photo" })))?.type).toBe("photo")
+  })
+
+  it("drops fields of the wrong shape", async () => {
+    const sidecar = await readSidecar(
+      toBlob({
+        id: "1",
+        title: "Title",
+        type: "audio",
+        date: "2024-05-01T09:00:00.000Z",
+        tags: ["ok", 3, null],
+        mood: 5,
+        duration: "long",
+        locked: "yes",
+        format: "docx",
+        attachments: "photo.jpg",
+        clips: [{ name: "a.webm", kind: "gif" }],
+      }),
+    )
+    expect(sidecar).toMatchObject({ type: "audio", tags: ["ok"], version: 1 })
+    expect(sidecar?.mood).toBeUndefined()
+    expect(sidecar?.duration).toBeUndefined()
+    expect(sidecar?.locked).toBeUndefined()
+    expect(sidecar?.format).toBeUndefined()
+    expect(sidecar?.attachments).toBeUndefined()
+    expect(sidecar?.clips).toBeUndefined()
+  })
+})
@@ -0,0 +1,85 @@
+import { NOTE_TYPES, type NoteType } from "@/lib/file-storage"
+import { normalizeClips, type NoteClip } from "@/lib/note-attachments"
+import type { NoteFormat, NoteRecord } from "@/lib/note-repository"
+
+// Every saved note gets a `<file>.meta.json` next to it so the diary folder describes itself
+export const SIDECAR_SUFFIX = ".meta.json"
+const SIDECAR_VERSION = 1
+
+export interface NoteSidecar {
+  version: number
+  id: string
+  title: string
+  type: NoteType
+  date: string
+  tags: string[]
+  mood?: string
+  duration?: number
+  locked?: boolean
+  format?: NoteFormat
+  attachments?: string[]
+  clips?: NoteClip[]
+  updatedAt: string
+}
+
+export function isSidecarPath(path: string): boolean {
+  return path.endsWith(SIDECAR_SUFFIX)
+}
+
+export function getSidecarPath(path: string): string {
+  return `${path}${SIDECAR_SUFFIX}`
+}
+
+export function createSidecar(note: NoteRecord): Blob {
+  const sidecar: NoteSidecar = {
+    version: SIDECAR_VERSION,
+    id: note.id,
+    title: note.title,
+    type: note.type,
+    date: note.date,
+    tags: note.tags,
+    mood: note.mood,
+    duration: note.duration,
+    locked: note.locked,
+    format: note.format,
+    attachments: note.attachments,
+    clips: note.clips,
+    updatedAt: note.updatedAt,
+  }
+  return new Blob([JSON.stringify(sidecar, null, 2)], { type: "application/json" })
+}
+
+// Parse a sidecar file, ignoring anything that does not look like one of ours
+export async function readSidecar(blob: Blob | null): Promise<NoteSidecar | null> {
+  if (!blob) return null
+
+  try {
+    const data = JSON.parse(await blob.text())
+    if (typeof data?.id !== "string" || typeof data?.title !== "string" || typeof data?.date !== "string") {
+      return null
+    }
+    // A note of an unknown type would be filed under a folder that does not exist
+    const type = NOTE_TYPES.find((candidate) => candidate === data.type)
+    if (!type) return null
+
+    return {
+      version: data.version || SIDECAR_VERSION,
+      id: data.id,
+      title: data.title,
+      type,
+      date: data.date,
+      tags: Array.isArray(data.tags) ? data.tags.filter((tag: unknown) => typeof tag === "string") : [],
+      mood: typeof data.mood === "string" ? data.mood : undefined,
+      duration: typeof data.duration === "number" ? data.duration : undefined,
+      locked: data.locked === true || undefined,
+      format: data.format === "markdown" ? "markdown" : undefined,
+      attachments: Array.isArray(data.attachments)
+        ? data.attachments.filter((name: unknown) => typeof name === "string")
+        : undefined,
+      clips: normalizeClips(data.clips),
+      updatedAt: data.updatedAt || new Date().toISOString(),
+    }
+  } catch {
+    return null
+  }
+}
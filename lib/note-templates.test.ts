@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_TEMPLATES,
+  JOURNAL_PROMPTS,
+  fillTemplate,
+  getDailyPrompt,
+  getUserTemplates,
+} from "@/lib/note-templates"
+
+const date = new Date(2024, 4, 1, 9, 30)
+
+describe("getDailyPrompt", () => {
+  it("gives the same prompt all day and the next one the day after", () => {
+    const prompt = getDailyPrompt(date)
+    expect(getDailyPrompt(new Date(2024, 4, 1, 23, 59))).toBe(prompt)
+
+    const index = JOURNAL_PROMPTS.indexOf(prompt)
+    expect(getDailyPrompt(new Date(2024, 4, 2))).toBe(JOURNAL_PROMPTS[(index + 1) % JOURNAL_PROMPTS.length])
+  })
+
+  it("steps through the other prompts with an offset, in both directions", () => {
+    const index = JOURNAL_PROMPTS.indexOf(getDailyPrompt(date))
+    const count = JOURNAL_PROMPTS.length
+    expect(getDailyPrompt(date, 1)).toBe(getDailyPrompt(new Date(2024, 4, 2)))
+    expect(getDailyPrompt(date, -1)).toBe(JOURNAL_PROMPTS[(index - 1 + count) % count])
+    expect(getDailyPrompt(date, count)).toBe(getDailyPrompt(date))
+    expect(getDailyPrompt(date, -5 * count - 1)).toBe(getDailyPrompt(date, -1))
+  })
+})
+
+describe("fillTemplate", () => {
+  it("fills in the date, weekday, time and prompt", () => {
+    const filled = fillTemplate("{{weekday}}, {{ date }} at {{time}}: {{prompt}}", date, "What made you smile?")
+    const weekday = date.toLocaleDateString(undefined, { weekday: "long" })
+    const day = date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" })
+    const time = date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    expect(filled).toBe(`${weekday}, ${day} at ${time}: What made you smile?`)
+  })
+
+  it("uses the day's prompt by default", () => {
+    expect(fillTemplate("> {{prompt}}", date)).toBe(`> ${getDailyPrompt(date)}`)
+  })
+
+  it("leaves unknown placeholders and plain braces alone", () => {
+    expect(fillTemplate("{{mood}} {date} {{ }}", date)).toBe("{{mood}} {date} {{ }}")
+  })
+
+  it("fills every built-in template completely", () => {
+    for (const template of DEFAULT_TEMPLATES) {
+      expect(fillTemplate(template.title, date)).not.toMatch(/\{\{/)
+      expect(fillTemplate(template.content, date)).not.toMatch(/\{\{/)
+    }
+  })
+})
+
+describe("getUserTemplates", () => {
+  it("falls back to the built-in templates until some were saved", () => {
+    localStorage.clear()
+    expect(getUserTemplates("anna")).toBe(DEFAULT_TEMPLATES)
+
+    localStorage.setItem("mydiary_settings_anna", JSON.stringify({ theme: "dark" }))
+    expect(getUserTemplates("anna")).toBe(DEFAULT_TEMPLATES)
+
+    const templates = [{ id: "t1", name: "Mine", title: "{{date}}", content: "" }]
+    localStorage.setItem("mydiary_settings_anna", JSON.stringify({ templates }))
+    expect(getUserTemplates("anna")).toEqual(templates)
+
+    // A user who deleted every template gets none, not the defaults back
+    localStorage.setItem("mydiary_settings_anna", JSON.stringify({ templates: [] }))
+    expect(getUserTemplates("anna")).toEqual([])
+  })
+})
@@ -0,0 +1,108 @@
+// Entry templates and the built-in journaling prompts. Templates are Markdown, like notes started in
+// the quick textarea, and are kept with the rest of a user's settings.
+
+export interface NoteTemplate {
+  id: string
+  name: string
+  // Title and content of the new note; both may use placeholders
+  title: string
+  content: string
+}
+
+// Placeholders a template can use, e.g. "{{weekday}} morning pages"
+export const TEMPLATE_PLACEHOLDERS = ["date", "weekday", "time", "prompt"] as const
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export const DEFAULT_TEMPLATES: NoteTemplate[] = [
+  {
+    id: "morning-pages",
+    name: "Morning pages",
+    title: "Morning pages, {{date}}",
+    content: "## {{weekday}} morning\n\nWrite three pages without stopping. Nothing here has to be good.\n\n",
+  },
+  {
+    id: "weekly-review",
+    name: "Weekly review",
+    title: "Weekly review, {{date}}",
+    content:
+      "## What went well\n\n- \n\n## What was hard\n\n- \n\n## What I learned\n\n- \n\n## Next week I want to\n\n- \n",
+  },
+  {
+    id: "gratitude",
+    name: "Gratitude x3",
+    title: "Grateful on {{weekday}}",
+    content: "Three things I'm grateful for today:\n\n1. \n2. \n3. \n",
+  },
+  {
+    id: "daily-prompt",
+    name: "Today's prompt",
+    title: "{{weekday}}, {{date}}",
+    content: "> {{prompt}}\n\n",
+  },
+]
+
+export const JOURNAL_PROMPTS = [
+  "What made you smile today?",
+  "What is something you're looking forward to?",
+  "Describe a small moment from today in as much detail as you can.",
+  "What is taking up most of your thoughts right now?",
+  "Who did you talk to today, and how did it go?",
+  "What would make tomorrow a good day?",
+  "What is something you changed your mind about recently?",
+  "Write about a place where you feel at ease.",
+  "What did you learn this week?",
+  "What are you avoiding, and why?",
+  "Describe how you feel right now using only the weather.",
+  "What is a habit you'd like to start, and what's in the way?",
+  "Who would you like to thank, and for what?",
+  "What drained your energy today? What gave you energy?",
+  "Write a letter to yourself one year from now.",
+  "What is a memory you keep coming back to?",
+  "What did you do today just for yourself?",
+  "If today had a title, what would it be?",
+  "What is a worry you can let go of?",
+  "What surprised you recently?",
+  "Describe someone you admire and what you admire about them.",
+  "What are three things you'd like to remember about this month?",
+  "What is something you're proud of that nobody noticed?",
+  "What would you tell a friend who was having the day you had?",
+  "What does a perfect ordinary day look like for you?",
+  "What did you notice on your way somewhere today?",
+  "What question would you like someone to ask you?",
+  "What is one thing you'd do differently if you could redo today?",
+  "What are you curious about at the moment?",
+  "Write about a book, song or film that stayed with you.",
+]
+
+// The prompt of a day; every day of the year gets the next one. An offset steps through the others.
+export function getDailyPrompt(date: Date, offset = 0): string {
+  const day = Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000)
+  const count = JOURNAL_PROMPTS.length
+  return JOURNAL_PROMPTS[(((day + offset) % count) + count) % count]
+}
+
+// Fill in the placeholders of a template's title or content; unknown ones are left as they are
+export function fillTemplate(text: string, date: Date, prompt = getDailyPrompt(date)): string {
+  const values: Record<TemplatePlaceholder, string> = {
+    date: date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" }),
+    weekday: date.toLocaleDateString(undefined, { weekday: "long" }),
+    time: date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" }),
+    prompt,
+  }
+
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    TEMPLATE_PLACEHOLDERS.includes(name as TemplatePlaceholder) ? values[name as TemplatePlaceholder] : placeholder,
+  )
+}
+
+// The templates saved in a user's settings, or the built-in ones when none were ever saved
+export function getUserTemplates(username: string): NoteTemplate[] {
+  const userSettings = JSON.parse(localStorage.getItem(`mydiary_settings_${username}`) || "{}")
+  return Array.isArray(userSettings.templates) ? userSettings.templates : DEFAULT_TEMPLATES
+}
+
+export function createTemplateId(): string {
+  return `template-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
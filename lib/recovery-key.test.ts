@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest"
+import { createEncryptionConfig, decryptText, deriveDiaryKey, encryptText, wrapDiaryKey } from "@/lib/diary-crypto"
+import {
+  generateRecoveryKey,
+  hasRecoveryKey,
+  recoverDiaryKey,
+  setupRecovery,
+  updateRecoveryWrap,
+} from "@/lib/recovery-key"
+
+// Key pair generation and the recovery key's key derivation are slow on purpose
+const SLOW_TEST_TIMEOUT = 30000
+
+const createDiaryKey = (password: string) => deriveDiaryKey(password, { ...createEncryptionConfig(), iterations: 1000 })
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe("generateRecoveryKey", () => {
+  it("is 32 Crockford base32 characters in groups of four", () => {
+    const recoveryKey = generateRecoveryKey()
+    expect(recoveryKey).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}(-[0-9A-HJKMNP-TV-Z]{4}){7}$/)
+  })
+
+  it("is different every time", () => {
+    const keys = new Set(Array.from({ length: 20 }, generateRecoveryKey))
+    expect(keys.size).toBe(20)
+  })
+})
+
+describe("recoverDiaryKey", () => {
+  it(
+    "unlocks the diary key with the recovery key, typed loosely",
+    async () => {
+      const diaryKey = await createDiaryKey("secret")
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery("anna", recoveryKey, diaryKey)
+      expect(hasRecoveryKey("anna")).toBe(true)
+      const encrypted = await encryptText(diaryKey, "Dear diary")
+
+      const recovered = await recoverDiaryKey("anna", recoveryKey)
+      expect(recovered).not.toBeNull()
+      expect(await decryptText(recovered, encrypted)).toBe("Dear diary")
+
+      // Lower case, spaces instead of dashes, and O for 0 or I and L for 1 are all accepted
+      const typed = recoveryKey.toLowerCase().replace(/-/g, " ").replace(/0/g, "o").replace(/1/g, "l")
+      expect(await decryptText(await recoverDiaryKey("anna", typed), encrypted)).toBe("Dear diary")
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+
+  it(
+    "returns null for a wrong or malformed recovery key",
+    async () => {
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery("anna", recoveryKey, await createDiaryKey("secret"))
+
+      let wrong = generateRecoveryKey()
+      while (wrong === recoveryKey) wrong = generateRecoveryKey()
+      expect(await recoverDiaryKey("anna", wrong)).toBeNull()
+      expect(await recoverDiaryKey("anna", recoveryKey.slice(0, -1))).toBeNull()
+      expect(await recoverDiaryKey("anna", "")).toBeNull()
+      expect(await recoverDiaryKey("anna", "not a recovery key!")).toBeNull()
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+
+  it(
+    "lets a new password open the recovered key, as a password reset does",
+    async () => {
+      const diaryKey = await createDiaryKey("forgotten")
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery("anna", recoveryKey, diaryKey)
+      const encrypted = await encryptText(diaryKey, "Still readable")
+
+      const recovered = await recoverDiaryKey("anna", recoveryKey)
+      const config = await wrapDiaryKey("new password", recovered!)
+      expect(await decryptText(await deriveDiaryKey("new password", config), encrypted)).toBe("Still readable")
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+
+  it("returns null when no recovery key was set up", async () => {
+    expect(hasRecoveryKey("bob")).toBe(false)
+    expect(await recoverDiaryKey("bob", generateRecoveryKey())).toBeNull()
+  })
+
+  it(
+    "unlocks the new diary key after the wrap was updated",
+    async () => {
+      const recoveryKey = generateRecoveryKey()
+      await setupRecovery("anna", recoveryKey, await createDiaryKey("secret"))
+
+      const newKey = await createDiaryKey("another secret")
+      await updateRecoveryWrap("anna", newKey)
+      const encrypted = await encryptText(newKey, "After the switch")
+      expect(await decryptText(await recoverDiaryKey("anna", recoveryKey), encrypted)).toBe("After the switch")
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+})
@@ -0,0 +1,155 @@
+// Recovery keys: a random code shown once at signup that can reset a forgotten password.
+// The diary key is wrapped with an RSA public key whose private key is sealed with the
+// recovery code, so the wrap can be renewed on every password change without the code.
+
+import { fromBase64, toBase64 } from "@/lib/diary-crypto"
+
+const RECOVERY_ITERATIONS = 310000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const RECOVERY_KEY_BYTES = 20
+// Crockford base32: no I, L, O or U, so the key survives being copied by hand
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+
+interface RecoveryConfig {
+  publicKey: JsonWebKey
+  salt: string
+  iterations: number
+  // PKCS#8 private key, encrypted with the key derived from the recovery code
+  encryptedPrivateKey: string
+  // The diary key, wrapped with the public key
+  wrappedDiaryKey: string
+}
+
+const RSA_PARAMS: RsaHashedImportParams = { name: "RSA-OAEP", hash: "SHA-256" }
+
+const configKey = (username: string) => `mydiary_recovery_${username}`
+
+function getRecoveryConfig(username: string): RecoveryConfig | null {
+  const raw = localStorage.getItem(configKey(username))
+  return raw ? JSON.parse(raw) : null
+}
+
+export function hasRecoveryKey(username: string): boolean {
+  return getRecoveryConfig(username) !== null
+}
+
+// 32 base32 characters in groups of four, e.g. 7F3K-Q9XM-...
+export function generateRecoveryKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES))
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of bytes) {
+    // Only the bits not yet written are kept
+    value = ((value << 8) | byte) & 0xfff
+    bits += 8
+    while (bits >= 5) {
+      output += ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  return output.match(/.{1,4}/g)!.join("-")
+}
+
+// Accept the key with any spacing, dashes or case, and the usual look-alike characters
+function normalizeRecoveryKey(recoveryKey: string): string {
+  return recoveryKey
+    .toUpperCase()
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1")
+    .replace(/[^0-9A-Z]/g, "")
+}
+
+async function deriveSealingKey(recoveryKey: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(normalizeRecoveryKey(recoveryKey)),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  )
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+async function wrapWithPublicKey(publicKey: JsonWebKey, diaryKey: CryptoKey): Promise<string> {
+  const key = await crypto.subtle.importKey("jwk", publicKey, RSA_PARAMS, false, ["wrapKey"])
+  return toBase64(new Uint8Array(await crypto.subtle.wrapKey("raw", diaryKey, key, { name: "RSA-OAEP" })))
+}
+
+// Let a new recovery key unlock the diary key, replacing any earlier recovery key
+export async function setupRecovery(username: string, recoveryKey: string, diaryKey: CryptoKey): Promise<void> {
+  const keyPair = await crypto.subtle.generateKey(
+    { ...RSA_PARAMS, modulusLength: 3072, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ["wrapKey", "unwrapKey"],
+  )
+  const publicKey = await crypto.subtle.exportKey("jwk", keyPair.publicKey)
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey)
+
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+  const sealingKey = await deriveSealingKey(recoveryKey, salt, RECOVERY_ITERATIONS)
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, sealingKey, privateKey))
+  const payload = new Uint8Array(IV_BYTES + sealed.length)
+  payload.set(iv)
+  payload.set(sealed, IV_BYTES)
+
+  const config: RecoveryConfig = {
+    publicKey,
+    salt,
+    iterations: RECOVERY_ITERATIONS,
+    encryptedPrivateKey: toBase64(payload),
+    wrappedDiaryKey: await wrapWithPublicKey(publicKey, diaryKey),
+  }
+  localStorage.setItem(configKey(username), JSON.stringify(config))
+}
+
+// Keep the recovery key working after the diary key changed, e.g. on a password change
+export async function updateRecoveryWrap(username: string, diaryKey: CryptoKey): Promise<void> {
+  const config = getRecoveryConfig(username)
+  if (!config) return
+
+  config.wrappedDiaryKey = await wrapWithPublicKey(config.publicKey, diaryKey)
+  localStorage.setItem(configKey(username), JSON.stringify(config))
+}
+
+// The diary key for a recovery key, or null when the key is wrong or none was set up
+export async function recoverDiaryKey(username: string, recoveryKey: string): Promise<CryptoKey | null> {
+  const config = getRecoveryConfig(username)
+  if (!config) return null
+
+  try {
+    const sealingKey = await deriveSealingKey(recoveryKey, config.salt, config.iterations)
+    const payload = fromBase64(config.encryptedPrivateKey)
+    const privateKey = await crypto.subtle.importKey(
+      "pkcs8",
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: payload.subarray(0, IV_BYTES) },
+        sealingKey,
+        payload.subarray(IV_BYTES),
+      ),
+      RSA_PARAMS,
+      false,
+      ["unwrapKey"],
+    )
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      fromBase64(config.wrappedDiaryKey),
+      privateKey,
+      { name: "RSA-OAEP" },
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"],
+    )
+  } catch (error) {
+    console.log("[v0] Recovery key did not unlock the diary:", error)
+    return null
+  }
+}
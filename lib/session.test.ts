@@ -0,0 +1,142 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  endSession,
+  getCurrentSession,
+  getRememberedUsername,
+  renewSession,
+  signOutOtherTabs,
+  startSession,
+  type Session,
+} from "@/lib/session"
+
+const HOUR = 60 * 60 * 1000
+
+const storedSession = (username: string): Session | null =>
+  JSON.parse(localStorage.getItem(`mydiary_session_${username}`) || "null")
+
+beforeEach(() => {
+  localStorage.clear()
+  // Sessions are announced to other tabs, which these tests do not have
+  vi.stubGlobal("BroadcastChannel", undefined)
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date("2024-05-01T09:00:00.000Z"))
+})
+
+afterEach(() => {
+  endSession()
+  vi.useRealTimers()
+})
+
+describe("session expiry", () => {
+  it("ends a session after eight hours", () => {
+    const session = startSession("anna", false)
+    expect(session.expiresAt).toBe("2024-05-01T17:00:00.000Z")
+
+    vi.advanceTimersByTime(8 * HOUR - 1000)
+    expect(getCurrentSession()?.id).toBe(session.id)
+
+    vi.advanceTimersByTime(1000)
+    expect(getCurrentSession()).toBeNull()
+    expect(storedSession("anna")).toBeNull()
+  })
+
+  it("keeps a remembered session for a week", () => {
+    startSession("anna", true)
+    vi.advanceTimersByTime(6 * 24 * HOUR)
+    expect(getCurrentSession()?.username).toBe("anna")
+
+    vi.advanceTimersByTime(24 * HOUR)
+    expect(getCurrentSession()).toBeNull()
+  })
+
+  it("pushes the expiry forward on activity, at most once a minute", () => {
+    const session = startSession("anna", false)
+
+    vi.advanceTimersByTime(30 * 1000)
+    renewSession()
+    expect(storedSession("anna")?.expiresAt).toBe(session.expiresAt)
+
+    vi.advanceTimersByTime(7 * HOUR)
+    renewSession()
+    expect(storedSession("anna")?.expiresAt).toBe("2024-05-02T00:00:30.000Z")
+
+    vi.advanceTimersByTime(2 * HOUR)
+    expect(getCurrentSession()?.id).toBe(session.id)
+  })
+
+  it("joins a running session of the same user and starts over after expiry", () => {
+    const first = startSession("anna", false)
+    expect(startSession("anna", false).id).toBe(first.id)
+
+    vi.advanceTimersByTime(9 * HOUR)
+    const next = startSession("anna", false)
+    expect(next.id).not.toBe(first.id)
+    expect(next.createdAt).toBe("2024-05-01T18:00:00.000Z")
+  })
+})
+
+describe("signing out", () => {
+  it("removes the session when it ends", () => {
+    startSession("anna", false)
+    endSession()
+    expect(getCurrentSession()).toBeNull()
+    expect(storedSession("anna")).toBeNull()
+  })
+
+  it("keeps this tab signed in under a new id when other tabs are signed out", () => {
+    const session = startSession("anna", false)
+    signOutOtherTabs()
+
+    const renewed = getCurrentSession()
+    expect(renewed?.username).toBe("anna")
+    expect(renewed?.id).not.toBe(session.id)
+    expect(storedSession("anna")?.id).toBe(renewed?.id)
+  })
+})
+
+describe("remember me", () => {
+  it("remembers the username only when asked to", () => {
+    startSession("anna", true)
+    expect(getRememberedUsername()).toBe("anna")
+
+    startSession("anna", false)
+    expect(getRememberedUsername()).toBeNull()
+  })
+
+  it("moves the legacy remember flags over", () => {
+    localStorage.setItem("mydiary_user", "anna")
+    localStorage.setItem("mydiary_remember", "true")
+
+    expect(getRememberedUsername()).toBe("anna")
+    expect(localStorage.getItem("mydiary_user")).toBeNull()
+    expect(localStorage.getItem("mydiary_remember")).toBeNull()
+  })
+
+  it("drops legacy flags that did not ask to be remembered", () => {
+    localStorage.setItem("mydiary_user", "anna")
+    localStorage.setItem("mydiary_remember", "false")
+
+    expect(getRememberedUsername()).toBeNull()
+    expect(localStorage.getItem("mydiary_user")).toBeNull()
+  })
+
+  it("moves a shared legacy session to its user, keeping a newer one", () => {
+    const legacy: Session = {
+      id: "legacy",
+      username: "anna",
+      remember: true,
+      createdAt: "2024-05-01T08:00:00.000Z",
+      expiresAt: "2024-05-08T08:00:00.000Z",
+    }
+    localStorage.setItem("mydiary_session", JSON.stringify(legacy))
+    getRememberedUsername()
+    expect(storedSession("anna")).toEqual(legacy)
+    expect(localStorage.getItem("mydiary_session")).toBeNull()
+
+    localStorage.setItem("mydiary_session", JSON.stringify({ ...legacy, id: "older" }))
+    getRememberedUsername()
+    expect(storedSession("anna")?.id).toBe("legacy")
+    expect(localStorage.getItem("mydiary_session")).toBeNull()
+  })
+})
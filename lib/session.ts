@@ -0,0 +1,246 @@
+// Sign-in sessions, one per user, shared by all of that user's tabs in the browser. A session expires
+// after a stretch without activity, and activity in any tab pushes the expiry forward. Signing out, or
+// changing the password, ends the session in every other tab of the same user as well.
+
+import { clearSessionKey } from "@/lib/diary-crypto"
+import { relockAllNotes } from "@/lib/note-lock"
+
+// Where all users shared one session before
+const LEGACY_SESSION_KEY = "mydiary_session"
+const REMEMBERED_USER_KEY = "mydiary_remembered"
+const CHANNEL_NAME = "mydiary_session"
+
+const SESSION_TTL = 8 * 60 * 60 * 1000
+const REMEMBERED_SESSION_TTL = 7 * 24 * 60 * 60 * 1000
+// Activity renews the session at most this often
+const RENEW_INTERVAL = 60 * 1000
+const CHECK_INTERVAL = 60 * 1000
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "wheel"]
+
+export interface Session {
+  id: string
+  username: string
+  remember: boolean
+  createdAt: string
+  expiresAt: string
+}
+
+// The session this tab signed in with. Like the diary key it only lives in memory,
+// so a reload always goes through the sign-in form.
+let current: { id: string; username: string } | null = null
+let channel: BroadcastChannel | null = null
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+  }
+  return channel
+}
+
+// Other tabs check their own session again whenever this one changes
+function announceChange(): void {
+  getChannel()?.postMessage({ type: "session-changed" })
+}
+
+const sessionKey = (username: string) => `mydiary_session_${username}`
+
+// Before sessions, a sign-in was two permanent flags; a shared session moves to its user
+function dropLegacyFlags(): void {
+  const legacyUser = localStorage.getItem("mydiary_user")
+  if (legacyUser && localStorage.getItem("mydiary_remember") === "true") {
+    localStorage.setItem(REMEMBERED_USER_KEY, legacyUser)
+  }
+  localStorage.removeItem("mydiary_user")
+  localStorage.removeItem("mydiary_remember")
+
+  const legacySession = localStorage.getItem(LEGACY_SESSION_KEY)
+  if (legacySession) {
+    const session: Session = JSON.parse(legacySession)
+    if (!localStorage.getItem(sessionKey(session.username))) writeSession(session)
+    localStorage.removeItem(LEGACY_SESSION_KEY)
+  }
+}
+
+function readSession(username: string): Session | null {
+  const raw = localStorage.getItem(sessionKey(username))
+  return raw ? JSON.parse(raw) : null
+}
+
+function writeSession(session: Session): void {
+  localStorage.setItem(sessionKey(session.username), JSON.stringify(session))
+}
+
+function removeSession(username: string): void {
+  localStorage.removeItem(sessionKey(username))
+}
+
+function isExpired(session: Session): boolean {
+  return new Date(session.expiresAt).getTime() <= Date.now()
+}
+
+function expiryFromNow(remember: boolean): string {
+  return new Date(Date.now() + (remember ? REMEMBERED_SESSION_TTL : SESSION_TTL)).toISOString()
+}
+
+// The username to prefill on the sign-in form
+export function getRememberedUsername(): string | null {
+  dropLegacyFlags()
+  return localStorage.getItem(REMEMBERED_USER_KEY)
+}
+
+// Start a session for this tab. A still valid session of the same user, from another tab, is joined;
+// other users' sessions are left alone.
+export function startSession(username: string, remember: boolean): Session {
+  dropLegacyFlags()
+  const existing = readSession(username)
+  const session: Session =
+    existing && !isExpired(existing)
+      ? { ...existing, remember, expiresAt: expiryFromNow(remember) }
+      : {
+          id: crypto.randomUUID(),
+          username,
+          remember,
+          createdAt: new Date().toISOString(),
+          expiresAt: expiryFromNow(remember),
+        }
+
+  writeSession(session)
+  current = { id: session.id, username }
+  if (remember) {
+    localStorage.setItem(REMEMBERED_USER_KEY, username)
+  } else {
+    localStorage.removeItem(REMEMBERED_USER_KEY)
+  }
+
+  if (session !== existing) announceChange()
+  return session
+}
+
+// This tab's session, or null when it was never started, has expired or was ended elsewhere
+export function getCurrentSession(): Session | null {
+  dropLegacyFlags()
+  if (!current) return null
+  const session = readSession(current.username)
+  if (!session || session.id !== current.id) return null
+
+  if (isExpired(session)) {
+    removeSession(session.username)
+    return null
+  }
+  return session
+}
+
+// Sliding expiry: push the end of the session forward after activity
+export function renewSession(): void {
+  const session = getCurrentSession()
+  if (!session) return
+
+  const renewedAt = new Date(session.expiresAt).getTime() - (session.remember ? REMEMBERED_SESSION_TTL : SESSION_TTL)
+  if (Date.now() - renewedAt < RENEW_INTERVAL) return
+
+  writeSession({ ...session, expiresAt: expiryFromNow(session.remember) })
+}
+
+// Forget this tab's session, its diary key and any unlocked notes
+function leaveSession(): void {
+  if (current) clearSessionKey(current.username)
+  relockAllNotes()
+  current = null
+}
+
+// Sign out in this tab and every other tab of the same user
+export function endSession(): void {
+  if (current && readSession(current.username)?.id === current.id) {
+    removeSession(current.username)
+    announceChange()
+  }
+  leaveSession()
+}
+
+// Keep this tab signed in under a new session id, which signs out all other tabs.
+// Used after a password change, so tabs holding the old key stop writing with it.
+export function signOutOtherTabs(): void {
+  const session = getCurrentSession()
+  if (!session) return
+
+  const renewed = { ...session, id: crypto.randomUUID(), expiresAt: expiryFromNow(session.remember) }
+  writeSession(renewed)
+  current = { id: renewed.id, username: renewed.username }
+  announceChange()
+}
+
+// Follow an account rename. Other tabs sign out, since their diary key is stored under the old name.
+export function renameSessionUser(from: string, to: string): void {
+  const session = readSession(from)
+  if (session) {
+    const renamed = { ...session, username: to }
+    if (session.id === current?.id) {
+      renamed.id = crypto.randomUUID()
+      current = { id: renamed.id, username: to }
+    }
+    removeSession(from)
+    writeSession(renamed)
+    announceChange()
+  }
+
+  if (localStorage.getItem(REMEMBERED_USER_KEY) === from) {
+    localStorage.setItem(REMEMBERED_USER_KEY, to)
+  }
+}
+
+// Forget a deleted account, signing it out everywhere
+export function removeSessionUser(username: string): void {
+  if (readSession(username)) {
+    removeSession(username)
+    announceChange()
+  }
+  if (current?.username === username) leaveSession()
+
+  if (localStorage.getItem(REMEMBERED_USER_KEY) === username) {
+    localStorage.removeItem(REMEMBERED_USER_KEY)
+  }
+}
+
+// Renew the session on activity and call onEnded once it expires or is ended in another tab.
+// Returns a function that stops watching.
+export function watchSession(onEnded: () => void): () => void {
+  let lastActivity = 0
+
+  const check = () => {
+    if (getCurrentSession()) return
+
+    stop()
+    leaveSession()
+    onEnded()
+  }
+
+  const handleActivity = () => {
+    const now = Date.now()
+    if (now - lastActivity < 1000) return
+    lastActivity = now
+    renewSession()
+  }
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) check()
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === "session-changed") check()
+  }
+
+  const interval = setInterval(check, CHECK_INTERVAL)
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { capture: true, passive: true }))
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+  getChannel()?.addEventListener("message", handleMessage)
+
+  const stop = () => {
+    clearInterval(interval)
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity, { capture: true }))
+    document.removeEventListener("visibilitychange", handleVisibilityChange)
+    getChannel()?.removeEventListener("message", handleMessage)
+  }
+
+  return stop
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { MemoryBackend, createStorageBackend } from "@/lib/storage-backends"
+
+describe("MemoryBackend", () => {
+  it("saves, loads and deletes files", async () => {
+    const backend = new MemoryBackend()
+    const blob = new Blob(["hello"], { type: "text/plain" })
+
+    await backend.save("Text/hello.txt", blob)
+    expect(await backend.load("/Text//hello.txt")).toBe(blob)
+    expect(await backend.stat("Text/hello.txt")).toMatchObject({ path: "Text/hello.txt", name: "hello.txt", size: 5 })
+
+    expect(await backend.delete("Text/hello.txt")).toBe(true)
+    expect(await backend.load("Text/hello.txt")).toBeNull()
+    expect(await backend.delete("Text/hello.txt")).toBe(false)
+  })
+
+  it("lists the files below a directory", async () => {
+    const backend = new MemoryBackend()
+    await backend.save("Text/a.txt", new Blob(["a"]))
+    await backend.save("Text/2024/b.txt", new Blob(["b"]))
+    await backend.save("Audio/c.m4a", new Blob(["c"]))
+
+    const paths = (await backend.list("Text")).map((file) => file.path).sort()
+    expect(paths).toEqual(["Text/2024/b.txt", "Text/a.txt"])
+    expect(await backend.list("")).toHaveLength(3)
+  })
+
+  it("only updates files that exist", async () => {
+    const backend = new MemoryBackend()
+    await expect(backend.update("Text/missing.txt", new Blob(["x"]))).rejects.toThrow("File not found")
+
+    await backend.save("Text/a.txt", new Blob(["a"]))
+    await backend.update("Text/a.txt", new Blob(["changed"]))
+    expect(await (await backend.load("Text/a.txt"))?.text()).toBe("changed")
+  })
+
+  it("is created for the memory kind", async () => {
+    const backend = createStorageBackend("memory", "anna")
+    expect(backend.kind).toBe("memory")
+    expect(await backend.isAvailable()).toBe(true)
+  })
+})
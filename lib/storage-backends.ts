@@ -0,0 +1,350 @@
+import { FILES_STORE, isIndexedDbSupported, openDiaryDatabase, requestToPromise, transactionDone } from "@/lib/diary-db"
+
+export type StorageBackendKind = "directory" | "indexeddb" | "opfs" | "memory"
+
+export interface StoredFileInfo {
+  path: string
+  name: string
+  size: number
+  type: string
+  lastModified: number
+}
+
+// A place diary files can be written to, addressed by slash-separated relative paths
+export interface StorageBackend {
+  readonly kind: StorageBackendKind
+  isAvailable(): Promise<boolean>
+  save(path: string, data: Blob): Promise<void>
+  load(path: string): Promise<Blob | null>
+  // Every file below a directory, recursively
+  list(directory: string): Promise<StoredFileInfo[]>
+  // Like save, but fails if the file does not exist yet
+  update(path: string, data: Blob): Promise<void>
+  delete(path: string): Promise<boolean>
+  stat(path: string): Promise<StoredFileInfo | null>
+}
+
+const splitPath = (path: string) => path.split("/").filter(Boolean)
+const normalizePath = (path: string) => splitPath(path).join("/")
+
+const fileInfo = (path: string, file: Blob, lastModified: number): StoredFileInfo => ({
+  path,
+  name: splitPath(path).pop() || path,
+  size: file.size,
+  type: file.type,
+  lastModified,
+})
+
+// Shared implementation for backends built on a FileSystemDirectoryHandle
+abstract class HandleStorageBackend implements StorageBackend {
+  abstract readonly kind: StorageBackendKind
+
+  protected abstract getRoot(): Promise<FileSystemDirectoryHandle | null>
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await this.getRoot()) !== null
+    } catch {
+      return false
+    }
+  }
+
+  private async requireRoot(): Promise<FileSystemDirectoryHandle> {
+    const root = await this.getRoot()
+    if (!root) throw new Error(`${this.kind} storage is not available`)
+    return root
+  }
+
+  // Walk to the directory that holds `path`, optionally creating missing folders
+  private async resolveParent(
+    path: string,
+    create: boolean,
+  ): Promise<{ directory: FileSystemDirectoryHandle; name: string } | null> {
+    const segments = splitPath(path)
+    const name = segments.pop()
+    if (!name) return null
+
+    let directory = await this.requireRoot()
+    try {
+      for (const segment of segments) {
+        directory = await directory.getDirectoryHandle(segment, { create })
+      }
+    } catch (error) {
+      if (!create) return null
+      throw error
+    }
+    return { directory, name }
+  }
+
+  private async getFile(path: string): Promise<File | null> {
+    const parent = await this.resolveParent(path, false)
+    if (!parent) return null
+    try {
+      const fileHandle = await parent.directory.getFileHandle(parent.name)
+      return await fileHandle.getFile()
+    } catch {
+      return null
+    }
+  }
+
+  async save(path: string, data: Blob): Promise<void> {
+    const parent = await this.resolveParent(path, true)
+    if (!parent) throw new Error(`Invalid path: ${path}`)
+
+    const fileHandle = await parent.directory.getFileHandle(parent.name, { create: true })
+    const writable = await fileHandle.createWritable()
+    await writable.write(data)
+    await writable.close()
+  }
+
+  async load(path: string): Promise<Blob | null> {
+    return this.getFile(path)
+  }
+
+  async list(directory: string): Promise<StoredFileInfo[]> {
+    let handle = await this.requireRoot()
+    try {
+      for (const segment of splitPath(directory)) {
+        handle = await handle.getDirectoryHandle(segment)
+      }
+    } catch {
+      return []
+    }
+
+    const files: StoredFileInfo[] = []
+    const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+      for await (const [name, entry] of dir.entries()) {
+        const entryPath = prefix ? `${prefix}/${name}` : name
+        if (entry.kind === "directory") {
+          await walk(entry as FileSystemDirectoryHandle, entryPath)
+        } else {
+          const file = await (entry as FileSystemFileHandle).getFile()
+          files.push(fileInfo(entryPath, file, file.lastModified))
+        }
+      }
+    }
+    await walk(handle, normalizePath(directory))
+    return files
+  }
+
+  async update(path: string, data: Blob): Promise<void> {
+    if (!(await this.getFile(path))) throw new Error(`File not found: ${path}`)
+    await this.save(path, data)
+  }
+
+  async delete(path: string): Promise<boolean> {
+    const parent = await this.resolveParent(path, false)
+    if (!parent) return false
+    try {
+      await parent.directory.removeEntry(parent.name)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async stat(path: string): Promise<StoredFileInfo | null> {
+    const file = await this.getFile(path)
+    return file ? fileInfo(path, file, file.lastModified) : null
+  }
+}
+
+// A folder the user picked through the File System Access API
+export class DirectoryHandleBackend extends HandleStorageBackend {
+  readonly kind = "directory" as const
+  private handle: FileSystemDirectoryHandle | null = null
+
+  setHandle(handle: FileSystemDirectoryHandle | null): void {
+    this.handle = handle
+  }
+
+  getHandle(): FileSystemDirectoryHandle | null {
+    return this.handle
+  }
+
+  protected async getRoot(): Promise<FileSystemDirectoryHandle | null> {
+    return this.handle
+  }
+}
+
+// The Origin Private File System: real files, but only visible to this site
+export class OpfsBackend extends HandleStorageBackend {
+  readonly kind = "opfs" as const
+  private username: string
+
+  constructor(username: string) {
+    super()
+    this.username = username
+  }
+
+  protected async getRoot(): Promise<FileSystemDirectoryHandle | null> {
+    if (!isStorageBackendSupported("opfs")) return null
+    const origin = await navigator.storage.getDirectory()
+    return origin.getDirectoryHandle(`mydiary_${this.username}`, { create: true })
+  }
+}
+
+// Move a user's private files to a new user name; folders cannot be renamed, so files are copied
+export async function renameOpfsDirectory(from: string, to: string): Promise<void> {
+  if (!isStorageBackendSupported("opfs")) return
+
+  const source = new OpfsBackend(from)
+  const target = new OpfsBackend(to)
+  for (const file of await source.list("")) {
+    const data = await source.load(file.path)
+    if (data) await target.save(file.path, data)
+  }
+  await deleteOpfsDirectory(from)
+}
+
+export async function deleteOpfsDirectory(username: string): Promise<void> {
+  if (!isStorageBackendSupported("opfs")) return
+
+  const origin = await navigator.storage.getDirectory()
+  try {
+    await origin.removeEntry(`mydiary_${username}`, { recursive: true })
+  } catch {
+    // Nothing was ever stored there
+  }
+}
+
+interface StoredFileRecord {
+  path: string
+  blob: Blob
+  lastModified: number
+}
+
+// Files kept as blobs in the user's diary database
+export class IndexedDbBackend implements StorageBackend {
+  readonly kind = "indexeddb" as const
+  private username: string
+
+  constructor(username: string) {
+    this.username = username
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isIndexedDbSupported()
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    const db = await openDiaryDatabase(this.username)
+    const transaction = db.transaction(FILES_STORE, mode)
+    return { transaction, store: transaction.objectStore(FILES_STORE) }
+  }
+
+  async save(path: string, data: Blob): Promise<void> {
+    const { transaction, store } = await this.store("readwrite")
+    store.put({ path: normalizePath(path), blob: data, lastModified: Date.now() } as StoredFileRecord)
+    await transactionDone(transaction)
+  }
+
+  async load(path: string): Promise<Blob | null> {
+    const { store } = await this.store("readonly")
+    const record: StoredFileRecord | undefined = await requestToPromise(store.get(normalizePath(path)))
+    return record?.blob ?? null
+  }
+
+  async list(directory: string): Promise<StoredFileInfo[]> {
+    const prefix = normalizePath(directory)
+    const { store } = await this.store("readonly")
+    const records: StoredFileRecord[] = await requestToPromise(
+      prefix ? store.getAll(IDBKeyRange.bound(`${prefix}/`, `${prefix}/\uffff`)) : store.getAll(),
+    )
+    return records.map((record) => fileInfo(record.path, record.blob, record.lastModified))
+  }
+
+  async update(path: string, data: Blob): Promise<void> {
+    if (!(await this.stat(path))) throw new Error(`File not found: ${path}`)
+    await this.save(path, data)
+  }
+
+  async delete(path: string): Promise<boolean> {
+    const existed = (await this.stat(path)) !== null
+    const { transaction, store } = await this.store("readwrite")
+    store.delete(normalizePath(path))
+    await transactionDone(transaction)
+    return existed
+  }
+
+  async stat(path: string): Promise<StoredFileInfo | null> {
+    const { store } = await this.store("readonly")
+    const record: StoredFileRecord | undefined = await requestToPromise(store.get(normalizePath(path)))
+    return record ? fileInfo(record.path, record.blob, record.lastModified) : null
+  }
+}
+
+// Non-persistent backend, used by tests and as a last resort
+export class MemoryBackend implements StorageBackend {
+  readonly kind = "memory" as const
+  private files = new Map<string, { blob: Blob; lastModified: number }>()
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async save(path: string, data: Blob): Promise<void> {
+    this.files.set(normalizePath(path), { blob: data, lastModified: Date.now() })
+  }
+
+  async load(path: string): Promise<Blob | null> {
+    return this.files.get(normalizePath(path))?.blob ?? null
+  }
+
+  async list(directory: string): Promise<StoredFileInfo[]> {
+    const prefix = normalizePath(directory)
+    return Array.from(this.files.entries())
+      .filter(([path]) => !prefix || path.startsWith(`${prefix}/`))
+      .map(([path, file]) => fileInfo(path, file.blob, file.lastModified))
+  }
+
+  async update(path: string, data: Blob): Promise<void> {
+    if (!this.files.has(normalizePath(path))) throw new Error(`File not found: ${path}`)
+    await this.save(path, data)
+  }
+
+  async delete(path: string): Promise<boolean> {
+    return this.files.delete(normalizePath(path))
+  }
+
+  async stat(path: string): Promise<StoredFileInfo | null> {
+    const normalized = normalizePath(path)
+    const file = this.files.get(normalized)
+    return file ? fileInfo(normalized, file.blob, file.lastModified) : null
+  }
+}
+
+// Check whether the browser provides what a backend needs
+export function isStorageBackendSupported(kind: StorageBackendKind): boolean {
+  if (typeof window === "undefined") return kind === "memory"
+
+  switch (kind) {
+    case "directory":
+      return "showDirectoryPicker" in window
+    case "indexeddb":
+      return isIndexedDbSupported()
+    case "opfs":
+      return "storage" in navigator && "getDirectory" in navigator.storage
+    case "memory":
+      return true
+  }
+}
+
+// Create a backend that does not need user interaction to set up
+export function createStorageBackend(kind: Exclude<StorageBackendKind, "directory">, username: string): StorageBackend {
+  switch (kind) {
+    case "indexeddb":
+      return new IndexedDbBackend(username)
+    case "opfs":
+      return new OpfsBackend(username)
+    case "memory":
+      return new MemoryBackend()
+  }
+}
+
+export const storageBackendLabels: Record<StorageBackendKind, string> = {
+  directory: "Local folder",
+  indexeddb: "Browser database",
+  opfs: "Private browser file system",
+  memory: "Temporary (not saved)",
+}
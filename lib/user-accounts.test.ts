@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+import "fake-indexeddb/auto"
+import { createHash } from "node:crypto"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createEncryptionConfig, deriveDiaryKey, getSessionKey, setSessionKey } from "@/lib/diary-crypto"
+import { getNoteRepository } from "@/lib/note-repository"
+import { getCurrentSession, getRememberedUsername, startSession } from "@/lib/session"
+import { accountExists, deleteAccount, getUsers, renameAccount, setPassword, verifyPassword } from "@/lib/user-accounts"
+
+// Every password hash runs the full PBKDF2 iteration count
+const SLOW_TEST_TIMEOUT = 30000
+
+const createDiaryKey = () => deriveDiaryKey("secret", { ...createEncryptionConfig(), iterations: 1000 })
+
+beforeEach(() => {
+  localStorage.clear()
+  // Sessions are announced to other tabs, which these tests do not have
+  vi.stubGlobal("BroadcastChannel", undefined)
+})
+
+describe("verifyPassword", () => {
+  it(
+    "accepts the password that was set and nothing else",
+    async () => {
+      await setPassword("anna", "correct horse")
+      expect(await verifyPassword("anna", "correct horse")).toBe(true)
+      expect(await verifyPassword("anna", "Correct horse")).toBe(false)
+      expect(await verifyPassword("bob", "correct horse")).toBe(false)
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+
+  it(
+    "upgrades a legacy hash once the password matched",
+    async () => {
+      const legacy = createHash("sha256").update("old password").digest("hex")
+      localStorage.setItem("mydiary_users", JSON.stringify({ anna: legacy }))
+
+      expect(await verifyPassword("anna", "wrong password")).toBe(false)
+      expect(getUsers().anna).toBe(legacy)
+
+      expect(await verifyPassword("anna", "old password")).toBe(true)
+      expect(getUsers().anna).toMatchObject({ algorithm: "PBKDF2-SHA256", iterations: 310000 })
+      expect(await verifyPassword("anna", "old password")).toBe(true)
+      expect(await verifyPassword("anna", "wrong password")).toBe(false)
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+})
+
+describe("renameAccount", () => {
+  it(
+    "moves the password, settings, notes, session and diary key to the new name",
+    async () => {
+      await setPassword("anna", "secret")
+      await setPassword("x_anna", "other")
+      localStorage.setItem("mydiary_settings_anna", '{"theme":"dark"}')
+      localStorage.setItem("mydiary_settings_x_anna", '{"theme":"light"}')
+      const key = await createDiaryKey()
+      setSessionKey("anna", key)
+      startSession("anna", true)
+      await getNoteRepository("anna").saveNote({
+        id: "1",
+        title: "Moved along",
+        type: "text",
+        content: "Dear diary",
+        date: "2024-05-01T09:00:00.000Z",
+        tags: [],
+        savedToFile: false,
+        size: 10,
+        updatedAt: "2024-05-01T09:00:00.000Z",
+      })
+
+      await renameAccount("anna", "bob")
+
+      expect(accountExists("anna")).toBe(false)
+      expect(await verifyPassword("bob", "secret")).toBe(true)
+      expect(localStorage.getItem("mydiary_settings_bob")).toBe('{"theme":"dark"}')
+      expect(localStorage.getItem("mydiary_settings_anna")).toBeNull()
+      // Keys ending in another user's name stay with that user
+      expect(localStorage.getItem("mydiary_settings_x_anna")).toBe('{"theme":"light"}')
+      expect(localStorage.getItem("mydiary_settings_x_bob")).toBeNull()
+
+      expect(getSessionKey("anna")).toBeNull()
+      expect(getSessionKey("bob")).toBe(key)
+      expect(getCurrentSession()?.username).toBe("bob")
+      expect(getRememberedUsername()).toBe("bob")
+      expect((await getNoteRepository("bob").getNote("1"))?.content).toBe("Dear diary")
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+
+  it(
+    "refuses unknown accounts and names that are taken",
+    async () => {
+      await setPassword("anna", "secret")
+      await setPassword("bob", "secret")
+      await expect(renameAccount("carol", "dave")).rejects.toThrow("Unknown account: carol")
+      await expect(renameAccount("anna", "bob")).rejects.toThrow("Username already exists: bob")
+      expect(accountExists("anna")).toBe(true)
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+})
+
+describe("deleteAccount", () => {
+  it(
+    "removes everything stored for the account and nothing else",
+    async () => {
+      await setPassword("anna", "secret")
+      await setPassword("bob", "secret")
+      localStorage.setItem("mydiary_settings_anna", "{}")
+      localStorage.setItem("mydiary_encryption_anna", "{}")
+      localStorage.setItem("mydiary_settings_bob", "{}")
+      setSessionKey("anna", await createDiaryKey())
+      startSession("anna", true)
+
+      await deleteAccount("anna")
+
+      expect(accountExists("anna")).toBe(false)
+      expect(accountExists("bob")).toBe(true)
+      expect(localStorage.getItem("mydiary_settings_anna")).toBeNull()
+      expect(localStorage.getItem("mydiary_encryption_anna")).toBeNull()
+      expect(localStorage.getItem("mydiary_settings_bob")).toBe("{}")
+      expect(getSessionKey("anna")).toBeNull()
+      expect(getCurrentSession()).toBeNull()
+      expect(getRememberedUsername()).toBeNull()
+    },
+    SLOW_TEST_TIMEOUT,
+  )
+})
@@ -0,0 +1,170 @@
+// Local accounts: a map of username to password hash in localStorage
+
+import { clearSessionKey, fromBase64, getSessionKey, setSessionKey, toBase64 } from "@/lib/diary-crypto"
+import { deleteDiaryDatabase, renameDiaryDatabase } from "@/lib/diary-db"
+import { removeSessionUser, renameSessionUser } from "@/lib/session"
+import { deleteOpfsDirectory, renameOpfsDirectory } from "@/lib/storage-backends"
+
+const USERS_KEY = "mydiary_users"
+const KEY_PREFIX = "mydiary_"
+
+const PASSWORD_ITERATIONS = 310000
+const PASSWORD_SALT_BYTES = 16
+
+export interface PasswordHash {
+  algorithm: "PBKDF2-SHA256"
+  salt: string
+  iterations: number
+  hash: string
+}
+
+// Accounts created before salted hashing store a bare SHA-256 hex digest
+export type StoredPassword = PasswordHash | string
+
+export function getUsers(): Record<string, StoredPassword> {
+  return JSON.parse(localStorage.getItem(USERS_KEY) || "{}")
+}
+
+function saveUsers(users: Record<string, StoredPassword>): void {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users))
+}
+
+export function accountExists(username: string): boolean {
+  return Object.prototype.hasOwnProperty.call(getUsers(), username)
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ])
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt, iterations, hash: "SHA-256" }, material, 256)
+  return toBase64(new Uint8Array(bits))
+}
+
+async function legacyHash(password: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(password))
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES))
+  return {
+    algorithm: "PBKDF2-SHA256",
+    salt: toBase64(salt),
+    iterations: PASSWORD_ITERATIONS,
+    hash: await pbkdf2(password, salt, PASSWORD_ITERATIONS),
+  }
+}
+
+async function matchesHash(hash: PasswordHash, password: string): Promise<boolean> {
+  return (await pbkdf2(password, fromBase64(hash.salt), hash.iterations)) === hash.hash
+}
+
+// Check a password, upgrading a legacy hash to PBKDF2 once it has matched
+export async function verifyPassword(username: string, password: string): Promise<boolean> {
+  const stored = getUsers()[username]
+  if (!stored) return false
+
+  if (typeof stored === "string") {
+    if (stored !== (await legacyHash(password))) return false
+
+    await setPassword(username, password)
+    console.log("[v0] Upgraded legacy password hash for", username)
+    return true
+  }
+
+  return matchesHash(stored, password)
+}
+
+export async function setPassword(username: string, password: string): Promise<void> {
+  const hash = await hashPassword(password)
+  const users = getUsers()
+  users[username] = hash
+  saveUsers(users)
+}
+
+// A short PIN that can unlock the lock screen instead of the full password
+const pinKey = (username: string) => `mydiary_lock_pin_${username}`
+
+export function hasUnlockPin(username: string): boolean {
+  return localStorage.getItem(pinKey(username)) !== null
+}
+
+export async function setUnlockPin(username: string, pin: string): Promise<void> {
+  localStorage.setItem(pinKey(username), JSON.stringify(await hashPassword(pin)))
+}
+
+export function removeUnlockPin(username: string): void {
+  localStorage.removeItem(pinKey(username))
+}
+
+export async function verifyUnlockPin(username: string, pin: string): Promise<boolean> {
+  const stored = localStorage.getItem(pinKey(username))
+  return stored !== null && matchesHash(JSON.parse(stored), pin)
+}
+
+// localStorage keys of the form `mydiary_<name>_${username}`. A key that also ends in a longer
+// username, like `mydiary_settings_anna_${username}` for user `anna_${username}`, belongs to that user.
+function getUserStorageKeys(username: string): string[] {
+  const suffix = `_${username}`
+  const longerNames = Object.keys(getUsers()).filter((name) => name !== username && name.endsWith(suffix))
+
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || !key.startsWith(KEY_PREFIX) || !key.endsWith(suffix)) continue
+    if (key.length <= KEY_PREFIX.length + suffix.length) continue
+    if (longerNames.some((name) => key.endsWith(`_${name}`))) continue
+    keys.push(key)
+  }
+  return keys
+}
+
+// Move an account with all its notes, files and settings to a new username
+export async function renameAccount(from: string, to: string): Promise<void> {
+  if (!accountExists(from)) throw new Error(`Unknown account: ${from}`)
+  if (accountExists(to)) throw new Error(`Username already exists: ${to}`)
+
+  await renameDiaryDatabase(from, to)
+  await renameOpfsDirectory(from, to)
+
+  // Before the keys move, which would carry the session along without renaming its user
+  renameSessionUser(from, to)
+  for (const key of getUserStorageKeys(from)) {
+    localStorage.setItem(key.slice(0, -from.length) + to, localStorage.getItem(key)!)
+    localStorage.removeItem(key)
+  }
+
+  const users = getUsers()
+  users[to] = users[from]
+  delete users[from]
+  saveUsers(users)
+
+  const key = getSessionKey(from)
+  if (key) {
+    setSessionKey(to, key)
+    clearSessionKey(from)
+  }
+  console.log(`[v0] Renamed account ${from} to ${to}`)
+}
+
+// Remove an account and everything the app stored for it. Files in a diary folder on disk are kept.
+export async function deleteAccount(username: string): Promise<void> {
+  await deleteDiaryDatabase(username)
+  await deleteOpfsDirectory(username)
+
+  // Before the keys go, so other tabs hear that the session ended
+  removeSessionUser(username)
+  for (const key of getUserStorageKeys(username)) {
+    localStorage.removeItem(key)
+  }
+
+  const users = getUsers()
+  delete users[username]
+  saveUsers(users)
+
+  clearSessionKey(username)
+  console.log(`[v0] Deleted account ${username}`)
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { diffWords } from "@/lib/word-diff"
+
+describe("diffWords", () => {
+  it("keeps identical text as one equal part", () => {
+    expect(diffWords("a quiet day", "a quiet day")).toEqual([{ type: "equal", text: "a quiet day" }])
+  })
+
+  it("marks replaced words and keeps the common prefix and suffix", () => {
+    expect(diffWords("a quiet day at home", "a busy day at home")).toEqual([
+      { type: "equal", text: "a " },
+      { type: "removed", text: "quiet" },
+      { type: "added", text: "busy" },
+      { type: "equal", text: " day at home" },
+    ])
+  })
+
+  it("reports added and removed words", () => {
+    expect(diffWords("walked home", "walked slowly home")).toEqual([
+      { type: "equal", text: "walked " },
+      { type: "added", text: "slowly " },
+      { type: "equal", text: "home" },
+    ])
+    expect(diffWords("walked slowly home", "walked home")).toEqual([
+      { type: "equal", text: "walked " },
+      { type: "removed", text: "slowly " },
+      { type: "equal", text: "home" },
+    ])
+  })
+
+  it("gives back both texts from its parts", () => {
+    const before = "The rain stopped before noon, so we went out.\nLater it rained again."
+    const after = "The rain stopped at noon and we went out.\nLater it was sunny."
+    const parts = diffWords(before, after)
+
+    const join = (types: string[]) =>
+      parts
+        .filter((part) => types.includes(part.type))
+        .map((part) => part.text)
+        .join("")
+    expect(join(["equal", "removed"])).toBe(before)
+    expect(join(["equal", "added"])).toBe(after)
+  })
+
+  it("handles empty texts", () => {
+    expect(diffWords("", "")).toEqual([])
+    expect(diffWords("", "new")).toEqual([{ type: "added", text: "new" }])
+    expect(diffWords("old", "")).toEqual([{ type: "removed", text: "old" }])
+  })
+})
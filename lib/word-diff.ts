@@ -0,0 +1,79 @@
+export type DiffPartType = "equal" | "added" | "removed"
+
+export interface DiffPart {
+  type: DiffPartType
+  text: string
+}
+
+// Above this many cells the LCS table gets too large, and the middle is shown as replaced
+const MAX_DIFF_CELLS = 2000000
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean)
+
+function pushPart(parts: DiffPart[], type: DiffPartType, text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else if (text) {
+    parts.push({ type, text })
+  }
+}
+
+// Word-level diff of two plain texts, based on the longest common subsequence of their words
+export function diffWords(before: string, after: string): DiffPart[] {
+  const oldTokens = tokenize(before)
+  const newTokens = tokenize(after)
+
+  // Trim the common prefix and suffix so the table only covers what changed
+  let start = 0
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) start++
+  let oldEnd = oldTokens.length
+  let newEnd = newTokens.length
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  const parts: DiffPart[] = []
+  pushPart(parts, "equal", oldTokens.slice(0, start).join(""))
+
+  const oldMiddle = oldTokens.slice(start, oldEnd)
+  const newMiddle = newTokens.slice(start, newEnd)
+  const rows = oldMiddle.length + 1
+  const columns = newMiddle.length + 1
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    pushPart(parts, "removed", oldMiddle.join(""))
+    pushPart(parts, "added", newMiddle.join(""))
+  } else {
+    // lengths[i * columns + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array(rows * columns)
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * columns + j + 1] + 1
+            : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        pushPart(parts, "equal", oldMiddle[i++])
+        j++
+      } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+        pushPart(parts, "removed", oldMiddle[i++])
+      } else {
+        pushPart(parts, "added", newMiddle[j++])
+      }
+    }
+    pushPart(parts, "removed", oldMiddle.slice(i).join(""))
+    pushPart(parts, "added", newMiddle.slice(j).join(""))
+  }
+
+  pushPart(parts, "equal", oldTokens.slice(oldEnd).join(""))
+  return parts
+}
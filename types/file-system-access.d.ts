@@ -0,0 +1,34 @@
+// Parts of the File System Access API that the bundled DOM typings do not declare yet
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: "read" | "readwrite"
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+}
+
+interface FileSystemDirectoryHandle {
+  entries(): AsyncIterableIterator<[string, FileSystemFileHandle | FileSystemDirectoryHandle]>
+  values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>
+}
+
+interface FileSystemWritableFileStream extends WritableStream {
+  write(data: BufferSource | Blob | string): Promise<void>
+  close(): Promise<void>
+}
+
+interface FileSystemFileHandle {
+  createWritable(options?: { keepExistingData?: boolean }): Promise<FileSystemWritableFileStream>
+}
+
+interface DirectoryPickerOptions {
+  id?: string
+  mode?: "read" | "readwrite"
+  startIn?: FileSystemHandle | "desktop" | "documents" | "downloads" | "music" | "pictures" | "videos"
+}
+
+interface Window {
+  showDirectoryPicker(options?: DirectoryPickerOptions): Promise<FileSystemDirectoryHandle>
+}